@@ -0,0 +1,375 @@
+import { EJSON } from 'bson';
+import { errorFromResponse, NetworkError } from './errors.js';
+import type {
+  ApiResponse,
+  CollectionInfo,
+  CollectionStats,
+  ConnectionStatus,
+  ConnectOptions,
+  ConnectResult,
+  CreatedToken,
+  CreateIndexOptions,
+  CreateTokenOptions,
+  DatabaseInfo,
+  DeleteManyResult,
+  DeleteOptions,
+  DeleteResult,
+  Document,
+  DocumentResult,
+  DryRunResult,
+  ExportOptions,
+  FilterWriteOptions,
+  ImportOptions,
+  ImportResult,
+  IndexesResult,
+  InsertOptions,
+  InsertResult,
+  Namespace,
+  QueryOptions,
+  SchemaResult,
+  SessionStatus,
+  SlowQueriesResult,
+  SwitchDatabaseResult,
+  TokenInfo,
+  UpdateManyResult,
+  UpdateOptions,
+  UpdateResult,
+  ValidationRules,
+  WhoAmI,
+} from './types.js';
+
+export interface ClientOptions {
+  // where the server runs, e.g. https://db.example.com. /api is added.
+  baseUrl: string;
+  // sent as Authorization: Bearer instead of relying on the session cookie
+  token?: string;
+  // defaults to the global fetch
+  fetch?: typeof fetch;
+  // added to every request
+  headers?: Record<string, string>;
+}
+
+type QueryValue = string | number | boolean | string[] | Document | undefined;
+
+interface RequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+}
+
+const SESSION_COOKIE = /^(byselfdb_session(?:_dev)?)=([^;]*)/;
+
+// responses come back as relaxed extended json, so ObjectId, Date, Decimal128
+// and friends survive the trip. requests are sent the same way.
+const ACCEPT = 'application/ejson';
+
+function encodeQueryValue(value: Exclude<QueryValue, undefined>): string {
+  if (Array.isArray(value)) return value.join(',');
+  if (typeof value === 'object') return EJSON.stringify(value, { relaxed: true });
+  return String(value);
+}
+
+/**
+ * document ids in a path. plain strings go as they are (24 hex characters
+ * mean an ObjectId, like everywhere else in byselfdb), anything else as
+ * extended json so the server gets the same bson type back.
+ */
+function encodeId(id: unknown): string {
+  if (typeof id === 'string' && !/^[{"\-\d]/.test(id)) return encodeURIComponent(id);
+  if (typeof id === 'number') return String(id);
+  return encodeURIComponent(EJSON.stringify(id, { relaxed: false }));
+}
+
+/**
+ * typed client for the byselfdb api. in a browser the session cookie is
+ * handled by the browser; elsewhere the client keeps it itself after connect().
+ */
+export class ByselfdbClient {
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly headers: Record<string, string>;
+  private token: string | undefined;
+  private cookie: string | null = null;
+  // sent on mutating requests of cookie sessions, see ensureCsrfToken
+  private csrfToken: string | null = null;
+
+  constructor(options: ClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+    this.headers = options.headers ?? {};
+    this.token = options.token;
+  }
+
+  setToken(token: string | undefined): void {
+    this.token = token;
+  }
+
+  // --- connection ---
+
+  async connect(options: ConnectOptions): Promise<ConnectResult> {
+    return this.request('POST', '/connect', { body: options });
+  }
+
+  async disconnect(): Promise<void> {
+    await this.request('POST', '/disconnect');
+    this.cookie = null;
+    this.csrfToken = null;
+  }
+
+  status(): Promise<SessionStatus> {
+    return this.request('GET', '/status');
+  }
+
+  whoami(): Promise<WhoAmI> {
+    return this.request('GET', '/whoami');
+  }
+
+  connectionStatus(): Promise<ConnectionStatus> {
+    return this.request('GET', '/status/connection');
+  }
+
+  switchDatabase(databaseName: string, options: { readOnly?: boolean } = {}): Promise<SwitchDatabaseResult> {
+    return this.request('POST', '/switch-database', { body: { databaseName, ...options } });
+  }
+
+  // --- api tokens (from a cookie session) ---
+
+  createToken(options: CreateTokenOptions): Promise<CreatedToken> {
+    return this.request('POST', '/tokens', { body: options });
+  }
+
+  async tokens(): Promise<TokenInfo[]> {
+    return (await this.request<{ tokens: TokenInfo[] }>('GET', '/tokens')).tokens;
+  }
+
+  async revokeToken(id: string): Promise<void> {
+    await this.request('DELETE', `/tokens/${encodeURIComponent(id)}`);
+  }
+
+  // --- databases and collections ---
+
+  async databases(): Promise<DatabaseInfo[]> {
+    return (await this.request<{ databases: DatabaseInfo[] }>('GET', '/databases')).databases;
+  }
+
+  async collections(database?: string): Promise<CollectionInfo[]> {
+    return (await this.request<{ collections: CollectionInfo[] }>('GET', '/collections', { query: { database } })).collections;
+  }
+
+  collectionStats(namespace: Namespace): Promise<CollectionStats> {
+    return this.request('GET', '/collection-stats', { query: { ...namespace } });
+  }
+
+  // --- documents ---
+
+  /**
+   * one page. pass the previous page's nextCursor (or prevCursor) to move.
+   */
+  find<T = Document>(options: QueryOptions): Promise<DocumentResult<T>> {
+    return this.request('GET', '/documents', { query: { ...options } });
+  }
+
+  /**
+   * every page, following nextCursor. only the first page is counted.
+   */
+  async *pages<T = Document>(options: QueryOptions): AsyncGenerator<DocumentResult<T>> {
+    let page = await this.find<T>(options);
+    yield page;
+
+    while (page.hasMore && page.nextCursor) {
+      page = await this.find<T>({ ...options, skip: undefined, cursor: page.nextCursor, countMode: 'none' });
+      yield page;
+    }
+  }
+
+  /**
+   * every matching document, a page at a time
+   */
+  async *iterate<T = Document>(options: QueryOptions): AsyncGenerator<T> {
+    for await (const page of this.pages<T>({ countMode: 'none', ...options })) {
+      yield* page.documents;
+    }
+  }
+
+  template(namespace: Namespace): Promise<Document> {
+    return this.request('GET', '/documents/template', { query: { ...namespace } });
+  }
+
+  insert(options: InsertOptions): Promise<InsertResult> {
+    return this.request('POST', '/documents', { body: options });
+  }
+
+  update({ id, ...body }: UpdateOptions): Promise<UpdateResult> {
+    return this.request('PUT', `/documents/${encodeId(id)}`, { body });
+  }
+
+  delete({ id, ...namespace }: DeleteOptions): Promise<DeleteResult> {
+    return this.request('DELETE', `/documents/${encodeId(id)}`, { query: { ...namespace } });
+  }
+
+  bulkInsert(options: Namespace & { documents: Document[] }): Promise<{ insertedCount: number; acknowledged: boolean }> {
+    return this.request('POST', '/documents/bulk', { body: { ...options, operation: 'insert' } });
+  }
+
+  bulkDelete(options: Namespace & { documents: Document[] }): Promise<{ deletedCount: number; acknowledged: boolean }> {
+    return this.request('POST', '/documents/bulk', { body: { ...options, operation: 'delete' } });
+  }
+
+  /**
+   * without confirmToken this is the dry run; send it again with the
+   * dry run's token to write
+   */
+  updateMany(options: FilterWriteOptions & { update: Document }): Promise<DryRunResult | UpdateManyResult> {
+    return this.request('POST', '/documents/update-many', { body: options });
+  }
+
+  deleteMany(options: FilterWriteOptions): Promise<DryRunResult | DeleteManyResult> {
+    return this.request('POST', '/documents/delete-many', { body: options });
+  }
+
+  // --- analytics ---
+
+  serverStats(): Promise<Document> {
+    return this.request('GET', '/server-stats');
+  }
+
+  schema(namespace: Namespace): Promise<SchemaResult> {
+    return this.request('GET', '/schema', { query: { ...namespace } });
+  }
+
+  indexes(namespace: Namespace): Promise<IndexesResult> {
+    return this.request('GET', '/indexes', { query: { ...namespace } });
+  }
+
+  async createIndex(options: CreateIndexOptions): Promise<string> {
+    return (await this.request<{ indexName: string }>('POST', '/indexes', { body: options })).indexName;
+  }
+
+  async dropIndex(namespace: Namespace, indexName: string): Promise<void> {
+    await this.request('DELETE', `/indexes/${encodeURIComponent(indexName)}`, { query: { ...namespace } });
+  }
+
+  async aggregate<T = Document>(namespace: Namespace, pipeline: Document[]): Promise<T[]> {
+    return (await this.request<{ results: T[] }>('POST', '/aggregate', { body: { ...namespace, pipeline } })).results;
+  }
+
+  import(options: ImportOptions): Promise<ImportResult> {
+    return this.request('POST', '/import', { body: options });
+  }
+
+  /**
+   * the raw response, body streaming. ndjson / csv / bson as asked for.
+   */
+  async export({ fields, ...options }: ExportOptions): Promise<Response> {
+    const response = await this.send('GET', '/export', { query: { ...options, fields } });
+    if (!response.ok) {
+      await this.parse(response, 'GET', '/export');
+    }
+    return response;
+  }
+
+  validation(namespace: Namespace): Promise<ValidationRules> {
+    return this.request('GET', '/validation', { query: { ...namespace } });
+  }
+
+  async setValidation(namespace: Namespace, rules: Partial<ValidationRules>): Promise<void> {
+    await this.request('PUT', '/validation', { body: { ...namespace, ...rules } });
+  }
+
+  slowQueries(options: { database?: string; minMs?: number } = {}): Promise<SlowQueriesResult> {
+    return this.request('GET', '/slow-queries', { query: options });
+  }
+
+  setProfiling(options: { database?: string; level: 0 | 1 | 2; slowMs?: number }): Promise<{ level: number; slowMs: number; message: string }> {
+    return this.request('POST', '/profiling', { body: options });
+  }
+
+  opcounters(): Promise<{ timestamp: number; opcounters: Record<string, number>; connections: number; memory: number }> {
+    return this.request('GET', '/opcounters');
+  }
+
+  // --- plumbing ---
+
+  private async request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    await this.ensureCsrfToken(method, path);
+    const response = await this.send(method, path, options);
+    const data = await this.parse<T>(response, method, path);
+
+    // /connect, /switch-database and /status hand out the session's token
+    const csrfToken = (data as { csrfToken?: unknown } | undefined)?.csrfToken;
+    if (typeof csrfToken === 'string') {
+      this.csrfToken = csrfToken;
+    }
+    return data;
+  }
+
+  /**
+   * cookie sessions send a csrf token with every write. a client that didn't
+   * connect itself (e.g. after a page reload) picks it up from /status first.
+   */
+  private async ensureCsrfToken(method: string, path: string): Promise<void> {
+    if (method === 'GET' || path === '/connect' || this.token || this.csrfToken) {
+      return;
+    }
+
+    try {
+      await this.status();
+    } catch {
+      // no session: the request itself will say so
+    }
+  }
+
+  private async send(method: string, path: string, { query, body }: RequestOptions): Promise<Response> {
+    const url = new URL(`${this.baseUrl}/api${path}`);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, encodeQueryValue(value));
+      }
+    }
+
+    const headers: Record<string, string> = { ...this.headers, accept: ACCEPT };
+    if (this.token) headers.authorization = `Bearer ${this.token}`;
+    if (this.cookie) headers.cookie = this.cookie;
+    if (this.csrfToken && !this.token && method !== 'GET') headers['x-csrf-token'] = this.csrfToken;
+    if (body !== undefined) headers['content-type'] = 'application/json';
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        method,
+        headers,
+        body: body === undefined ? undefined : EJSON.stringify(body, { relaxed: true }),
+        credentials: 'include',
+      });
+    } catch (error) {
+      throw new NetworkError(`Could not reach ${url.origin}`, { cause: error });
+    }
+
+    this.keepCookie(response.headers);
+    return response;
+  }
+
+  private async parse<T>(response: Response, method: string, path: string): Promise<T> {
+    let body: ApiResponse<T>;
+    try {
+      body = EJSON.parse(await response.text(), { relaxed: true }) as ApiResponse<T>;
+    } catch (error) {
+      throw new NetworkError(`${method} ${path} answered ${response.status} without json`, { cause: error });
+    }
+
+    if (!response.ok || !body.success) {
+      throw errorFromResponse(response.status, body, response.headers);
+    }
+    return body.data as T;
+  }
+
+  // only outside browsers: they don't expose Set-Cookie, and keep it themselves
+  private keepCookie(headers: Headers): void {
+    for (const header of headers.getSetCookie?.() ?? []) {
+      const match = SESSION_COOKIE.exec(header);
+      if (match) {
+        // cleared on disconnect / expiry
+        this.cookie = match[2] ? `${match[1]}=${match[2]}` : null;
+      }
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import type { ErrorCode, ValidationIssue } from './types.js';
+
+/**
+ * a request the api answered with success: false. `code` is the stable
+ * error code when the server sent one, `requestId` matches its logs.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode | undefined;
+  readonly details: Record<string, unknown> | undefined;
+  readonly requestId: string | undefined;
+  // some errors carry data, e.g. matchedCount when maxAffected is exceeded
+  readonly data: unknown;
+
+  constructor(status: number, body: { error?: string; code?: ErrorCode; details?: Record<string, unknown>; requestId?: string; data?: unknown }) {
+    super(body.error ?? `Request failed with status ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = body.code;
+    this.details = body.details;
+    this.requestId = body.requestId;
+    this.data = body.data;
+  }
+}
+
+/**
+ * the request failed schema validation, `issues` lists every problem
+ */
+export class ValidationError extends ApiError {
+  readonly issues: ValidationIssue[];
+
+  constructor(status: number, body: ConstructorParameters<typeof ApiError>[1]) {
+    super(status, body);
+    this.name = 'ValidationError';
+    this.issues = (body.details?.issues as ValidationIssue[] | undefined) ?? [];
+  }
+}
+
+/**
+ * no session, an expired one, or the user lacks the privilege
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(status: number, body: ConstructorParameters<typeof ApiError>[1]) {
+    super(status, body);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  // seconds, from the Retry-After header
+  readonly retryAfter: number | null;
+
+  constructor(status: number, body: ConstructorParameters<typeof ApiError>[1], retryAfter: number | null) {
+    super(status, body);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * the api couldn't be reached or didn't answer with json
+ */
+export class NetworkError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export function errorFromResponse(status: number, body: ConstructorParameters<typeof ApiError>[1], headers: Headers): ApiError {
+  if (status === 429) {
+    const retryAfter = Number(headers.get('retry-after'));
+    return new RateLimitError(status, body, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null);
+  }
+  if (body.code === 'INVALID_REQUEST' && Array.isArray(body.details?.issues)) {
+    return new ValidationError(status, body);
+  }
+  if (status === 401 || body.code === 'UNAUTHORIZED') {
+    return new UnauthorizedError(status, body);
+  }
+  return new ApiError(status, body);
+}
@@ -0,0 +1,6 @@
+export { ByselfdbClient } from './client.js';
+export type { ClientOptions } from './client.js';
+export { ApiError, NetworkError, RateLimitError, UnauthorizedError, ValidationError } from './errors.js';
+export type * from './types.js';
+// the bson types responses decode to
+export { EJSON, ObjectId, Decimal128, Long } from 'bson';
@@ -0,0 +1,340 @@
+/**
+ * request and response shapes of the byselfdb api. the server describes the
+ * same routes in src/schemas and at /api/openapi.json.
+ */
+
+export type Document = Record<string, unknown>;
+
+// stable error codes, see the server's lib/errors.ts
+export type ErrorCode =
+  | 'UNAUTHORIZED'
+  | 'AUTH_FAILED'
+  | 'RESTRICTED_TIER'
+  | 'DUPLICATE_KEY'
+  | 'VALIDATION_FAILED'
+  | 'TIMEOUT'
+  | 'NOT_PRIMARY'
+  | 'NOT_FOUND'
+  | 'WRITE_CONFLICT'
+  | 'INVALID_REQUEST'
+  | 'CONNECTION_FAILED'
+  | 'SERVER_BUSY'
+  | 'CSRF_FAILED'
+  | 'INTERNAL';
+
+export interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: ErrorCode;
+  details?: Record<string, unknown>;
+  requestId?: string;
+}
+
+export interface ValidationIssue {
+  location: 'params' | 'query' | 'body';
+  path: string;
+  message: string;
+}
+
+// namespace of most calls. database falls back to the session's one.
+export interface Namespace {
+  database?: string;
+  collection: string;
+}
+
+// connection
+
+export interface ConnectOptions {
+  uri?: string;
+  // a saved profile instead of a uri
+  profileId?: string;
+  // namespace patterns like "shop.*"
+  scope?: string | string[];
+  readOnly?: boolean;
+  maxAffected?: number;
+}
+
+export interface ConnectResult {
+  databaseName: string;
+  maskedUri: string;
+  allowedScope: string[];
+  readOnly: boolean;
+  maxAffected: number;
+  csrfToken: string;
+  message: string;
+}
+
+export interface SessionStatus {
+  databaseName: string;
+  readOnly: boolean;
+  allowedScope: string[];
+  maxAffected: number;
+  expiresAt: string;
+  // null for api tokens
+  csrfToken: string | null;
+}
+
+export interface UserRole {
+  role: string;
+  db: string;
+}
+
+export interface WhoAmI {
+  authenticated: boolean;
+  users: { user: string; db: string }[];
+  roles: UserRole[];
+  privileges: { resource: Record<string, unknown>; actions: string[] }[];
+  database: string;
+  databaseRoles: UserRole[];
+}
+
+export interface ConnectionStatus {
+  latencyMs: number;
+  topology: 'Single' | 'ReplicaSet' | 'Sharded' | 'LoadBalanced' | string;
+  serverVersion: string | null;
+  isWritablePrimary: boolean | null;
+  me: string | null;
+  replicaSet: {
+    name: string;
+    source: 'replSetGetStatus' | 'hello';
+    members: { name: string; state: string; health: number | null; pingMs: number | null }[];
+  } | null;
+}
+
+export interface SwitchDatabaseResult {
+  databaseName: string;
+  readOnly: boolean;
+  roles: UserRole[];
+  csrfToken: string;
+  message: string;
+}
+
+// api tokens
+
+export interface CreateTokenOptions {
+  name: string;
+  // 1-365, default 30
+  expiresInDays?: number;
+  // narrows the session's scope
+  scope?: string | string[];
+  readOnly?: boolean;
+}
+
+export interface TokenInfo {
+  id: string;
+  name: string;
+  databaseName: string;
+  scope: string[];
+  readOnly: boolean;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface CreatedToken extends TokenInfo {
+  // only returned here, send it as the client's `token`
+  token: string;
+}
+
+// databases and collections
+
+export interface Permissions {
+  canRead: boolean;
+  canWrite: boolean;
+  canIndex: boolean;
+}
+
+export interface DatabaseInfo extends Permissions {
+  name: string;
+  sizeOnDisk?: number;
+}
+
+export interface CollectionInfo extends Permissions {
+  name: string;
+  documentCount: number;
+  size: number;
+}
+
+export interface CollectionStats {
+  documentCount: number;
+  size: number;
+  storageSize: number;
+  indexCount: number;
+  indexes: Document[];
+}
+
+// documents
+
+export type CountMode = 'exact' | 'estimated' | 'none';
+
+export interface QueryOptions extends Namespace {
+  filter?: Document;
+  sort?: Record<string, 1 | -1>;
+  projection?: Record<string, 0 | 1>;
+  limit?: number;
+  skip?: number;
+  // from a previous page, replaces skip
+  cursor?: string;
+  countMode?: CountMode;
+}
+
+export interface DocumentResult<T = Document> {
+  documents: T[];
+  // null with countMode 'none'
+  totalCount: number | null;
+  countMode: CountMode;
+  hasMore: boolean;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  limit: number;
+  skip: number;
+}
+
+export interface InsertOptions extends Namespace {
+  document: Document;
+}
+
+export interface UpdateOptions extends Namespace {
+  id: unknown;
+  update: Document;
+}
+
+export interface DeleteOptions extends Namespace {
+  id: unknown;
+}
+
+export interface InsertResult {
+  insertedId: unknown;
+  acknowledged: boolean;
+}
+
+export interface UpdateResult {
+  modifiedCount: number;
+  upsertedCount: number;
+  acknowledged: boolean;
+}
+
+export interface DeleteResult {
+  deletedCount: number;
+  acknowledged: boolean;
+}
+
+export interface FilterWriteOptions extends Namespace {
+  filter: Document;
+  // from the dry run. without it nothing is written.
+  confirmToken?: string;
+}
+
+export interface DryRunResult {
+  dryRun: true;
+  operation: 'updateMany' | 'deleteMany';
+  matchedCount: number;
+  maxAffected: number;
+  sample: Document[];
+  // null when nothing matched
+  confirmToken: string | null;
+  expiresAt: string | null;
+}
+
+export interface UpdateManyResult {
+  dryRun: false;
+  operation: 'updateMany';
+  matchedCount: number;
+  modifiedCount: number;
+  acknowledged: boolean;
+}
+
+export interface DeleteManyResult {
+  dryRun: false;
+  operation: 'deleteMany';
+  deletedCount: number;
+  acknowledged: boolean;
+}
+
+// analytics
+
+export interface SchemaField {
+  field: string;
+  types: { type: string; count: number; percentage: number }[];
+  presence: number;
+  examples: unknown[];
+}
+
+export interface SchemaResult {
+  fields: SchemaField[];
+  sampleSize: number;
+  totalDocuments: number;
+}
+
+export interface IndexInfo {
+  name: string;
+  key: Record<string, unknown>;
+  unique: boolean;
+  sparse: boolean;
+  background: boolean;
+}
+
+export interface IndexesResult {
+  indexes: IndexInfo[];
+  totalIndexSize: number;
+  indexSizes: Record<string, number>;
+}
+
+export interface CreateIndexOptions extends Namespace {
+  keys: Record<string, 1 | -1 | '2d' | '2dsphere' | 'text' | 'hashed'>;
+  options?: { unique?: boolean; sparse?: boolean; name?: string };
+}
+
+export interface ExportOptions extends Namespace {
+  format?: 'ndjson' | 'json' | 'ejson' | 'csv' | 'bson';
+  filter?: Document;
+  projection?: Document;
+  sort?: Record<string, 1 | -1>;
+  // 0 exports everything
+  limit?: number;
+  // csv columns
+  fields?: string[];
+  gzip?: boolean;
+}
+
+export interface ImportOptions extends Namespace {
+  documents: Document[];
+  mode?: 'insert' | 'upsert' | 'replace';
+  // upsert / replace match on these fields
+  key?: string | string[];
+}
+
+export interface ImportResult {
+  mode: 'insert' | 'upsert' | 'replace';
+  insertedCount: number;
+  insertedIds: unknown[];
+  upsertedCount: number;
+  matchedCount: number;
+  modifiedCount: number;
+  failedCount: number;
+  // row is 1-based
+  errors: { row: number; error: string }[];
+}
+
+export interface ValidationRules {
+  validator: Document | null;
+  validationLevel: 'off' | 'strict' | 'moderate';
+  validationAction: 'error' | 'warn' | 'errorAndLog';
+}
+
+export interface SlowQuery {
+  op: string;
+  ns: string;
+  millis: number;
+  timestamp: unknown;
+  query: Document;
+  planSummary?: string;
+}
+
+export interface SlowQueriesResult {
+  profilingEnabled: boolean;
+  profilingLevel?: number;
+  slowMs?: number;
+  queries: SlowQuery[];
+  message?: string;
+}
@@ -0,0 +1,121 @@
+import express from 'express';
+import cors from 'cors';
+import cookieParser from 'cookie-parser';
+import { config } from './config/index.js';
+import connectionRoutes from './routes/connection.js';
+import profileRoutes from './routes/profiles.js';
+import databaseRoutes from './routes/database.js';
+import collectionRoutes from './routes/collection.js';
+import analyticsRoutes from './routes/analytics.js';
+import jobRoutes from './routes/jobs.js';
+import historyRoutes from './routes/history.js';
+import auditRoutes from './routes/audit.js';
+import metricsRoutes from './routes/metrics.js';
+import healthRoutes from './routes/health.js';
+import docsRoutes from './routes/docs.js';
+import tokenRoutes from './routes/tokens.js';
+import { createLogger } from './lib/logger.js';
+import { PoolFullError, sendMongoError } from './lib/errors.js';
+import { optionalAuthMiddleware } from './middleware/auth.js';
+import { scopeGuard } from './middleware/scope.js';
+import { sessionDatabase } from './middleware/sessionDatabase.js';
+import { readOnlyGuard } from './middleware/readOnly.js';
+import { ejsonMiddleware } from './middleware/ejson.js';
+import { auditMiddleware } from './middleware/audit.js';
+import { csrfGuard } from './middleware/csrf.js';
+import { requestIdMiddleware } from './middleware/requestId.js';
+import { metricsMiddleware } from './middleware/metrics.js';
+import { connectRateLimiter, apiRateLimiter, apiTokenRateLimiter, mutationRateLimiter } from './middleware/rateLimit.js';
+
+const log = createLogger('server');
+
+// the server, without listening. index.ts starts it, tests call it directly.
+const app = express();
+
+// trust proxy for rate limits
+if (config.NODE_ENV === 'production') {
+  app.set('trust proxy', 1);
+}
+
+// explicitly block wildcards in prod
+if (config.NODE_ENV === 'production') {
+  const origins = Array.isArray(config.CORS_ORIGIN) ? config.CORS_ORIGIN : [config.CORS_ORIGIN];
+  if (origins.includes('*')) {
+    log.error('CORS_ORIGIN cannot be "*" in production');
+    process.exit(1);
+  }
+}
+
+app.use(requestIdMiddleware);
+app.use(metricsMiddleware);
+
+app.use(cors({
+  origin: config.CORS_ORIGIN,
+  credentials: true,
+}));
+
+app.use(express.json({ limit: '1mb' }));
+app.use(cookieParser());
+app.use(ejsonMiddleware);
+
+// probes, ahead of the rate limit so they never see a 429
+app.use('/api', healthRoutes);
+
+// global rate limit, per ip or per api token
+app.use('/api', apiRateLimiter, apiTokenRateLimiter);
+
+app.get('/', (req, res) => {
+  res.json({
+    message: 'byselfdb api is running',
+    docs: '/api/docs',
+    version: '1.0.0'
+  });
+});
+
+// prometheus scrapes, outside /api so they skip sessions and rate limits
+app.use(metricsRoutes);
+
+// openapi description and its docs ui, no session needed
+app.use('/api', docsRoutes);
+
+// strict limit for connection attempts
+app.use('/api/connect', connectRateLimiter);
+
+// limit writes
+app.use('/api/documents', mutationRateLimiter);
+
+// resolve the session once, default the database, audit the request, check it isn't cross-site, then keep it inside its scope and mode
+app.use('/api', optionalAuthMiddleware, sessionDatabase, auditMiddleware, csrfGuard, scopeGuard, readOnlyGuard);
+
+app.use('/api', connectionRoutes);
+app.use('/api', profileRoutes);
+app.use('/api', databaseRoutes);
+app.use('/api', collectionRoutes);
+app.use('/api', analyticsRoutes);
+app.use('/api', jobRoutes);
+app.use('/api', historyRoutes);
+app.use('/api', auditRoutes);
+app.use('/api', tokenRoutes);
+
+app.use((req, res) => {
+  res.status(404).json({
+    success: false,
+    error: 'Not found',
+  });
+});
+
+app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // thrown by getConnectionFromSession from any route
+  if (err instanceof PoolFullError) {
+    log.warn('connection pool full', { method: req.method, path: req.originalUrl.split('?')[0] });
+    return sendMongoError(res, err, 'Internal server error');
+  }
+
+  log.error('unhandled error', { error: err, method: req.method, path: req.originalUrl.split('?')[0] });
+  return res.status(500).json({
+    success: false,
+    error: process.env.NODE_ENV === 'development' ? err.message : 'Internal server error',
+  });
+});
+
+export default app;
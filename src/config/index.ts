@@ -6,6 +6,46 @@ dotenv.config();
 const envSchema = z.object({
   PORT: z.coerce.number().default(3001),
   SESSION_SECRET: z.string().min(32, 'SESSION_SECRET must be at least 32 characters'),
+  // retired secrets, still accepted for decrypting stateless tokens
+  SESSION_SECRET_PREVIOUS: z.preprocess(
+    (val) => (typeof val === 'string' ? val.split(',').map(item => item.trim()).filter(Boolean) : val),
+    z.array(z.string().min(32, 'SESSION_SECRET_PREVIOUS entries must be at least 32 characters')).default([])
+  ),
+  // server: session id cookie backed by the session store
+  // stateless: the cookie carries the encrypted session itself
+  SESSION_MODE: z.enum(['server', 'stateless']).default('server'),
+  // stateless tokens can't be revoked across replicas, so they live shorter than server sessions
+  STATELESS_SESSION_HOURS: z.coerce.number().positive().max(24).default(4),
+  // where server-mode sessions live. file survives restarts.
+  SESSION_STORE: z.enum(['memory', 'file']).default('memory'),
+  // local state (session log, jobs etc.)
+  DATA_DIR: z.string().default('./data'),
+  // mongo clients: sockets per uri, most clients at once, and how long an unused one is kept
+  MONGO_POOL_SIZE: z.coerce.number().int().min(1).default(5),
+  MONGO_MAX_CLIENTS: z.coerce.number().int().min(1).default(50),
+  MONGO_IDLE_MINUTES: z.coerce.number().positive().default(5),
+  // filter-driven updateMany / deleteMany: per-session default and the most a session may ask for
+  MAX_AFFECTED_DEFAULT: z.coerce.number().int().min(1).default(1000),
+  MAX_AFFECTED_LIMIT: z.coerce.number().int().min(1).default(100000),
+  // undo journal: how long entries are kept, and how many documents one entry keeps
+  JOURNAL_RETENTION_HOURS: z.coerce.number().positive().default(72),
+  JOURNAL_MAX_DOCUMENTS: z.coerce.number().int().min(1).default(1000),
+  // audit trail of every /api request in DATA_DIR/audit
+  AUDIT_LOG: z.enum(['on', 'off']).default('on'),
+  AUDIT_RETENTION_DAYS: z.coerce.number().int().min(1).default(30),
+  AUDIT_MAX_FILE_MB: z.coerce.number().positive().default(50),
+  // bearer token for reading every session's audit entries, unset: own entries only
+  AUDIT_READ_TOKEN: z.string().min(32, 'AUDIT_READ_TOKEN must be at least 32 characters').optional(),
+  // bearer token for scraping /metrics, unset: open
+  METRICS_TOKEN: z.string().min(32, 'METRICS_TOKEN must be at least 32 characters').optional(),
+  // background jobs running at the same time
+  JOB_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+  // largest file one import upload may send
+  IMPORT_MAX_MB: z.coerce.number().positive().default(1024),
+  // json log lines at this level and above
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  // stdout, stderr or a file path (appended to)
+  LOG_DESTINATION: z.string().min(1).default('stdout'),
   NODE_ENV: z.preprocess(
     (val) => (typeof val === 'string' ? val.trim() : val),
     z.enum(['development', 'production', 'test']).default('development')
@@ -0,0 +1,204 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { JsonFileStore } from './jsonFileStore.js';
+import { SessionData } from './sessionStore.js';
+import { ResolvedSession } from './sessionManager.js';
+import { createStorageKey, loadStorageKey, openString, sealString } from '../utils/encryption.js';
+import { joinUriPassword, splitUriPassword } from '../utils/uri.js';
+
+/**
+ * personal access tokens for scripts and ci. minted from a session, they
+ * carry its connection (password sealed, like saved profiles) with their own
+ * scope, mode and expiry. only a hash of the secret is kept.
+ *
+ * tokens look like bsdb_<id>.<secret> and belong to whoever can connect with
+ * the same uri, so any session on those credentials can list and revoke them.
+ */
+
+export const API_TOKEN_PREFIX = 'bsdb_';
+
+// sessions resolved from a token use this id, so jobs, history and audit stay per token
+export const TOKEN_SESSION_PREFIX = 'token:';
+
+export const MAX_TOKEN_DAYS = 365;
+export const MAX_TOKENS_PER_OWNER = 50;
+
+const SECRET_LENGTH = 32;
+const TOKEN_FORMAT = /^bsdb_([0-9a-f-]{36})\.([A-Za-z0-9_-]{43})$/;
+
+interface StoredToken {
+  id: string;
+  ownerHash: string;
+  secretHash: string;
+  name: string;
+  uri: string;
+  password: { kid: string; salt: string; sealed: string } | null;
+  databaseName: string;
+  scope: string[];
+  readOnly: boolean;
+  maxAffected?: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface TokenInput {
+  name: string;
+  expiresInDays: number;
+  scope: string[];
+  readOnly: boolean;
+}
+
+// what clients get to see. the secret is only ever in the create response.
+export interface TokenSummary {
+  id: string;
+  name: string;
+  databaseName: string;
+  scope: string[];
+  readOnly: boolean;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const store = new JsonFileStore<StoredToken>('tokens.json');
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// the uri without its password: connecting proves the password, and it never lands on disk
+function ownerOf(session: SessionData): string {
+  return sha256(splitUriPassword(session.uri).uri);
+}
+
+function sealPassword(password: string | null): StoredToken['password'] {
+  if (password === null) {
+    return null;
+  }
+
+  const key = createStorageKey();
+  return { kid: key.kid, salt: key.salt, sealed: sealString(password, key) };
+}
+
+function summarize(token: StoredToken): TokenSummary {
+  return {
+    id: token.id,
+    name: token.name,
+    databaseName: token.databaseName,
+    scope: token.scope,
+    readOnly: token.readOnly,
+    createdAt: new Date(token.createdAt).toISOString(),
+    expiresAt: new Date(token.expiresAt).toISOString(),
+  };
+}
+
+function isExpired(token: StoredToken): boolean {
+  return token.expiresAt <= Date.now();
+}
+
+function pruneExpired(): Promise<number> {
+  return store.deleteWhere(isExpired);
+}
+
+/**
+ * Find a live token by its full value. Cheap enough to run per request.
+ */
+export function findApiToken(value: string): StoredToken | null {
+  const match = TOKEN_FORMAT.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const token = store.get(match[1]);
+  if (!token || isExpired(token)) {
+    return null;
+  }
+
+  const given = Buffer.from(sha256(match[2]), 'hex');
+  return timingSafeEqual(given, Buffer.from(token.secretHash, 'hex')) ? token : null;
+}
+
+/**
+ * Resolve a token into session data. Returns null if unknown, expired, revoked
+ * or sealed with a secret that has since rotated out.
+ */
+export function resolveApiToken(value: string): (ResolvedSession & { tokenId: string }) | null {
+  const token = findApiToken(value);
+  if (!token) {
+    return null;
+  }
+
+  let password: string | null = null;
+  if (token.password) {
+    const key = loadStorageKey(token.password.kid, token.password.salt);
+    password = key ? openString(token.password.sealed, key) : null;
+    if (password === null) {
+      return null;
+    }
+  }
+
+  const session: SessionData = {
+    uri: joinUriPassword(token.uri, password),
+    databaseName: token.databaseName,
+    allowedScope: token.scope,
+    readOnly: token.readOnly,
+    maxAffected: token.maxAffected,
+    createdAt: token.createdAt,
+    expiresAt: token.expiresAt,
+  };
+
+  return { sessionId: `${TOKEN_SESSION_PREFIX}${token.id}`, session, tokenId: token.id };
+}
+
+export function listApiTokens(session: SessionData): TokenSummary[] {
+  const ownerHash = ownerOf(session);
+  return store.values()
+    .filter(token => token.ownerHash === ownerHash && !isExpired(token))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(summarize);
+}
+
+/**
+ * Mint a token for the session's connection. The scope and mode have been
+ * checked against the session already. Returns null once the owner has
+ * MAX_TOKENS_PER_OWNER live tokens.
+ */
+export async function createApiToken(
+  session: SessionData,
+  input: TokenInput
+): Promise<{ token: string; summary: TokenSummary } | null> {
+  await pruneExpired();
+
+  const ownerHash = ownerOf(session);
+  if (store.values().filter(token => token.ownerHash === ownerHash).length >= MAX_TOKENS_PER_OWNER) {
+    return null;
+  }
+
+  const { uri, password } = splitUriPassword(session.uri);
+  const secret = randomBytes(SECRET_LENGTH).toString('base64url');
+  const now = Date.now();
+
+  const stored: StoredToken = {
+    id: randomUUID(),
+    ownerHash,
+    secretHash: sha256(secret),
+    name: input.name,
+    uri,
+    password: sealPassword(password),
+    databaseName: session.databaseName,
+    scope: input.scope,
+    readOnly: input.readOnly,
+    maxAffected: session.maxAffected,
+    createdAt: now,
+    expiresAt: now + input.expiresInDays * 24 * 60 * 60 * 1000,
+  };
+
+  await store.set(stored.id, stored);
+  return { token: `${API_TOKEN_PREFIX}${stored.id}.${secret}`, summary: summarize(stored) };
+}
+
+export async function revokeApiToken(session: SessionData, tokenId: string): Promise<boolean> {
+  const token = store.get(tokenId);
+  if (!token || token.ownerHash !== ownerOf(session)) {
+    return false;
+  }
+  return store.delete(tokenId);
+}
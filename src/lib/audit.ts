@@ -0,0 +1,196 @@
+import { createReadStream, existsSync, mkdirSync, readdirSync, statSync } from 'fs';
+import { appendFile, readdir, unlink } from 'fs/promises';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { config } from '../config/index.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('audit');
+
+/**
+ * audit trail of every /api request, one json object per line in
+ * DATA_DIR/audit/audit-YYYY-MM-DD[.N].jsonl. a new file starts every
+ * day (utc) and whenever the current one passes AUDIT_MAX_FILE_MB.
+ * files older than AUDIT_RETENTION_DAYS are deleted.
+ */
+
+export type AuditOutcome = 'success' | 'denied' | 'error';
+
+export interface AuditEntry {
+  at: string;
+  // sha256 of the session id, null before /connect
+  session: string | null;
+  maskedUri: string | null;
+  method: string;
+  route: string;
+  status: number;
+  outcome: AuditOutcome;
+  durationMs: number;
+  database: string | null;
+  collection: string | null;
+  // filter / update / pipeline / sort / projection with literal values redacted
+  shape: Record<string, unknown> | null;
+  // insertedCount, modifiedCount, deletedCount ... when the route reported them
+  affected: Record<string, number> | null;
+  error: string | null;
+}
+
+export interface AuditQuery {
+  session?: string;
+  from?: number;
+  to?: number;
+  route?: string;
+  database?: string;
+  collection?: string;
+  outcome?: AuditOutcome;
+  limit: number;
+}
+
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1h
+
+const auditDir = join(config.DATA_DIR, 'audit');
+mkdirSync(auditDir, { recursive: true, mode: 0o700 });
+
+let currentDay = '';
+let currentPart = 0;
+let currentSize = 0;
+// serialises appends so rotation never races
+let writes: Promise<void> = Promise.resolve();
+
+function fileName(day: string, part: number): string {
+  return part === 0 ? `audit-${day}.jsonl` : `audit-${day}.${part}.jsonl`;
+}
+
+/**
+ * pick up where the last process left off for today
+ */
+function openDay(day: string): void {
+  currentDay = day;
+  currentPart = 0;
+  for (const name of readdirSync(auditDir)) {
+    const match = FILE_PATTERN.exec(name);
+    if (match && match[1] === day) {
+      currentPart = Math.max(currentPart, Number(match[2] ?? 0));
+    }
+  }
+
+  const path = join(auditDir, fileName(day, currentPart));
+  currentSize = existsSync(path) ? statSync(path).size : 0;
+}
+
+export function writeAuditEntry(entry: AuditEntry): void {
+  if (config.AUDIT_LOG === 'off') {
+    return;
+  }
+
+  const line = `${JSON.stringify(entry)}\n`;
+  const size = Buffer.byteLength(line);
+
+  const run = writes.then(async () => {
+    const day = entry.at.slice(0, 10);
+    if (day !== currentDay) {
+      openDay(day);
+    }
+    if (currentSize > 0 && currentSize + size > config.AUDIT_MAX_FILE_MB * 1024 * 1024) {
+      currentPart++;
+      currentSize = 0;
+    }
+
+    await appendFile(join(auditDir, fileName(currentDay, currentPart)), line, { mode: 0o600 });
+    currentSize += size;
+  });
+
+  // keep the chain alive even if one write fails
+  writes = run.catch((error) => {
+    log.error('write failed', { error });
+  });
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  const at = Date.parse(entry.at);
+  return (!query.session || entry.session === query.session)
+    && (query.from === undefined || at >= query.from)
+    && (query.to === undefined || at <= query.to)
+    && (!query.route || entry.route === query.route || entry.route.startsWith(`${query.route}/`))
+    && (!query.database || entry.database === query.database)
+    && (!query.collection || entry.collection === query.collection)
+    && (!query.outcome || entry.outcome === query.outcome);
+}
+
+/**
+ * files newest first, skipping days outside the time range
+ */
+async function filesFor(query: AuditQuery): Promise<string[]> {
+  const fromDay = query.from !== undefined ? new Date(query.from).toISOString().slice(0, 10) : null;
+  const toDay = query.to !== undefined ? new Date(query.to).toISOString().slice(0, 10) : null;
+
+  return (await readdir(auditDir))
+    .map(name => ({ name, match: FILE_PATTERN.exec(name) }))
+    .filter(({ match }) => match !== null)
+    .filter(({ match }) => (!fromDay || match![1] >= fromDay) && (!toDay || match![1] <= toDay))
+    .sort((a, b) => b.match![1].localeCompare(a.match![1]) || Number(b.match![2] ?? 0) - Number(a.match![2] ?? 0))
+    .map(({ name }) => join(auditDir, name));
+}
+
+/**
+ * newest matching entries first. files are streamed, only `limit` entries are held.
+ */
+export async function queryAuditLog(query: AuditQuery): Promise<AuditEntry[]> {
+  await writes;
+  const results: AuditEntry[] = [];
+
+  for (const path of await filesFor(query)) {
+    // the last `needed` matches of this file are the newest ones
+    const needed = query.limit - results.length;
+    const fromFile: AuditEntry[] = [];
+
+    const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // torn write from a crash
+        continue;
+      }
+      if (matches(entry, query)) {
+        fromFile.push(entry);
+        if (fromFile.length > needed) fromFile.shift();
+      }
+    }
+
+    results.push(...fromFile.reverse());
+    if (results.length >= query.limit) {
+      break;
+    }
+  }
+
+  return results;
+}
+
+async function cleanupOldFiles(): Promise<void> {
+  const cutoff = new Date(Date.now() - config.AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  for (const name of await readdir(auditDir)) {
+    const match = FILE_PATTERN.exec(name);
+    if (match && match[1] < cutoff) {
+      await unlink(join(auditDir, name));
+    }
+  }
+}
+
+const cleanupInterval = setInterval(() => {
+  cleanupOldFiles().catch((error) => {
+    log.error('cleanup failed', { error });
+  });
+}, CLEANUP_INTERVAL_MS);
+
+/**
+ * stop the janitor and wait for pending writes
+ */
+export async function closeAuditLog(): Promise<void> {
+  clearInterval(cleanupInterval);
+  await writes;
+}
@@ -0,0 +1,94 @@
+import { createHash, randomUUID } from 'crypto';
+import { BSON } from 'mongodb';
+import { config } from '../config/index.js';
+import { SessionData } from './sessionStore.js';
+import { isTokenRevoked, revokeToken } from './revocationList.js';
+import { signPayload, verifyPayload } from '../utils/encryption.js';
+
+/**
+ * confirm tokens for filter-driven bulk writes. a dry run issues one,
+ * bound to the session, operation, namespace, exact filter/update and
+ * match count. the write only goes ahead with a matching, unused token.
+ *
+ * "unused" is tracked in this process only (lib/revocationList.ts). behind
+ * several replicas a token can be redeemed once on each until it expires.
+ */
+
+export type BulkOperation = 'updateMany' | 'deleteMany';
+
+const CONFIRM_TOKEN_TTL = 5 * 60 * 1000;
+const SIGNING_PURPOSE = 'bulk-confirm';
+
+export interface BulkTarget {
+  sessionId: string;
+  operation: BulkOperation;
+  namespace: string;
+  filter: Record<string, unknown>;
+  update?: Record<string, unknown>;
+}
+
+interface ConfirmPayload {
+  id: string;
+  sid: string;
+  op: BulkOperation;
+  ns: string;
+  h: string;
+  n: number;
+  exp: number;
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// canonical ejson so { $oid } and an ObjectId hash the same
+function fingerprint(target: BulkTarget): string {
+  return hash(BSON.EJSON.stringify({ filter: target.filter, update: target.update ?? null }, { relaxed: false }));
+}
+
+export function getMaxAffected(session: SessionData): number {
+  return session.maxAffected ?? config.MAX_AFFECTED_DEFAULT;
+}
+
+export function issueConfirmToken(target: BulkTarget, count: number): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + CONFIRM_TOKEN_TTL;
+  const payload: ConfirmPayload = {
+    id: randomUUID(),
+    sid: hash(target.sessionId),
+    op: target.operation,
+    ns: target.namespace,
+    h: fingerprint(target),
+    n: count,
+    exp: expiresAt,
+  };
+
+  return { token: signPayload(SIGNING_PURPOSE, payload), expiresAt };
+}
+
+/**
+ * check a token against the request and use it up. returns the match
+ * count from the dry run, which the caller compares with a fresh count.
+ */
+export function redeemConfirmToken(token: string, target: BulkTarget): { valid: true; count: number } | { valid: false; error: string } {
+  const payload = verifyPayload<ConfirmPayload>(SIGNING_PURPOSE, token);
+
+  if (!payload || typeof payload.id !== 'string' || typeof payload.exp !== 'number' || typeof payload.n !== 'number') {
+    return { valid: false, error: 'Invalid confirm token' };
+  }
+
+  if (payload.exp <= Date.now() || isTokenRevoked(payload.id)) {
+    return { valid: false, error: 'Confirm token expired or already used, run the dry run again' };
+  }
+
+  if (payload.sid !== hash(target.sessionId)
+    || payload.op !== target.operation
+    || payload.ns !== target.namespace
+    || payload.h !== fingerprint(target)) {
+    return { valid: false, error: 'Confirm token does not match this operation' };
+  }
+
+  // single use, even if the write below fails
+  revokeToken(payload.id, payload.exp);
+
+  return { valid: true, count: payload.n };
+}
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { signPayload, verifyPayload } from '../utils/encryption.js';
+
+/**
+ * csrf tokens for cookie sessions (synchronizer token). a token is a
+ * signature over the session cookie, so nothing is stored and it changes
+ * whenever the cookie does. /connect, /switch-database and /status hand it
+ * out, mutating requests send it back in X-CSRF-Token.
+ */
+
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+const SIGNING_PURPOSE = 'csrf';
+
+interface CsrfPayload {
+  csrf: string;
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export function issueCsrfToken(sessionCookie: string): string {
+  const payload: CsrfPayload = { csrf: hash(sessionCookie) };
+  return signPayload(SIGNING_PURPOSE, payload);
+}
+
+/**
+ * Check a token against the session cookie. Tokens signed with a previous secret still count.
+ */
+export function verifyCsrfToken(token: string, sessionCookie: string): boolean {
+  const payload = verifyPayload<CsrfPayload>(SIGNING_PURPOSE, token);
+  return payload?.csrf === hash(sessionCookie);
+}
@@ -0,0 +1,187 @@
+/**
+ * the docs ui at /api/docs: renders /api/openapi.json and can send requests
+ * with the session cookie. self-contained, nothing loaded from a cdn.
+ */
+export const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>byselfdb api</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  header { padding: 16px 24px; background: #fff; border-bottom: 1px solid #d0d7de; }
+  header h1 { margin: 0; font-size: 20px; }
+  main { max-width: 1000px; margin: 0 auto; padding: 16px 24px 48px; }
+  h2 { margin: 32px 0 4px; font-size: 16px; text-transform: capitalize; }
+  h2 + p { margin: 0 0 8px; color: #59636e; }
+  details { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin: 6px 0; }
+  summary { cursor: pointer; padding: 8px 12px; display: flex; gap: 12px; align-items: baseline; }
+  .method { font: bold 12px monospace; min-width: 56px; text-align: center; padding: 2px 6px; border-radius: 4px; color: #fff; }
+  .get { background: #0969da; } .post { background: #1a7f37; } .put { background: #9a6700; } .delete { background: #cf222e; }
+  .path { font-family: monospace; }
+  .summary { color: #59636e; }
+  .body { padding: 0 12px 12px; border-top: 1px solid #d0d7de; }
+  table { border-collapse: collapse; width: 100%; margin: 8px 0; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eaeef2; vertical-align: top; }
+  td input { width: 100%; box-sizing: border-box; font-family: monospace; }
+  pre, textarea { font: 12px monospace; background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 4px; padding: 8px; overflow: auto; }
+  textarea { width: 100%; box-sizing: border-box; min-height: 120px; }
+  button { margin: 8px 0; padding: 4px 16px; }
+  .required { color: #cf222e; }
+</style>
+</head>
+<body>
+<header><h1>byselfdb api</h1><div id="description"></div></header>
+<main id="app">loading /api/openapi.json...</main>
+<script>
+(function () {
+  var spec;
+  // from /connect, /switch-database or /status, sent on every mutating request
+  var csrfToken = null;
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) { node.setAttribute(key, attrs[key]); });
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+
+  function resolve(ref) {
+    return ref.replace('#/', '').split('/').reduce(function (node, key) { return node[key]; }, spec);
+  }
+
+  // a starting body from the schema: required fields with their defaults
+  function skeleton(schema) {
+    if (!schema) return {};
+    if (schema.default !== undefined) return schema.default;
+    if (schema.type === 'object') {
+      var result = {};
+      (schema.required || []).forEach(function (key) { result[key] = skeleton(schema.properties[key]); });
+      return result;
+    }
+    if (schema.type === 'array') return [];
+    if (schema.type === 'string') return schema.enum ? schema.enum[0] : '';
+    if (schema.type === 'integer' || schema.type === 'number') return schema.minimum || 0;
+    if (schema.type === 'boolean') return false;
+    if (schema.enum) return schema.enum[0];
+    return null;
+  }
+
+  function parametersTable(parameters) {
+    var rows = parameters.map(function (param) {
+      var input = el('input', { 'data-in': param.in, 'data-name': param.name, placeholder: param.schema.default !== undefined ? String(param.schema.default) : '' });
+      return el('tr', {}, [
+        el('td', {}, [param.name, param.required ? el('span', { class: 'required' }, [' *']) : '']),
+        el('td', {}, [param.in]),
+        el('td', {}, [el('code', {}, [JSON.stringify(param.schema)])]),
+        el('td', {}, [input]),
+      ]);
+    });
+    return el('table', {}, [el('tr', {}, [el('th', {}, ['name']), el('th', {}, ['in']), el('th', {}, ['schema']), el('th', {}, ['value'])])].concat(rows));
+  }
+
+  function send(method, path, container, output) {
+    var query = new URLSearchParams();
+    var url = path;
+    container.querySelectorAll('input[data-in]').forEach(function (input) {
+      if (!input.value) return;
+      if (input.dataset.in === 'path') url = url.replace('{' + input.dataset.name + '}', encodeURIComponent(input.value));
+      else query.set(input.dataset.name, input.value);
+    });
+    var options = { method: method.toUpperCase(), credentials: 'include', headers: {} };
+    var textarea = container.querySelector('textarea');
+    if (textarea) {
+      options.body = textarea.value;
+      options.headers['Content-Type'] = 'application/json';
+    }
+    var search = query.toString();
+    output.textContent = 'sending...';
+    var ready = method === 'get' || csrfToken ? Promise.resolve() : fetchCsrfToken();
+    ready
+      .then(function () {
+        if (method !== 'get' && csrfToken) options.headers['X-CSRF-Token'] = csrfToken;
+        return fetch(spec.servers[0].url + url + (search ? '?' + search : ''), options);
+      })
+      .then(function (res) {
+        return res.text().then(function (text) {
+          var body = text;
+          try {
+            var json = JSON.parse(text);
+            if (json.data && json.data.csrfToken) csrfToken = json.data.csrfToken;
+            body = JSON.stringify(json, null, 2);
+          } catch (e) { /* not json */ }
+          output.textContent = res.status + ' ' + res.statusText + '\\n\\n' + body;
+        });
+      })
+      .catch(function (error) { output.textContent = String(error); });
+  }
+
+  // no session yet is fine, /connect doesn't need a token
+  function fetchCsrfToken() {
+    return fetch(spec.servers[0].url + '/status', { credentials: 'include' })
+      .then(function (res) { return res.json(); })
+      .then(function (json) { if (json.data && json.data.csrfToken) csrfToken = json.data.csrfToken; })
+      .catch(function () { /* not connected */ });
+  }
+
+  function operation(method, path, op) {
+    var body = el('div', { class: 'body' });
+    if (op.parameters.length > 0) body.appendChild(parametersTable(op.parameters));
+    if (op.requestBody) {
+      var schema = op.requestBody.content['application/json'].schema;
+      body.appendChild(el('p', {}, ['request body', op.requestBody.required ? el('span', { class: 'required' }, [' *']) : '']));
+      body.appendChild(el('pre', {}, [JSON.stringify(schema, null, 2)]));
+      var textarea = el('textarea', {});
+      textarea.value = JSON.stringify(skeleton(schema), null, 2);
+      body.appendChild(textarea);
+    }
+    var ok = op.responses['200'];
+    if (ok && ok.content) {
+      body.appendChild(el('p', {}, ['200 response']));
+      body.appendChild(el('pre', {}, [JSON.stringify(ok.content['application/json'].schema, null, 2)]));
+    }
+    var output = el('pre', {}, []);
+    var button = el('button', { type: 'button' }, ['send']);
+    button.addEventListener('click', function () { send(method, path, body, output); });
+    body.appendChild(button);
+    body.appendChild(output);
+
+    return el('details', {}, [
+      el('summary', {}, [
+        el('span', { class: 'method ' + method }, [method.toUpperCase()]),
+        el('span', { class: 'path' }, [path]),
+        el('span', { class: 'summary' }, [op.summary || '']),
+      ]),
+      body,
+    ]);
+  }
+
+  function render() {
+    var app = document.getElementById('app');
+    app.textContent = '';
+    document.getElementById('description').textContent = spec.info.description || '';
+    spec.tags.forEach(function (tag) {
+      app.appendChild(el('h2', {}, [tag.name]));
+      app.appendChild(el('p', {}, [tag.description || '']));
+      Object.keys(spec.paths).forEach(function (path) {
+        Object.keys(spec.paths[path]).forEach(function (method) {
+          var op = spec.paths[path][method];
+          if (op.tags[0] === tag.name) app.appendChild(operation(method, path, op));
+        });
+      });
+    });
+    app.appendChild(el('p', {}, ['error responses: ', el('code', {}, [JSON.stringify(resolve('#/components/schemas/Error'))])]));
+  }
+
+  fetch('openapi.json')
+    .then(function (res) { return res.json(); })
+    .then(function (json) { spec = json; render(); })
+    .catch(function (error) { document.getElementById('app').textContent = 'could not load the spec: ' + error; });
+})();
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,181 @@
+import { Response } from 'express';
+import {
+  Document,
+  MongoBulkWriteError,
+  MongoNetworkError,
+  MongoNetworkTimeoutError,
+  MongoOperationTimeoutError,
+  MongoServerError,
+  MongoServerSelectionError,
+} from 'mongodb';
+import type { ErrorCode } from '../types/index.js';
+
+/**
+ * maps driver errors to a stable `code` and http status, by server error
+ * code rather than message text. anything unknown is left to the route.
+ */
+
+export interface MappedError {
+  status: number;
+  code: ErrorCode;
+  error: string;
+  details?: Record<string, unknown>;
+  // seconds, sent as Retry-After
+  retryAfter?: number;
+}
+
+// a full pool frees up as soon as an idle client is evicted
+const POOL_FULL_RETRY_AFTER = 5;
+
+/**
+ * every pooled client is busy and none can be evicted. the session is
+ * fine, the server is just at MONGO_MAX_CLIENTS.
+ */
+export class PoolFullError extends Error {
+  constructor(maxClients: number) {
+    super(`Connection pool is full (${maxClients} clients in use)`);
+    this.name = 'PoolFullError';
+  }
+}
+
+// https://github.com/mongodb/mongo/blob/master/src/mongo/base/error_codes.yml
+const UNAUTHORIZED_CODES = new Set([13]);
+const AUTH_FAILED_CODES = new Set([18]);
+const DUPLICATE_KEY_CODES = new Set([11000, 11001]);
+const VALIDATION_CODES = new Set([121]);
+const TIMEOUT_CODES = new Set([50, 202, 262]);
+const NOT_PRIMARY_CODES = new Set([189, 10058, 10107, 11602, 13435, 13436]);
+const NOT_FOUND_CODES = new Set([26, 27]);
+const WRITE_CONFLICT_CODES = new Set([112]);
+// 8000 is atlas refusing a command on shared tiers (CMD_NOT_ALLOWED). every
+// command the routes use exists on a real mongod, so 59 means the same thing.
+const RESTRICTED_CODES = new Set([8000, 59]);
+// the request itself is wrong, the server message says how
+const INVALID_REQUEST_CODES = new Set([2, 9, 14, 15, 40, 52, 66, 67, 72, 85, 86, 168]);
+
+// bulk writes report the first failing operation. `err` is the raw server document.
+function firstWriteError(error: MongoBulkWriteError): { code: number; errmsg?: string; errInfo?: Document; index: number; raw: Document } | null {
+  const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+  const first = writeErrors[0];
+  return first ? { code: first.code, errmsg: first.errmsg, errInfo: first.errInfo, index: first.index, raw: first.err ?? first } : null;
+}
+
+function duplicateKeyDetails(source: Document, message: string): Record<string, unknown> {
+  return {
+    index: /index: (\S+) dup key/.exec(message)?.[1] ?? null,
+    keyPattern: source.keyPattern ?? source.errorResponse?.keyPattern ?? null,
+    keyValue: source.keyValue ?? source.errorResponse?.keyValue ?? null,
+  };
+}
+
+function validationDetails(errInfo: Document | undefined): Record<string, unknown> {
+  return {
+    failingDocumentId: errInfo?.failingDocumentId ?? null,
+    // operatorName + schemaRulesNotSatisfied: which part of the validator failed
+    rule: errInfo?.details ?? null,
+  };
+}
+
+export function mapMongoError(error: unknown): MappedError | null {
+  if (error instanceof PoolFullError) {
+    return { status: 503, code: 'SERVER_BUSY', error: 'Too many open database connections, try again shortly', retryAfter: POOL_FULL_RETRY_AFTER };
+  }
+
+  if (error instanceof MongoServerSelectionError || error instanceof MongoNetworkTimeoutError || error instanceof MongoOperationTimeoutError) {
+    return { status: 504, code: 'TIMEOUT', error: 'The database did not respond in time' };
+  }
+
+  if (error instanceof MongoNetworkError) {
+    return { status: 502, code: 'CONNECTION_FAILED', error: 'Lost the connection to the database' };
+  }
+
+  if (!(error instanceof MongoServerError)) {
+    return null;
+  }
+
+  let code = typeof error.code === 'number' ? error.code : Number(error.code);
+  let message = error.message;
+  let errInfo = error.errInfo;
+  let source: Document = error;
+  let bulk: Record<string, unknown> = {};
+
+  if (error instanceof MongoBulkWriteError) {
+    const first = firstWriteError(error);
+    if (first) {
+      code = first.code;
+      message = first.errmsg ?? message;
+      errInfo = first.errInfo;
+      source = first.raw;
+      bulk = { operationIndex: first.index, writeErrorCount: Array.isArray(error.writeErrors) ? error.writeErrors.length : 1 };
+    }
+  }
+
+  if (UNAUTHORIZED_CODES.has(code)) {
+    // the server message echoes the whole command, filter values included
+    return { status: 403, code: 'UNAUTHORIZED', error: 'Not authorized to perform this operation', details: { codeName: error.codeName } };
+  }
+
+  if (AUTH_FAILED_CODES.has(code)) {
+    return { status: 401, code: 'AUTH_FAILED', error: 'Authentication failed' };
+  }
+
+  if (RESTRICTED_CODES.has(code)) {
+    return { status: 403, code: 'RESTRICTED_TIER', error: 'Not available on this cluster tier (shared / serverless clusters restrict it)' };
+  }
+
+  if (DUPLICATE_KEY_CODES.has(code)) {
+    return { status: 409, code: 'DUPLICATE_KEY', error: 'Duplicate key', details: { ...duplicateKeyDetails(source, message), ...bulk } };
+  }
+
+  if (VALIDATION_CODES.has(code)) {
+    return { status: 400, code: 'VALIDATION_FAILED', error: 'Document failed validation', details: { ...validationDetails(errInfo), ...bulk } };
+  }
+
+  if (TIMEOUT_CODES.has(code)) {
+    return { status: 504, code: 'TIMEOUT', error: 'The operation exceeded its time limit' };
+  }
+
+  if (NOT_PRIMARY_CODES.has(code)) {
+    return { status: 503, code: 'NOT_PRIMARY', error: 'The primary is unavailable or stepping down, try again shortly' };
+  }
+
+  if (NOT_FOUND_CODES.has(code)) {
+    return { status: 404, code: 'NOT_FOUND', error: message };
+  }
+
+  if (WRITE_CONFLICT_CODES.has(code)) {
+    return { status: 409, code: 'WRITE_CONFLICT', error: 'Write conflict, try again' };
+  }
+
+  if (INVALID_REQUEST_CODES.has(code)) {
+    return { status: 400, code: 'INVALID_REQUEST', error: message, details: Object.keys(bulk).length > 0 ? bulk : undefined };
+  }
+
+  return null;
+}
+
+/**
+ * the error response for a failed database call. unmapped errors get the
+ * route's own message and status.
+ */
+export function sendMongoError(res: Response, error: unknown, fallback: string, fallbackStatus = 500) {
+  const mapped = mapMongoError(error);
+
+  if (mapped) {
+    if (mapped.retryAfter) {
+      res.setHeader('Retry-After', String(mapped.retryAfter));
+    }
+    return res.status(mapped.status).json({
+      success: false,
+      error: mapped.error,
+      code: mapped.code,
+      ...(mapped.details ? { details: mapped.details } : {}),
+    });
+  }
+
+  return res.status(fallbackStatus).json({
+    success: false,
+    error: fallback,
+    code: fallbackStatus === 400 ? 'INVALID_REQUEST' : 'INTERNAL',
+  });
+}
@@ -0,0 +1,189 @@
+import { Transform, TransformCallback } from 'stream';
+import { BSON, Document } from 'mongodb';
+import { isBsonValue } from '../utils/ejson.js';
+
+/**
+ * streaming export writers. each one is an object-mode transform:
+ * documents in, bytes out, nothing buffered.
+ */
+
+export const EXPORT_FORMATS = ['ndjson', 'json', 'ejson', 'csv', 'bson'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  json: 'application/json',
+  ejson: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  bson: 'application/octet-stream',
+};
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  ndjson: 'ndjson',
+  json: 'json',
+  ejson: 'json',
+  csv: 'csv',
+  bson: 'bson',
+};
+
+// spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * one relaxed ejson document per line
+ */
+function ndjsonWriter(): Transform {
+  return new Transform({
+    writableObjectMode: true,
+    transform(doc: Document, _encoding, callback) {
+      callback(null, `${BSON.EJSON.stringify(doc, { relaxed: true })}\n`);
+    },
+  });
+}
+
+/**
+ * a json array. relaxed for json, canonical for ejson (mongoexport --jsonArray style).
+ */
+function arrayWriter(relaxed: boolean): Transform {
+  let first = true;
+
+  return new Transform({
+    writableObjectMode: true,
+    transform(doc: Document, _encoding, callback) {
+      const prefix = first ? '[\n' : ',\n';
+      first = false;
+      callback(null, prefix + BSON.EJSON.stringify(doc, { relaxed }));
+    },
+    flush(callback) {
+      callback(null, first ? '[]\n' : '\n]\n');
+    },
+  });
+}
+
+/**
+ * raw bson documents back to back, same layout as a mongodump .bson file
+ */
+function bsonWriter(): Transform {
+  return new Transform({
+    writableObjectMode: true,
+    transform(doc: Document, _encoding, callback) {
+      callback(null, Buffer.from(BSON.serialize(doc)));
+    },
+  });
+}
+
+/**
+ * flatten nested objects into dotted paths. arrays and bson values are leaves.
+ */
+export function flattenDocument(doc: Document, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, value] of Object.entries(doc)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (value && typeof value === 'object' && !Array.isArray(value) && !isBsonValue(value)) {
+      flattenDocument(value as Document, path, out);
+    } else {
+      out[path] = value;
+    }
+  }
+  return out;
+}
+
+/**
+ * a leading quote keeps a string from being read as a formula
+ */
+function neutralizeFormula(text: string): string {
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return neutralizeFormula(value);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    const bsonType = (value as { _bsontype?: string })._bsontype;
+    if (bsonType === 'ObjectId' || bsonType === 'Decimal128' || bsonType === 'Long' || bsonType === 'Int32' || bsonType === 'Double') {
+      return String(value);
+    }
+    // arrays, binaries and the rest keep their shape as relaxed ejson
+    return BSON.EJSON.stringify(value, { relaxed: true });
+  }
+  return String(value);
+}
+
+/**
+ * rfc 4180: quote when the field has a comma, quote, cr or lf, double the quotes
+ */
+export function csvEscape(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function csvRow(fields: string[]): string {
+  return `${fields.map(csvEscape).join(',')}\r\n`;
+}
+
+/**
+ * every dotted path in the documents, in the order first seen. the csv
+ * header when no fields are given, so it costs a pass over the documents.
+ */
+export async function csvColumns(docs: AsyncIterable<Document>): Promise<string[]> {
+  const seen = new Set<string>();
+  for await (const doc of docs) {
+    Object.keys(flattenDocument(doc)).forEach(key => seen.add(key));
+  }
+  return Array.from(seen);
+}
+
+/**
+ * csv with dotted-path columns. fields outside the columns are dropped when
+ * the columns were asked for, and fail the export when they came from
+ * csvColumns (a document written since).
+ */
+function csvWriter(columns: string[], strict: boolean): Transform {
+  const known = new Set(columns);
+  let headerWritten = false;
+
+  const writeHeader = (stream: Transform) => {
+    if (!headerWritten && columns.length > 0) {
+      stream.push(csvRow(columns.map(neutralizeFormula)));
+    }
+    headerWritten = true;
+  };
+
+  return new Transform({
+    writableObjectMode: true,
+    transform(doc: Document, _encoding, callback: TransformCallback) {
+      const flat = flattenDocument(doc);
+
+      const unknown = strict ? Object.keys(flat).find(key => !known.has(key)) : undefined;
+      if (unknown !== undefined) {
+        callback(new Error(`Field ${unknown} is not in the CSV header`));
+        return;
+      }
+
+      writeHeader(this);
+      callback(null, csvRow(columns.map(column => csvValue(flat[column]))));
+    },
+    flush(callback) {
+      writeHeader(this);
+      callback();
+    },
+  });
+}
+
+/**
+ * csv needs its columns: the fields asked for, or csvColumns of the same query
+ */
+export function createExportWriter(format: ExportFormat, options: { fields?: string[]; inferred?: boolean } = {}): Transform {
+  switch (format) {
+    case 'ndjson':
+      return ndjsonWriter();
+    case 'json':
+      return arrayWriter(true);
+    case 'ejson':
+      return arrayWriter(false);
+    case 'csv':
+      return csvWriter(options.fields ?? [], options.inferred ?? false);
+    case 'bson':
+      return bsonWriter();
+  }
+}
@@ -0,0 +1,87 @@
+import { constants } from 'fs';
+import { access } from 'fs/promises';
+import { getHeapStatistics } from 'v8';
+import { config } from '../config/index.js';
+import { getActiveSessionCount } from './sessionStore.js';
+
+/**
+ * readiness checks for the load balancer / kubernetes. liveness is just
+ * "the process answers", readiness says whether it should get traffic.
+ */
+
+export interface CheckResult {
+  ok: boolean;
+  [detail: string]: unknown;
+}
+
+export interface Readiness {
+  ready: boolean;
+  checks: Record<'sessionStore' | 'config' | 'memory' | 'shutdown', CheckResult>;
+}
+
+// stop taking traffic once the heap is this close to --max-old-space-size
+const MEMORY_PRESSURE_RATIO = 0.9;
+const CHECK_TIMEOUT_MS = 2000;
+
+let shuttingDown = false;
+
+export function markShuttingDown(): void {
+  shuttingDown = true;
+}
+
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function checkSessionStore(): Promise<CheckResult> {
+  try {
+    const sessions = await withTimeout(getActiveSessionCount(), CHECK_TIMEOUT_MS);
+    return { ok: true, mode: config.SESSION_MODE, store: config.SESSION_STORE, sessions };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * the env itself was validated at startup, what's left is what can go
+ * wrong at runtime: DATA_DIR (sessions, journal, audit, jobs) losing write access
+ */
+async function checkConfig(): Promise<CheckResult> {
+  try {
+    await access(config.DATA_DIR, constants.W_OK);
+    return { ok: true, environment: config.NODE_ENV };
+  } catch {
+    return { ok: false, error: 'DATA_DIR is not writable' };
+  }
+}
+
+function checkMemory(): CheckResult {
+  const { used_heap_size: used, heap_size_limit: limit } = getHeapStatistics();
+  const ratio = used / limit;
+  return {
+    ok: ratio < MEMORY_PRESSURE_RATIO,
+    heapUsedMB: Math.round(used / 1024 / 1024),
+    heapLimitMB: Math.round(limit / 1024 / 1024),
+    ratio: Math.round(ratio * 100) / 100,
+  };
+}
+
+export async function checkReadiness(): Promise<Readiness> {
+  const [sessionStore, configCheck] = await Promise.all([checkSessionStore(), checkConfig()]);
+  const checks = {
+    sessionStore,
+    config: configCheck,
+    memory: checkMemory(),
+    shutdown: { ok: !shuttingDown, shuttingDown },
+  };
+
+  return { ready: Object.values(checks).every(check => check.ok), checks };
+}
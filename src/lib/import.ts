@@ -0,0 +1,570 @@
+import { createHash } from 'crypto';
+import { AnyBulkWriteOperation, BSON, Collection, Document, Filter, MongoBulkWriteError, ObjectId } from 'mongodb';
+import { config } from '../config/index.js';
+import { fromEjson } from '../utils/ejson.js';
+import { inferCsvValue, parseCsvRecords } from '../utils/csv.js';
+import { sanitizeFilter } from '../utils/sanitize.js';
+import { createPendingJob, getJob, Job, runPendingJob } from './jobs.js';
+import { JournalChange, recordChange, sameDocument } from './journal.js';
+
+/**
+ * streaming imports. an upload is read record by record, written in
+ * batches, and tracked as a background job (lib/jobs.ts) so progress can be
+ * polled and an interrupted upload can be sent again, even after a restart,
+ * without repeating finished rows.
+ */
+
+export const IMPORT_FORMATS = ['ndjson', 'csv', 'ejson'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const IMPORT_MODES = ['insert', 'upsert', 'replace'] as const;
+export type ImportMode = typeof IMPORT_MODES[number];
+
+export const DEFAULT_BATCH_SIZE = 500;
+export const MAX_BATCH_SIZE = 5000;
+
+// characters in one record. mongodb takes documents up to 16 MB, and a reader holds a record whole.
+export const MAX_RECORD_LENGTH = 16 * 1024 * 1024;
+
+// the report keeps this many row errors, the count keeps going
+const MAX_REPORTED_ERRORS = 1000;
+
+const JOB_TYPE = 'import';
+
+export interface ImportOptions {
+  format: ImportFormat;
+  mode: ImportMode;
+  // match fields for upsert / replace
+  keys: string[];
+  // csv only: header -> field path, null to drop the column
+  mapping: Record<string, string | null>;
+  // csv only: false keeps every cell a string
+  inferTypes: boolean;
+  batchSize: number;
+}
+
+export interface ImportRowError {
+  // 1-based. csv rows don't count the header, ejson rows are array elements
+  row: number;
+  error: string;
+}
+
+export interface ImportCounts {
+  inserted: number;
+  upserted: number;
+  matched: number;
+  modified: number;
+  failed: number;
+}
+
+// the job's result: plain json, checkpointed after every batch
+export interface ImportState extends ImportCounts {
+  database: string;
+  collection: string;
+  options: ImportOptions;
+  // every row up to here is written or reported, a resumed upload skips them
+  rowsCommitted: number;
+  // every row up to here was sent to the server. past rowsCommitted, a resumed upload may find them written.
+  rowsAttempted: number;
+  errors: ImportRowError[];
+  updatedAt: number;
+}
+
+interface ImportRecord {
+  row: number;
+  doc?: Document;
+  error?: string;
+}
+
+export function createImportJob(sessionId: string, database: string, collection: string, options: ImportOptions): Job {
+  const state: ImportState = {
+    database,
+    collection,
+    options,
+    rowsCommitted: 0,
+    rowsAttempted: 0,
+    inserted: 0,
+    upserted: 0,
+    matched: 0,
+    modified: 0,
+    failed: 0,
+    errors: [],
+    updatedAt: Date.now(),
+  };
+
+  return createPendingJob(sessionId, JOB_TYPE, `Import into ${database}.${collection}`, state);
+}
+
+/**
+ * an import job as seen by the session that created it, undefined for anyone else
+ */
+export function getImportJob(sessionId: string, id: string): Job | undefined {
+  const job = getJob(sessionId, id);
+  return job?.type === JOB_TYPE ? job : undefined;
+}
+
+export function importState(job: Job): ImportState {
+  return job.result as ImportState;
+}
+
+export function importJobSummary(job: Job) {
+  const state = importState(job);
+  return {
+    id: job.id,
+    database: state.database,
+    collection: state.collection,
+    format: state.options.format,
+    mode: state.options.mode,
+    keys: state.options.keys,
+    status: job.status,
+    rowsCommitted: state.rowsCommitted,
+    inserted: state.inserted,
+    upserted: state.upserted,
+    matched: state.matched,
+    modified: state.modified,
+    failed: state.failed,
+    errors: state.errors,
+    errorsTruncated: state.failed > state.errors.length,
+    error: job.error,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(state.updatedAt).toISOString(),
+    finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : null,
+  };
+}
+
+// ============================================================
+// record readers - text in, one document (or row error) at a time
+// ============================================================
+
+function toDocument(value: unknown): Document {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Each record must be a JSON object');
+  }
+  return value as Document;
+}
+
+function parseJsonRecord(text: string): Document {
+  return toDocument(fromEjson(JSON.parse(text)));
+}
+
+async function* readNdjson(source: AsyncIterable<string>): AsyncGenerator<ImportRecord> {
+  let buffer = '';
+  let row = 0;
+
+  const parseLine = (line: string): ImportRecord => {
+    row++;
+    try {
+      return { row, doc: parseJsonRecord(line) };
+    } catch (error) {
+      return { row, error: error instanceof Error ? error.message : 'Invalid JSON' };
+    }
+  };
+
+  for await (const chunk of source) {
+    buffer += chunk;
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield parseLine(line);
+      newline = buffer.indexOf('\n');
+    }
+
+    if (buffer.length > MAX_RECORD_LENGTH) {
+      throw new Error(`Row ${row + 1} is longer than ${MAX_RECORD_LENGTH} characters`);
+    }
+  }
+
+  const last = buffer.trim();
+  if (last) yield parseLine(last);
+}
+
+/**
+ * a json array of ejson documents (mongoexport --jsonArray). elements are cut
+ * out by brace depth, so only one document is held in memory at a time.
+ */
+async function* readEjsonArray(source: AsyncIterable<string>): AsyncGenerator<ImportRecord> {
+  let row = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let current = '';
+
+  for await (const chunk of source) {
+    let start = depth > 0 ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        if (depth === 0) throw new Error('EJSON input must be an array of objects');
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) start = i;
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) {
+          const text = current + chunk.slice(start, i + 1);
+          current = '';
+          start = -1;
+          row++;
+          try {
+            yield { row, doc: parseJsonRecord(text) };
+          } catch (error) {
+            yield { row, error: error instanceof Error ? error.message : 'Invalid JSON' };
+          }
+        }
+      } else if (depth === 0 && !/[\s[\],]/.test(char)) {
+        throw new Error('EJSON input must be an array of objects');
+      }
+    }
+
+    if (depth > 0 && start !== -1) {
+      current += chunk.slice(start);
+      if (current.length > MAX_RECORD_LENGTH) {
+        throw new Error(`Row ${row + 1} is longer than ${MAX_RECORD_LENGTH} characters`);
+      }
+    }
+  }
+
+  if (depth > 0) {
+    throw new Error('Unexpected end of EJSON input');
+  }
+}
+
+/**
+ * dotted headers become nested fields: "address.city" -> { address: { city } }
+ */
+function setPath(doc: Document, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let target = doc;
+  for (const part of parts.slice(0, -1)) {
+    if (target[part] === null || typeof target[part] !== 'object') {
+      target[part] = {};
+    }
+    target = target[part];
+  }
+  target[parts[parts.length - 1]] = value;
+}
+
+async function* readCsv(source: AsyncIterable<string>, options: ImportOptions): AsyncGenerator<ImportRecord> {
+  let columns: (string | null)[] | null = null;
+  let row = 0;
+
+  for await (const record of parseCsvRecords(source, MAX_RECORD_LENGTH)) {
+    if (!columns) {
+      columns = record.map(header => {
+        const name = header.trim();
+        return name in options.mapping ? options.mapping[name] || null : name || null;
+      });
+      continue;
+    }
+
+    row++;
+    if (record.length > columns.length) {
+      yield { row, error: `Expected ${columns.length} fields, found ${record.length}` };
+      continue;
+    }
+
+    const doc: Document = {};
+    columns.forEach((column, i) => {
+      if (!column || record[i] === undefined) return;
+      const value = options.inferTypes ? inferCsvValue(record[i]) : record[i];
+      if (value !== undefined) setPath(doc, column, value);
+    });
+    yield { row, doc };
+  }
+}
+
+/**
+ * pass an upload through, failing once it's past IMPORT_MAX_MB
+ */
+async function* limitUpload(source: AsyncIterable<string>): AsyncGenerator<string> {
+  const maxBytes = config.IMPORT_MAX_MB * 1024 * 1024;
+  let bytes = 0;
+
+  for await (const chunk of source) {
+    bytes += Buffer.byteLength(chunk);
+    if (bytes > maxBytes) {
+      throw new Error(`Upload is larger than ${config.IMPORT_MAX_MB} MB`);
+    }
+    yield chunk;
+  }
+}
+
+function readRecords(source: AsyncIterable<string>, options: ImportOptions): AsyncGenerator<ImportRecord> {
+  switch (options.format) {
+    case 'ndjson':
+      return readNdjson(source);
+    case 'ejson':
+      return readEjsonArray(source);
+    case 'csv':
+      return readCsv(source, options);
+  }
+}
+
+// ============================================================
+// batch writer
+// ============================================================
+
+function getPath(doc: Document, path: string): unknown {
+  let current: unknown = doc;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function toOperation(doc: Document, mode: ImportMode, keys: string[]): AnyBulkWriteOperation<Document> {
+  if (mode === 'insert') {
+    return { insertOne: { document: doc } };
+  }
+
+  const filter: Document = {};
+  for (const key of keys) {
+    const value = getPath(doc, key);
+    if (value === undefined) {
+      throw new Error(`Missing key field "${key}"`);
+    }
+    filter[key] = value;
+  }
+
+  if (mode === 'replace') {
+    return { replaceOne: { filter, replacement: doc, upsert: true } };
+  }
+
+  // _id can't be $set on an existing document, it only applies to new ones
+  const { _id, ...fields } = doc;
+  const update: Document = { $set: fields };
+  if (_id !== undefined && !keys.includes('_id')) {
+    update.$setOnInsert = { _id };
+  }
+  return { updateOne: { filter, update, upsert: true } };
+}
+
+export interface BatchRow {
+  row: number;
+  doc: Document;
+}
+
+function idKey(id: unknown): string {
+  return BSON.EJSON.stringify({ id }, { relaxed: false });
+}
+
+// the write error of a document whose _id is already taken
+function isDuplicateId(code: number, message: string | undefined): boolean {
+  return code === 11000 && / index: _id_ /.test(message ?? '');
+}
+
+/**
+ * write one batch unordered. rows the server rejects are reported,
+ * the rest of the batch still goes through. connection-level failures throw.
+ * with onChanges, the before/after images of the batch are handed over for the journal.
+ * rows alreadyWritten says yes to were sent before: a duplicate _id holding the
+ * same document is the earlier attempt's insert and counts as inserted.
+ */
+export async function writeImportBatch(
+  col: Collection<Document>,
+  rows: BatchRow[],
+  mode: ImportMode,
+  keys: string[],
+  onChanges?: (changes: JournalChange[]) => Promise<void>,
+  alreadyWritten?: (row: number) => boolean
+): Promise<ImportCounts & { errors: ImportRowError[]; insertedIds: unknown[] }> {
+  const counts = { inserted: 0, upserted: 0, matched: 0, modified: 0, failed: 0 };
+  const errors: ImportRowError[] = [];
+  let insertedIds: unknown[] = [];
+  const operations: AnyBulkWriteOperation<Document>[] = [];
+  const operationRows: number[] = [];
+
+  for (const { row, doc } of rows) {
+    const sanitized = sanitizeFilter(doc);
+    if (!sanitized.valid) {
+      errors.push({ row, error: `Invalid document pattern: ${sanitized.error}` });
+      continue;
+    }
+
+    try {
+      operations.push(toOperation(sanitized.filter, mode, keys));
+      operationRows.push(row);
+    } catch (error) {
+      errors.push({ row, error: error instanceof Error ? error.message : 'Invalid document' });
+    }
+  }
+
+  if (operations.length > 0) {
+    // upsert / replace: whatever the keys match now is the before image
+    const keyFilters = operations.flatMap(operation =>
+      'updateOne' in operation ? [operation.updateOne.filter]
+        : 'replaceOne' in operation ? [operation.replaceOne.filter]
+          : []);
+    const before = new Map<string, Document>();
+    if (onChanges && keyFilters.length > 0) {
+      for (const doc of await col.find({ $or: keyFilters }).toArray()) {
+        before.set(idKey(doc._id), doc);
+      }
+    }
+    const failedOperations = new Set<number>();
+    // resent rows whose _id the server already has, by operation index
+    const resent = new Map<number, { id: unknown; error: string }>();
+
+    let result;
+    try {
+      result = await col.bulkWrite(operations, { ordered: false });
+    } catch (error) {
+      if (!(error instanceof MongoBulkWriteError)) {
+        throw error;
+      }
+      result = error.result;
+      const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+      for (const writeError of writeErrors) {
+        failedOperations.add(writeError.index);
+
+        const operation = operations[writeError.index];
+        if ('insertOne' in operation && alreadyWritten?.(operationRows[writeError.index]) && isDuplicateId(writeError.code, writeError.errmsg)) {
+          resent.set(writeError.index, { id: operation.insertOne.document._id, error: writeError.errmsg });
+        } else {
+          errors.push({ row: operationRows[writeError.index], error: writeError.errmsg || 'Write failed' });
+        }
+      }
+    }
+
+    let rewritten = 0;
+    if (resent.size > 0) {
+      const existing = new Map<string, Document>();
+      const ids = [...resent.values()].map(({ id }) => id);
+      for (const doc of await col.find({ _id: { $in: ids } } as Filter<Document>).toArray()) {
+        existing.set(idKey(doc._id), doc);
+      }
+
+      for (const [index, { id, error }] of resent) {
+        const operation = operations[index] as { insertOne: { document: Document } };
+        if (sameDocument(existing.get(idKey(id)) ?? null, operation.insertOne.document)) {
+          rewritten++;
+        } else {
+          errors.push({ row: operationRows[index], error });
+        }
+      }
+    }
+
+    counts.inserted = result.insertedCount + rewritten;
+    counts.upserted = result.upsertedCount;
+    counts.matched = result.matchedCount;
+    counts.modified = result.modifiedCount;
+    insertedIds = Object.entries(result.insertedIds)
+      .filter(([index]) => !failedOperations.has(Number(index)))
+      .map(([, id]) => id);
+
+    if (onChanges) {
+      const changes: JournalChange[] = [];
+      operations.forEach((operation, index) => {
+        if ('insertOne' in operation && !failedOperations.has(index)) {
+          changes.push({ id: operation.insertOne.document._id, before: null, after: operation.insertOne.document });
+        }
+      });
+      if (keyFilters.length > 0) {
+        for (const doc of await col.find({ $or: keyFilters }).toArray()) {
+          changes.push({ id: doc._id, before: before.get(idKey(doc._id)) ?? null, after: doc });
+        }
+      }
+      await onChanges(changes);
+    }
+  }
+
+  counts.failed = errors.length;
+  errors.sort((a, b) => a.row - b.row);
+  return { ...counts, errors, insertedIds };
+}
+
+/**
+ * the _id an insert gives a row that has none: the job's creation time and a
+ * hash of job and row. sending the row again can't add a second copy.
+ */
+function rowObjectId(job: Job, row: number): ObjectId {
+  const bytes = Buffer.alloc(12);
+  bytes.writeUInt32BE(Math.floor(job.createdAt / 1000), 0);
+  createHash('sha256').update(`${job.id}:${row}`).digest().copy(bytes, 4, 0, 8);
+  return new ObjectId(bytes);
+}
+
+function recordErrors(state: ImportState, errors: ImportRowError[]): void {
+  state.failed += errors.length;
+  const room = MAX_REPORTED_ERRORS - state.errors.length;
+  if (room > 0) {
+    state.errors.push(...errors.slice(0, room));
+  }
+}
+
+/**
+ * feed an upload through a job. rows already committed by an earlier
+ * attempt are skipped. resolves with the finished job, null if the job is
+ * running or already finished.
+ */
+export function runImport(job: Job, col: Collection<Document>, source: AsyncIterable<string>): Promise<Job> | null {
+  return runPendingJob(job.id, async ({ signal, progress, checkpoint }) => {
+    const state: ImportState = { ...importState(job) };
+    state.errors = [...state.errors];
+    const { options } = state;
+    const resumeAfter = state.rowsCommitted;
+    // a batch that broke off may have been written in part
+    const sentBefore = state.rowsAttempted;
+    let batch: BatchRow[] = [];
+    let batchErrors: ImportRowError[] = [];
+    let lastRow = resumeAfter;
+
+    const save = () => checkpoint({ ...state, errors: [...state.errors], updatedAt: Date.now() });
+
+    const flush = async () => {
+      state.rowsAttempted = Math.max(state.rowsAttempted, lastRow);
+      await save();
+
+      const result = batch.length > 0
+        ? await writeImportBatch(col, batch, options.mode, options.keys, changes =>
+          recordChange(job.ownerHash, 'import', state.database, state.collection, changes), row => row <= sentBefore)
+        : { inserted: 0, upserted: 0, matched: 0, modified: 0, errors: [] };
+
+      state.inserted += result.inserted;
+      state.upserted += result.upserted;
+      state.matched += result.matched;
+      state.modified += result.modified;
+      recordErrors(state, [...batchErrors, ...result.errors].sort((a, b) => a.row - b.row));
+
+      state.rowsCommitted = lastRow;
+      await save();
+      progress(lastRow);
+      batch = [];
+      batchErrors = [];
+    };
+
+    for await (const record of readRecords(limitUpload(source), options)) {
+      signal.throwIfAborted();
+      if (record.row <= resumeAfter) continue;
+
+      lastRow = record.row;
+      if (record.doc) {
+        const doc = options.mode === 'insert' && record.doc._id === undefined
+          ? { _id: rowObjectId(job, record.row), ...record.doc }
+          : record.doc;
+        batch.push({ row: record.row, doc });
+      } else {
+        batchErrors.push({ row: record.row, error: record.error || 'Invalid record' });
+      }
+
+      if (batch.length + batchErrors.length >= options.batchSize) {
+        await flush();
+      }
+    }
+
+    await flush();
+    return { result: { ...state, updatedAt: Date.now() } };
+  });
+}
@@ -0,0 +1,366 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { config } from '../config/index.js';
+import { JsonFileStore } from './jsonFileStore.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('jobs');
+
+/**
+ * in-process background jobs. a job runs outside the request that started
+ * it, reports progress, and ends with a json result and/or a file artifact.
+ * state is persisted to DATA_DIR/jobs.json, the work itself is not: jobs
+ * that were queued or running when the process stopped come back as failed.
+ *
+ * a pending job waits for input (an import upload) rather than a queue slot,
+ * and runs inside the request that brings it.
+ */
+
+export const JOB_STATUSES = ['pending', 'queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export interface JobProgress {
+  processed: number;
+  // null when the size of the work isn't known up front
+  total: number | null;
+}
+
+export interface JobArtifact {
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+export interface Job {
+  id: string;
+  ownerHash: string;
+  type: string;
+  description: string;
+  status: JobStatus;
+  progress: JobProgress;
+  // plain json only, it goes straight into jobs.json
+  result: unknown;
+  artifact: JobArtifact | null;
+  error: string | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface JobContext {
+  // aborted when the job is cancelled
+  signal: AbortSignal;
+  progress(processed: number, total?: number | null): void;
+  // where an artifact should be written
+  artifactPath: string;
+  // persist the result so far, so it outlives a failure or a restart
+  checkpoint(result: unknown): Promise<void>;
+  // past this point the work can't be stopped, cancelling is refused. throws if already cancelled.
+  commit(): void;
+}
+
+export interface JobOutcome {
+  result?: unknown;
+  artifact?: { fileName: string; contentType: string };
+}
+
+export type JobRunner = (context: JobContext) => Promise<JobOutcome>;
+
+// finished jobs and their artifacts are kept this long
+const JOB_TTL = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000; // 10m
+// progress is written to disk at most this often per job
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+const store = new JsonFileStore<Job>('jobs.json');
+const artifactDir = join(config.DATA_DIR, 'artifacts');
+mkdirSync(artifactDir, { recursive: true, mode: 0o700 });
+
+const queue: string[] = [];
+const runners = new Map<string, JobRunner>();
+// what a queued job lets go of once it's over, whether it ran or not
+const releases = new Map<string, () => void>();
+const controllers = new Map<string, AbortController>();
+// queued jobs holding one of the JOB_CONCURRENCY slots. pending jobs run in their request and take none.
+const slots = new Set<string>();
+// running jobs that called commit()
+const committed = new Set<string>();
+
+function hashOwner(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex');
+}
+
+function artifactPathFor(id: string): string {
+  return join(artifactDir, id);
+}
+
+function save(job: Job): void {
+  store.set(job.id, job).catch(() => {
+    // already logged by the store
+  });
+}
+
+// runners live in memory only, anything unfinished from a previous run is lost
+for (const job of store.values()) {
+  if (job.status === 'queued' || job.status === 'running') {
+    save({ ...job, status: 'failed', error: 'Interrupted by a server restart', finishedAt: Date.now() });
+  }
+}
+
+function release(id: string): void {
+  releases.get(id)?.();
+  releases.delete(id);
+}
+
+async function runJob(id: string): Promise<void> {
+  const runner = runners.get(id);
+  const stored = store.get(id);
+  runners.delete(id);
+  try {
+    if (runner && stored && stored.status === 'queued') {
+      await execute(stored, runner);
+    }
+  } finally {
+    release(id);
+  }
+}
+
+async function execute(stored: Job, runner: JobRunner): Promise<Job> {
+  const id = stored.id;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  let job: Job = { ...stored, status: 'running', startedAt: Date.now() };
+  save(job);
+
+  let lastSave = 0;
+  const context: JobContext = {
+    signal: controller.signal,
+    progress(processed, total) {
+      job = { ...job, progress: { processed, total: total === undefined ? job.progress.total : total } };
+      const now = Date.now();
+      if (now - lastSave >= PROGRESS_SAVE_INTERVAL_MS) {
+        lastSave = now;
+        save(job);
+      }
+    },
+    artifactPath: artifactPathFor(id),
+    async checkpoint(result) {
+      job = { ...job, result };
+      await store.set(id, job).catch(() => {
+        // already logged by the store
+      });
+    },
+    commit() {
+      controller.signal.throwIfAborted();
+      committed.add(id);
+    },
+  };
+
+  try {
+    const outcome = await runner(context);
+    controller.signal.throwIfAborted();
+
+    let artifact: JobArtifact | null = null;
+    if (outcome.artifact) {
+      const { size } = await stat(context.artifactPath);
+      artifact = { ...outcome.artifact, size };
+    }
+
+    job = { ...job, status: 'completed', result: outcome.result ?? null, artifact };
+  } catch (error) {
+    await rm(context.artifactPath, { force: true });
+    job = controller.signal.aborted
+      ? { ...job, status: 'cancelled', error: 'Cancelled' }
+      : { ...job, status: 'failed', error: error instanceof Error ? error.message : 'Job failed' };
+
+    if (job.status === 'failed') {
+      log.error('job failed', { jobId: id, type: job.type, error });
+    }
+  } finally {
+    controllers.delete(id);
+    committed.delete(id);
+  }
+
+  job.finishedAt = Date.now();
+  save(job);
+  return job;
+}
+
+function pump(): void {
+  while (slots.size < config.JOB_CONCURRENCY && queue.length > 0) {
+    const id = queue.shift()!;
+    slots.add(id);
+    void runJob(id).finally(() => {
+      slots.delete(id);
+      pump();
+    });
+  }
+}
+
+/**
+ * queue a job for the session. returns the job as it was queued. `onDone`
+ * runs once the job is over, cancelled while queued included: it releases
+ * what the job holds, like its database client.
+ */
+export function enqueueJob(sessionId: string, type: string, description: string, runner: JobRunner, onDone?: () => void): Job {
+  const job: Job = {
+    id: randomUUID(),
+    ownerHash: hashOwner(sessionId),
+    type,
+    description,
+    status: 'queued',
+    progress: { processed: 0, total: null },
+    result: null,
+    artifact: null,
+    error: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+  };
+
+  save(job);
+  runners.set(job.id, runner);
+  if (onDone) {
+    releases.set(job.id, onDone);
+  }
+  queue.push(job.id);
+  pump();
+
+  return job;
+}
+
+/**
+ * create a job that waits for input instead of a queue slot. result holds its
+ * starting state.
+ */
+export function createPendingJob(sessionId: string, type: string, description: string, result: unknown): Job {
+  const job: Job = {
+    id: randomUUID(),
+    ownerHash: hashOwner(sessionId),
+    type,
+    description,
+    status: 'pending',
+    progress: { processed: 0, total: null },
+    result,
+    artifact: null,
+    error: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+  };
+
+  save(job);
+  return job;
+}
+
+/**
+ * run a pending job, or one that failed, straight away: the request feeding
+ * it stays open until it's done, so it doesn't wait for JOB_CONCURRENCY.
+ * null if it's running or finished otherwise. resolves with the finished job.
+ */
+export function runPendingJob(id: string, runner: JobRunner): Promise<Job> | null {
+  const job = store.get(id);
+  if (!job || controllers.has(id) || (job.status !== 'pending' && job.status !== 'failed')) {
+    return null;
+  }
+
+  return execute({ ...job, error: null, finishedAt: null }, runner);
+}
+
+export function listJobs(sessionId: string): Job[] {
+  const ownerHash = hashOwner(sessionId);
+  return store.values()
+    .filter(job => job.ownerHash === ownerHash)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * a job as seen by the session that created it, undefined for anyone else
+ */
+export function getJob(sessionId: string, id: string): Job | undefined {
+  const job = store.get(id);
+  return job && job.ownerHash === hashOwner(sessionId) ? job : undefined;
+}
+
+/**
+ * cancel a pending, queued or running job. false if it has already finished
+ * or committed. running jobs stop at their next abort check.
+ */
+export function cancelJob(sessionId: string, id: string): boolean {
+  const job = getJob(sessionId, id);
+  if (!job) {
+    return false;
+  }
+
+  if (job.status === 'queued' || job.status === 'pending') {
+    // a queued job from before a restart isn't in the queue
+    const index = queue.indexOf(id);
+    if (index >= 0) {
+      queue.splice(index, 1);
+    }
+    runners.delete(id);
+    release(id);
+    save({ ...job, status: 'cancelled', error: 'Cancelled', finishedAt: Date.now() });
+    return true;
+  }
+
+  const controller = controllers.get(id);
+  if (job.status === 'running' && controller && !committed.has(id)) {
+    controller.abort();
+    return true;
+  }
+
+  return false;
+}
+
+export function getArtifactPath(job: Job): string | null {
+  return job.status === 'completed' && job.artifact ? artifactPathFor(job.id) : null;
+}
+
+export function jobSummary(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    description: job.description,
+    status: job.status,
+    progress: job.progress,
+    result: job.result,
+    artifact: job.artifact,
+    error: job.error,
+    createdAt: new Date(job.createdAt).toISOString(),
+    startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : null,
+    finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : null,
+  };
+}
+
+async function cleanupFinishedJobs(): Promise<void> {
+  const cutoff = Date.now() - JOB_TTL;
+  // pending jobs nobody sent input to expire too
+  const expiresFrom = (job: Job) => job.finishedAt ?? (job.status === 'pending' ? job.createdAt : null);
+  const expired = store.values().filter(job => {
+    const from = expiresFrom(job);
+    return from !== null && from < cutoff;
+  });
+
+  for (const job of expired) {
+    await rm(artifactPathFor(job.id), { force: true });
+  }
+  await store.deleteWhere(job => expired.some(item => item.id === job.id));
+}
+
+const cleanupInterval = setInterval(() => {
+  cleanupFinishedJobs().catch((error) => {
+    log.error('cleanup failed', { error });
+  });
+}, CLEANUP_INTERVAL_MS);
+
+// Allow graceful shutdown
+export function stopJobs(): void {
+  clearInterval(cleanupInterval);
+  for (const controller of controllers.values()) {
+    controller.abort();
+  }
+}
@@ -0,0 +1,487 @@
+import { createHash, randomUUID } from 'crypto';
+import { closeSync, existsSync, mkdirSync, openSync, readSync, renameSync, writeSync } from 'fs';
+import { appendFile, open, rename, stat } from 'fs/promises';
+import { join } from 'path';
+import { BSON, Collection, Document, Filter } from 'mongodb';
+import { config } from '../config/index.js';
+import { createStorageKey, loadStorageKey, openString, sealString, StorageKey } from '../utils/encryption.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('journal');
+
+/**
+ * change journal: before/after images of every document a route writes,
+ * so a mistake can be reverted. kept in DATA_DIR/journal.log, same layout
+ * as the file session store:
+ *
+ *   { "t": "key", "kid": "...", "salt": "..." }    always the first line
+ *   { "t": "entry", "d": "<sealed entry, images as canonical ejson>" }
+ *   { "t": "revert", "id": "<entry id>", "at": <ms> }
+ *
+ * only the metadata of an entry and where its line sits in the log are kept
+ * in memory. the images are read back when an entry is shown or reverted.
+ * entries older than JOURNAL_RETENTION_HOURS are dropped on compaction.
+ */
+
+export interface JournalChange {
+  // the document _id, any bson type
+  id: unknown;
+  // null: the document didn't exist before (insert) / after (delete)
+  before: Document | null;
+  after: Document | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  ownerHash: string;
+  at: number;
+  operation: string;
+  database: string;
+  collection: string;
+  documentCount: number;
+  // the first few, for listings
+  documentIds: unknown[];
+  // more documents changed than were kept, so it can't be reverted
+  truncated: boolean;
+  revertedAt: number | null;
+}
+
+// what the sealed line holds
+interface StoredEntry extends Omit<JournalEntry, 'documentCount' | 'documentIds'> {
+  changes: JournalChange[];
+}
+
+// byte range of the entry's line in the log
+interface IndexedEntry extends JournalEntry {
+  offset: number;
+  length: number;
+}
+
+type LogRecord =
+  | { t: 'key'; kid: string; salt: string }
+  | { t: 'entry'; d: string }
+  | { t: 'revert'; id: string; at: number };
+
+const LOG_FILE = 'journal.log';
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1h
+const LISTED_IDS = 20;
+const READ_CHUNK = 64 * 1024;
+
+const path = join(config.DATA_DIR, LOG_FILE);
+const entries = new Map<string, IndexedEntry>();
+// entries a revert is running for
+const reverting = new Set<string>();
+const key: StorageKey = createStorageKey();
+// bytes in the log, where the next line lands
+let logSize = 0;
+// serialises file access so offsets never move under a read, and appends and compactions never interleave
+let fileAccess: Promise<unknown> = Promise.resolve();
+
+export function journalOwner(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex');
+}
+
+// document images as canonical ejson so Long, Decimal128 and friends stay exact
+function serializeEntry(entry: StoredEntry): string {
+  return JSON.stringify({ ...entry, changes: BSON.EJSON.stringify(entry.changes, { relaxed: false }) });
+}
+
+function parseEntry(text: string): StoredEntry {
+  const stored = JSON.parse(text) as Omit<StoredEntry, 'changes'> & { changes: string };
+  return { ...stored, changes: BSON.EJSON.parse(stored.changes, { relaxed: false }) as JournalChange[] };
+}
+
+function indexEntry(stored: StoredEntry, offset: number, length: number): IndexedEntry {
+  const { changes, ...meta } = stored;
+  return {
+    ...meta,
+    documentCount: changes.length,
+    documentIds: changes.slice(0, LISTED_IDS).map(change => change.id),
+    offset,
+    length,
+  };
+}
+
+function isExpired(entry: { at: number }, now = Date.now()): boolean {
+  return now - entry.at > config.JOURNAL_RETENTION_HOURS * 60 * 60 * 1000;
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = fileAccess.then(task);
+  // keep the chain alive even if one task fails
+  fileAccess = run.catch((error) => {
+    log.error('file access failed', { error });
+  });
+  return run;
+}
+
+function recordLine(record: LogRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+// append a line, returning where it landed
+function append(record: LogRecord): Promise<{ offset: number; length: number }> {
+  return enqueue(async () => {
+    const line = recordLine(record);
+    const offset = logSize;
+
+    try {
+      await appendFile(path, line, { mode: 0o600 });
+    } catch (error) {
+      // part of the line may have made it
+      logSize = await stat(path).then(info => info.size, () => logSize);
+      throw error;
+    }
+
+    logSize += Buffer.byteLength(line);
+    return { offset, length: Buffer.byteLength(line) };
+  });
+}
+
+async function readLine(offset: number, length: number): Promise<string> {
+  const handle = await open(path, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, offset);
+    return buffer.toString('utf8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * rewrite the log with only live entries, write + rename. lines are copied
+ * as they are, one at a time.
+ */
+async function compact(): Promise<void> {
+  const now = Date.now();
+  const tmpPath = `${path}.tmp`;
+  const tmp = await open(tmpPath, 'w', 0o600);
+  let size = 0;
+  const moved = new Map<string, number>();
+
+  try {
+    const header = recordLine({ t: 'key', kid: key.kid, salt: key.salt });
+    await tmp.write(header);
+    size += Buffer.byteLength(header);
+
+    for (const entry of entries.values()) {
+      if (isExpired(entry, now)) continue;
+
+      const line = await readLine(entry.offset, entry.length);
+      const revert = entry.revertedAt === null ? '' : recordLine({ t: 'revert', id: entry.id, at: entry.revertedAt });
+      await tmp.write(line + revert);
+      moved.set(entry.id, size);
+      size += entry.length + Buffer.byteLength(revert);
+    }
+  } finally {
+    await tmp.close();
+  }
+
+  await rename(tmpPath, path);
+
+  for (const [id, entry] of entries.entries()) {
+    const offset = moved.get(id);
+    if (offset === undefined) {
+      entries.delete(id);
+    } else {
+      entry.offset = offset;
+    }
+  }
+  logSize = size;
+}
+
+// the log line by line without reading it whole
+function* readLinesSync(file: string): Generator<string> {
+  const fd = openSync(file, 'r');
+  const chunk = Buffer.alloc(READ_CHUNK);
+  let pending: Buffer[] = [];
+
+  try {
+    let read: number;
+    while ((read = readSync(fd, chunk, 0, READ_CHUNK, null)) > 0) {
+      let start = 0;
+      let newline: number;
+      while ((newline = chunk.indexOf(10, start)) !== -1 && newline < read) {
+        pending.push(Buffer.from(chunk.subarray(start, newline)));
+        yield Buffer.concat(pending).toString('utf8');
+        pending = [];
+        start = newline + 1;
+      }
+      if (start < read) {
+        pending.push(Buffer.from(chunk.subarray(start, read)));
+      }
+    }
+    if (pending.length > 0) {
+      yield Buffer.concat(pending).toString('utf8');
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * index the log and rewrite it sealed with this process's key, dropping
+ * expired entries. one entry is in memory at a time.
+ */
+function load(): void {
+  mkdirSync(config.DATA_DIR, { recursive: true, mode: 0o700 });
+
+  const tmpPath = `${path}.tmp`;
+  const out = openSync(tmpPath, 'w', 0o600);
+  const write = (line: string) => {
+    writeSync(out, line);
+    logSize += Buffer.byteLength(line);
+  };
+
+  let fileKey: StorageKey | null = null;
+  let unreadable = 0;
+
+  try {
+    write(recordLine({ t: 'key', kid: key.kid, salt: key.salt }));
+
+    for (const line of existsSync(path) ? readLinesSync(path) : []) {
+      if (!line) continue;
+
+      try {
+        const record = JSON.parse(line) as LogRecord;
+
+        if (record.t === 'key') {
+          fileKey = loadStorageKey(record.kid, record.salt);
+        } else if (record.t === 'entry') {
+          const plain = fileKey ? openString(record.d, fileKey) : null;
+          if (!plain) {
+            unreadable++;
+            continue;
+          }
+          const stored = parseEntry(plain);
+          if (isExpired(stored)) continue;
+
+          const sealed = recordLine({ t: 'entry', d: sealString(plain, key) });
+          entries.set(stored.id, indexEntry(stored, logSize, Buffer.byteLength(sealed)));
+          write(sealed);
+        } else if (record.t === 'revert') {
+          const entry = entries.get(record.id);
+          if (entry) {
+            entry.revertedAt = record.at;
+            write(recordLine(record));
+          }
+        }
+      } catch {
+        // torn write from a crash, skip it
+        unreadable++;
+      }
+    }
+  } finally {
+    closeSync(out);
+  }
+
+  renameSync(tmpPath, path);
+
+  if (unreadable > 0) {
+    log.warn('skipped unreadable records (secret rotated out or torn write)', { count: unreadable, path });
+  }
+}
+
+load();
+
+/**
+ * record a write. never throws: a journal failure shouldn't fail the write it describes.
+ */
+export async function recordChange(
+  ownerHash: string,
+  operation: string,
+  database: string,
+  collection: string,
+  changes: JournalChange[],
+  truncated = false
+): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  const limit = config.JOURNAL_MAX_DOCUMENTS;
+  const stored: StoredEntry = {
+    id: randomUUID(),
+    ownerHash,
+    at: Date.now(),
+    operation,
+    database,
+    collection,
+    changes: changes.slice(0, limit),
+    truncated: truncated || changes.length > limit,
+    revertedAt: null,
+  };
+
+  try {
+    const { offset, length } = await append({ t: 'entry', d: sealString(serializeEntry(stored), key) });
+    entries.set(stored.id, indexEntry(stored, offset, length));
+  } catch {
+    // already logged by enqueue, the change goes unrecorded
+  }
+}
+
+export function listEntries(
+  ownerHash: string,
+  filter: { database?: string; collection?: string; limit: number }
+): JournalEntry[] {
+  return Array.from(entries.values())
+    .filter(entry => entry.ownerHash === ownerHash && !isExpired(entry))
+    .filter(entry => !filter.database || entry.database === filter.database)
+    .filter(entry => !filter.collection || entry.collection === filter.collection)
+    .sort((a, b) => b.at - a.at)
+    .slice(0, filter.limit);
+}
+
+/**
+ * an entry as seen by the session that made it, undefined for anyone else
+ */
+export function getEntry(ownerHash: string, id: string): JournalEntry | undefined {
+  const entry = entries.get(id);
+  return entry && entry.ownerHash === ownerHash && !isExpired(entry) ? entry : undefined;
+}
+
+/**
+ * the before / after images of an entry, read back from the log
+ */
+export function readChanges(entry: JournalEntry): Promise<JournalChange[]> {
+  return enqueue(async () => {
+    const indexed = entries.get(entry.id);
+    if (!indexed) {
+      throw new Error(`Journal entry ${entry.id} is gone`);
+    }
+
+    const record = JSON.parse(await readLine(indexed.offset, indexed.length)) as LogRecord;
+    const plain = record.t === 'entry' ? openString(record.d, key) : null;
+    if (!plain) {
+      throw new Error(`Journal entry ${entry.id} is unreadable`);
+    }
+    return parseEntry(plain).changes;
+  });
+}
+
+/**
+ * claim an entry for reverting, before anything is read or written. returns
+ * the release, or null while another revert of it runs or once it's reverted.
+ */
+export function lockEntry(entry: JournalEntry): (() => void) | null {
+  if (reverting.has(entry.id) || entry.revertedAt !== null) {
+    return null;
+  }
+
+  reverting.add(entry.id);
+  return () => {
+    reverting.delete(entry.id);
+  };
+}
+
+export function entrySummary(entry: JournalEntry) {
+  return {
+    id: entry.id,
+    at: new Date(entry.at).toISOString(),
+    operation: entry.operation,
+    database: entry.database,
+    collection: entry.collection,
+    documentCount: entry.documentCount,
+    documentIds: entry.documentIds,
+    truncated: entry.truncated,
+    revertible: !entry.truncated && entry.revertedAt === null && !reverting.has(entry.id),
+    revertedAt: entry.revertedAt ? new Date(entry.revertedAt).toISOString() : null,
+  };
+}
+
+/**
+ * key order doesn't matter here: the server and the client can order
+ * fields differently for the same document
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(field => [field, sortKeys((value as Record<string, unknown>)[field])])
+    );
+  }
+  return value;
+}
+
+export function sameDocument(a: Document | null, b: Document | null): boolean {
+  const canonical = (doc: Document | null) =>
+    JSON.stringify(sortKeys(BSON.EJSON.serialize(doc, { relaxed: false })));
+  return canonical(a) === canonical(b);
+}
+
+function idFilter(id: unknown): Filter<Document> {
+  return { _id: id } as Filter<Document>;
+}
+
+export interface RevertResult {
+  reverted: boolean;
+  // ids of documents that changed after the entry was written
+  conflicts: unknown[];
+  restoredCount: number;
+}
+
+/**
+ * put every document in the entry back to its before image. documents that
+ * no longer match their after image are conflicts, and nothing is written
+ * unless force is set. the caller holds the entry's lock (lockEntry).
+ */
+export async function revertEntry(
+  entry: JournalEntry,
+  col: Collection<Document>,
+  force: boolean
+): Promise<RevertResult> {
+  const changes = await readChanges(entry);
+  const current = new Map<number, Document | null>();
+  const conflicts: unknown[] = [];
+
+  for (const [i, change] of changes.entries()) {
+    const doc = await col.findOne(idFilter(change.id));
+    current.set(i, doc);
+    if (!sameDocument(doc, change.after)) {
+      conflicts.push(change.id);
+    }
+  }
+
+  if (conflicts.length > 0 && !force) {
+    return { reverted: false, conflicts, restoredCount: 0 };
+  }
+
+  const undo: JournalChange[] = [];
+  for (const [i, change] of changes.entries()) {
+    if (change.before === null) {
+      await col.deleteOne(idFilter(change.id));
+    } else {
+      await col.replaceOne(idFilter(change.id), change.before, { upsert: true });
+    }
+    undo.push({ id: change.id, before: current.get(i) ?? null, after: change.before });
+  }
+
+  entry.revertedAt = Date.now();
+  await append({ t: 'revert', id: entry.id, at: entry.revertedAt }).catch(() => {
+    // already logged by enqueue
+  });
+
+  // the revert is a change too, and can be reverted in turn
+  await recordChange(entry.ownerHash, 'revert', entry.database, entry.collection, undo);
+
+  return { reverted: true, conflicts, restoredCount: undo.length };
+}
+
+const cleanupInterval = setInterval(() => {
+  enqueue(compact).catch(() => {
+    // already logged by enqueue
+  });
+}, CLEANUP_INTERVAL_MS);
+
+/**
+ * stop the janitor and leave a compacted log behind
+ */
+export async function closeJournal(): Promise<void> {
+  clearInterval(cleanupInterval);
+  await enqueue(compact).catch(() => {
+    // already logged by enqueue
+  });
+}
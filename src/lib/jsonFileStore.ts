@@ -0,0 +1,91 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { config } from '../config/index.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('store');
+
+/**
+ * small keyed collection kept in memory and mirrored to one json file
+ * in DATA_DIR. every change rewrites the file (write + rename), so keep
+ * it to things measured in hundreds, not millions.
+ */
+export class JsonFileStore<T> {
+  private path: string;
+  private items = new Map<string, T>();
+  // serialises writes so two saves never race on the tmp file
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(fileName: string) {
+    mkdirSync(config.DATA_DIR, { recursive: true, mode: 0o700 });
+    this.path = join(config.DATA_DIR, fileName);
+
+    if (existsSync(this.path)) {
+      try {
+        const stored = JSON.parse(readFileSync(this.path, 'utf8')) as Record<string, T>;
+        for (const [id, value] of Object.entries(stored)) {
+          this.items.set(id, value);
+        }
+      } catch (error) {
+        log.error('could not read store', { path: this.path, error });
+      }
+    }
+  }
+
+  get(id: string): T | undefined {
+    return this.items.get(id);
+  }
+
+  values(): T[] {
+    return Array.from(this.items.values());
+  }
+
+  get size(): number {
+    return this.items.size;
+  }
+
+  async set(id: string, value: T): Promise<void> {
+    this.items.set(id, value);
+    await this.save();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.items.delete(id)) {
+      return false;
+    }
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Remove every item matching the predicate. Returns how many went.
+   */
+  async deleteWhere(predicate: (value: T) => boolean): Promise<number> {
+    let removed = 0;
+    for (const [id, value] of this.items.entries()) {
+      if (predicate(value)) {
+        this.items.delete(id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await this.save();
+    }
+    return removed;
+  }
+
+  private save(): Promise<void> {
+    const run = this.writes.then(async () => {
+      const tmpPath = `${this.path}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.items)), { mode: 0o600 });
+      await rename(tmpPath, this.path);
+    });
+    // keep the chain alive even if one write fails
+    this.writes = run.catch((error) => {
+      log.error('store write failed', { path: this.path, error });
+    });
+    return run;
+  }
+}
@@ -0,0 +1,172 @@
+import { monitorEventLoopDelay } from 'perf_hooks';
+
+/**
+ * process metrics in the prometheus text format. counters and histograms
+ * are updated where things happen, gauges are read at scrape time.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): Promise<string[]>;
+}
+
+const metrics: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter {
+  private values = new Map<string, number>();
+
+  constructor(private name: string, private help: string) {
+    metrics.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    // label sets are keyed by their rendered form
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  async render(): Promise<string[]> {
+    const lines = header(this.name, this.help, 'counter');
+    for (const [key, value] of this.values) {
+      lines.push(`${this.name}${key} ${value}`);
+    }
+    return lines;
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(private name: string, private help: string, private bounds: number[]) {
+    metrics.push(this);
+  }
+
+  observe(labels: Labels, value: number): void {
+    // label sets are keyed by their rendered form
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    for (const [i, bound] of this.bounds.entries()) {
+      if (value <= bound) series.buckets[i]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  async render(): Promise<string[]> {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      for (const [i, bound] of this.bounds.entries()) {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+      }
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+type GaugeValue = number | { labels: Labels; value: number }[];
+
+export class Gauge {
+  constructor(private name: string, private help: string, private collect: () => GaugeValue | Promise<GaugeValue>) {
+    metrics.push(this);
+  }
+
+  async render(): Promise<string[]> {
+    const lines = header(this.name, this.help, 'gauge');
+    const value = await this.collect();
+    if (typeof value === 'number') {
+      lines.push(`${this.name} ${value}`);
+    } else {
+      for (const item of value) {
+        lines.push(`${this.name}${formatLabels(item.labels)} ${item.value}`);
+      }
+    }
+    return lines;
+  }
+}
+
+export const httpRequests = new Counter(
+  'byselfdb_http_requests_total',
+  'HTTP requests by method, route pattern and status.'
+);
+
+export const httpRequestDuration = new Histogram(
+  'byselfdb_http_request_duration_seconds',
+  'HTTP request latency by method, route pattern and status.',
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+export const mongoConnectionsCreated = new Counter(
+  'byselfdb_mongo_connections_created_total',
+  'MongoDB clients connected.'
+);
+
+export const mongoConnectionFailures = new Counter(
+  'byselfdb_mongo_connection_failures_total',
+  'MongoDB clients that failed to connect.'
+);
+
+export const mongoClientsClosed = new Counter(
+  'byselfdb_mongo_clients_closed_total',
+  'MongoDB clients closed, by reason (idle, evicted, dead, shutdown).'
+);
+
+export const mongoClientsRejected = new Counter(
+  'byselfdb_mongo_clients_rejected_total',
+  'MongoDB clients not created because the pool was full of busy clients.'
+);
+
+export const rateLimitRejections = new Counter(
+  'byselfdb_rate_limit_rejections_total',
+  'Requests rejected by a rate limiter.'
+);
+
+const LAG_RESOLUTION_MS = 20;
+const eventLoopDelay = monitorEventLoopDelay({ resolution: LAG_RESOLUTION_MS });
+eventLoopDelay.enable();
+
+// delay since the last scrape in seconds. the histogram is in ns and counts the sampling interval too.
+new Gauge('byselfdb_event_loop_lag_seconds', 'Event loop delay since the last scrape.', () => {
+  const quantiles = [0.5, 0.9, 0.99].map(quantile => ({
+    labels: { quantile: String(quantile) },
+    value: Math.max(0, eventLoopDelay.percentile(quantile * 100) / 1e6 - LAG_RESOLUTION_MS) / 1000,
+  }));
+  eventLoopDelay.reset();
+  return quantiles;
+});
+
+export async function renderMetrics(): Promise<string> {
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(...await metric.render());
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -1,96 +1,282 @@
-import { MongoClient, Db } from 'mongodb';
+import { MongoClient } from 'mongodb';
 import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
 import { SessionData } from './sessionStore.js';
+import { config } from '../config/index.js';
+import { createLogger } from './logger.js';
+import { PoolFullError } from './errors.js';
 
-interface ConnectionPool {
-  uri: string;
+const log = createLogger('mongo');
+
+/**
+ * one MongoClient per uri, shared by every session using that uri. each
+ * client keeps up to MONGO_POOL_SIZE sockets, so concurrent requests don't
+ * queue on one connection. a request or job using a client holds it until
+ * it's done; clients with no holders and nothing checked out for
+ * MONGO_IDLE_MINUTES are closed by the sweeper.
+ */
+
+export type CloseReason = 'idle' | 'evicted' | 'dead' | 'shutdown';
+
+interface PoolEntry {
+  uriHash: string;
   client: MongoClient;
-  db: Db | null;
   lastUsed: number;
+  lastChecked: number;
+  // sockets lent out by the driver right now, a busy client is never swept
+  checkedOut: number;
+  // requests and jobs using the client, which may have nothing checked out between operations
+  holders: number;
+  // in-flight health check, shared by concurrent callers
+  checking: Promise<boolean> | null;
+}
+
+// re-ping a client before handing it out if it's been quiet this long
+const HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const pool = new Map<string, PoolEntry>();
+// single flight: concurrent requests for a new uri wait on one connect
+const pending = new Map<string, Promise<PoolEntry>>();
+
+/**
+ * what a client is held for: a response, released when it closes
+ */
+export interface ClientHolder {
+  readonly closed: boolean;
+  once(event: 'close', listener: () => void): unknown;
+}
+
+/**
+ * hooks for metrics: a client connected, failed to connect, was closed,
+ * or couldn't be created because the pool was full of busy clients
+ */
+export const poolEvents = new EventEmitter<{
+  created: [];
+  failed: [];
+  closed: [reason: CloseReason];
+  rejected: [];
+}>();
+
+function hashUri(uri: string): string {
+  return createHash('sha256').update(uri).digest('hex');
 }
 
-const CONNECTION_TTL = 5 * 60 * 1000;
-const pool = new Map<string, ConnectionPool>();
+function idleMs(): number {
+  return config.MONGO_IDLE_MINUTES * 60 * 1000;
+}
+
+function inUse(entry: PoolEntry): boolean {
+  return entry.checkedOut > 0 || entry.holders > 0;
+}
+
+async function closeEntry(entry: PoolEntry, reason: CloseReason): Promise<void> {
+  if (pool.get(entry.uriHash) === entry) {
+    pool.delete(entry.uriHash);
+  }
+  poolEvents.emit('closed', reason);
+
+  try {
+    await entry.client.close();
+  } catch {
+    // ignore noise
+  }
+}
+
+/**
+ * make room for one more client by closing the least recently used idle one
+ */
+async function makeRoom(): Promise<boolean> {
+  if (pool.size + pending.size < config.MONGO_MAX_CLIENTS) {
+    return true;
+  }
+
+  let oldest: PoolEntry | null = null;
+  for (const entry of pool.values()) {
+    if (!inUse(entry) && (!oldest || entry.lastUsed < oldest.lastUsed)) {
+      oldest = entry;
+    }
+  }
+
+  if (!oldest) {
+    return false;
+  }
+
+  await closeEntry(oldest, 'evicted');
+  return true;
+}
+
+async function createEntry(uriHash: string, uri: string): Promise<PoolEntry> {
+  if (!(await makeRoom())) {
+    poolEvents.emit('rejected');
+    throw new PoolFullError(config.MONGO_MAX_CLIENTS);
+  }
 
-async function createConnection(uri: string): Promise<MongoClient> {
   const client = new MongoClient(uri, {
-    maxPoolSize: 1,
+    maxPoolSize: config.MONGO_POOL_SIZE,
     minPoolSize: 0,
+    maxIdleTimeMS: idleMs(),
     connectTimeoutMS: 10000,
+    serverSelectionTimeoutMS: 10000,
     socketTimeoutMS: 30000,
   });
 
-  await client.connect();
-  return client;
+  try {
+    await client.connect();
+  } catch (error) {
+    poolEvents.emit('failed');
+    await client.close().catch(() => {
+      // ignore noise
+    });
+    throw error;
+  }
+
+  const now = Date.now();
+  const entry: PoolEntry = { uriHash, client, lastUsed: now, lastChecked: now, checkedOut: 0, holders: 0, checking: null };
+
+  client.on('connectionCheckedOut', () => {
+    entry.checkedOut++;
+  });
+  client.on('connectionCheckedIn', () => {
+    entry.checkedOut = Math.max(0, entry.checkedOut - 1);
+    entry.lastUsed = Date.now();
+  });
+
+  pool.set(uriHash, entry);
+  poolEvents.emit('created');
+  return entry;
 }
 
-/**
- * get connection from session
- */
-export async function getConnectionFromSession(session: SessionData): Promise<MongoClient | null> {
-  const uriHash = hashUri(session.uri);
+function connect(uriHash: string, uri: string): Promise<PoolEntry> {
+  let creating = pending.get(uriHash);
+  if (!creating) {
+    creating = createEntry(uriHash, uri).finally(() => pending.delete(uriHash));
+    pending.set(uriHash, creating);
+  }
+  return creating;
+}
+
+function isAlive(entry: PoolEntry): Promise<boolean> {
+  if (!entry.checking) {
+    entry.checking = entry.client.db('admin').command({ ping: 1 })
+      .then(() => {
+        entry.lastChecked = Date.now();
+        return true;
+      }, () => false)
+      .finally(() => {
+        entry.checking = null;
+      });
+  }
+  return entry.checking;
+}
+
+async function getEntry(uri: string): Promise<PoolEntry> {
+  const uriHash = hashUri(uri);
   const existing = pool.get(uriHash);
 
   if (existing) {
     const now = Date.now();
-    if (now - existing.lastUsed < CONNECTION_TTL) {
-      existing.lastUsed = now;
-      try {
-        await existing.client.db().command({ ping: 1 });
-      } catch {
-        existing.client = await createConnection(session.uri);
-      }
-      return existing.client;
-    } else {
-      await cleanupConnection(uriHash);
+    existing.lastUsed = now;
+
+    if (now - existing.lastChecked < HEALTH_CHECK_INTERVAL_MS || await isAlive(existing)) {
+      return existing;
     }
+
+    // close the dead one before replacing it, or its sockets and monitors leak
+    log.warn('replacing unresponsive client');
+    await closeEntry(existing, 'dead');
   }
 
-  try {
-    const client = await createConnection(session.uri);
-    const db = client.db(session.databaseName);
-
-    pool.set(uriHash, {
-      uri: session.uri,
-      client,
-      db,
-      lastUsed: Date.now(),
-    });
+  return connect(uriHash, uri);
+}
 
-    return client;
-  } catch (error) {
-    console.error('[mongo] failed to create connection:', error instanceof Error ? error.message : 'Unknown error');
-    return null;
+function hold(entry: PoolEntry): () => void {
+  entry.holders++;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    entry.holders--;
+    entry.lastUsed = Date.now();
+  };
+}
+
+/**
+ * pooled client for a uri, connecting (once) if there isn't one. it isn't
+ * evicted or swept until the holder closes. throws when the deployment
+ * can't be reached or the pool is full.
+ */
+export async function getClient(uri: string, holder: ClientHolder): Promise<MongoClient> {
+  const entry = await getEntry(uri);
+  // the caller may have gone away while it connected
+  if (!holder.closed) {
+    holder.once('close', hold(entry));
   }
+  return entry.client;
 }
 
-function hashUri(uri: string): string {
-  return createHash('sha256').update(uri).digest('hex');
+/**
+ * hold a client for work that outlives the request, like a job. call the
+ * returned function when done, more than once is fine.
+ */
+export function holdClient(client: MongoClient): () => void {
+  for (const entry of pool.values()) {
+    if (entry.client === client) {
+      return hold(entry);
+    }
+  }
+  // already closed, nothing to hold
+  return () => {};
 }
 
-async function cleanupConnection(uriHash: string): Promise<void> {
-  const conn = pool.get(uriHash);
-  if (conn) {
-    try {
-      await conn.client.close();
-    } catch {
-      // ignore noise
+/**
+ * get connection from session. null when the deployment can't be reached,
+ * throws PoolFullError when the pool is full (a 503, not the session's fault).
+ */
+export async function getConnectionFromSession(session: SessionData, holder: ClientHolder): Promise<MongoClient | null> {
+  try {
+    return await getClient(session.uri, holder);
+  } catch (error) {
+    if (error instanceof PoolFullError) {
+      throw error;
     }
-    pool.delete(uriHash);
+    log.error('failed to create connection', { error });
+    return null;
   }
 }
 
-export async function closeAllConnections(): Promise<void> {
-  for (const [uriHash, conn] of pool.entries()) {
-    try {
-      await conn.client.close();
-    } catch {
-      // ignore noise
+async function sweepIdleClients(): Promise<void> {
+  const cutoff = Date.now() - idleMs();
+  for (const entry of Array.from(pool.values())) {
+    if (!inUse(entry) && entry.lastUsed < cutoff) {
+      await closeEntry(entry, 'idle');
     }
-    pool.delete(uriHash);
   }
 }
 
+const sweepInterval = setInterval(() => {
+  sweepIdleClients().catch((error) => {
+    log.error('sweep failed', { error });
+  });
+}, SWEEP_INTERVAL_MS);
+
+export async function closeAllConnections(): Promise<void> {
+  clearInterval(sweepInterval);
+  await Promise.allSettled(pending.values());
+  await Promise.all(Array.from(pool.values()).map(entry => closeEntry(entry, 'shutdown')));
+}
+
 export function getActiveConnectionCount(): number {
   return pool.size;
 }
+
+/**
+ * sockets lent out across every pooled client
+ */
+export function getCheckedOutConnectionCount(): number {
+  let count = 0;
+  for (const entry of pool.values()) {
+    count += entry.checkedOut;
+  }
+  return count;
+}
@@ -0,0 +1,352 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+import { routeSchemas, RouteSchema } from '../schemas/index.js';
+import { SESSION_DATABASE } from '../schemas/common.js';
+import { ERROR_CODES } from '../types/index.js';
+import { config } from '../config/index.js';
+import { CSRF_HEADER } from './csrf.js';
+
+/**
+ * the OpenAPI 3.1 description of /api, built from the route schemas in
+ * src/schemas. routes without a schema are listed with their path params only.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+interface Operation {
+  tag: string;
+  summary: string;
+  // no session needed
+  public?: boolean;
+  // answers with a file or stream rather than the json envelope
+  file?: boolean;
+  // answers with plain json rather than the envelope
+  bare?: boolean;
+  // answers 201 rather than 200
+  created?: boolean;
+  // ?async=true queues a background job and answers 202
+  async?: boolean;
+}
+
+const TAGS = [
+  { name: 'connection', description: 'sessions, connecting and switching databases' },
+  { name: 'profiles', description: 'saved connection profiles' },
+  { name: 'databases', description: 'databases and collections' },
+  { name: 'documents', description: 'reading and writing documents' },
+  { name: 'analytics', description: 'schema, indexes, aggregation, validation and profiling' },
+  { name: 'import / export', description: 'bulk data in and out' },
+  { name: 'jobs', description: 'background jobs' },
+  { name: 'history', description: 'undo journal' },
+  { name: 'audit', description: 'audit log' },
+  { name: 'tokens', description: 'api tokens for scripts and ci' },
+  { name: 'health', description: 'probes' },
+];
+
+const OPERATIONS: Record<string, Operation> = {
+  'POST /connect': { tag: 'connection', summary: 'Connect with a uri or a saved profile and start a session', public: true },
+  'POST /disconnect': { tag: 'connection', summary: 'End the session' },
+  'GET /status': { tag: 'connection', summary: 'The current session' },
+  'GET /whoami': { tag: 'connection', summary: 'Users, roles and privileges of the connection' },
+  'GET /status/connection': { tag: 'connection', summary: 'Latency, topology and server version of the deployment' },
+  'POST /switch-database': { tag: 'connection', summary: 'Change the session database' },
+
+  'GET /connections': { tag: 'profiles', summary: 'List saved profiles', public: true },
+  'GET /connections/:id': { tag: 'profiles', summary: 'Get a saved profile', public: true },
+  'POST /connections': { tag: 'profiles', summary: 'Save a profile', public: true, created: true },
+  'PUT /connections/:id': { tag: 'profiles', summary: 'Update a saved profile', public: true },
+  'DELETE /connections/:id': { tag: 'profiles', summary: 'Delete a saved profile', public: true },
+
+  'GET /databases': { tag: 'databases', summary: 'List databases in scope' },
+  'GET /collections': { tag: 'databases', summary: 'List collections with counts and sizes' },
+  'GET /collection-stats': { tag: 'databases', summary: 'Storage statistics of a collection' },
+
+  'GET /documents': { tag: 'documents', summary: 'Find documents, paged by cursor or skip' },
+  'GET /documents/template': { tag: 'documents', summary: 'A blank document guessed from existing ones' },
+  'POST /documents': { tag: 'documents', summary: 'Insert a document' },
+  'PUT /documents/:id': { tag: 'documents', summary: 'Update a document by _id' },
+  'DELETE /documents/:id': { tag: 'documents', summary: 'Delete a document by _id' },
+  'POST /documents/bulk': { tag: 'documents', summary: 'Insert many documents, or delete them by _id' },
+  'POST /documents/update-many': { tag: 'documents', summary: 'Update by filter: dry run, then confirm with the token', async: true },
+  'POST /documents/delete-many': { tag: 'documents', summary: 'Delete by filter: dry run, then confirm with the token', async: true },
+
+  'GET /server-stats': { tag: 'analytics', summary: 'Memory, connections and operation counters of the server' },
+  'GET /schema': { tag: 'analytics', summary: 'Field types and presence from a sample (or everything, with async)', async: true },
+  'GET /indexes': { tag: 'analytics', summary: 'List indexes and their sizes' },
+  'POST /indexes': { tag: 'analytics', summary: 'Create an index', async: true },
+  'DELETE /indexes/:indexName': { tag: 'analytics', summary: 'Drop an index' },
+  'POST /aggregate': { tag: 'analytics', summary: 'Run a read-only aggregation pipeline' },
+  'GET /validation': { tag: 'analytics', summary: 'Get the collection validator' },
+  'PUT /validation': { tag: 'analytics', summary: 'Set the collection validator' },
+  'GET /slow-queries': { tag: 'analytics', summary: 'Recent slow operations from system.profile' },
+  'POST /profiling': { tag: 'analytics', summary: 'Set the profiling level' },
+  'GET /opcounters': { tag: 'analytics', summary: 'Operation counters for live charts' },
+
+  'GET /export': { tag: 'import / export', summary: 'Stream a collection as ndjson, json, ejson, csv or bson', file: true, async: true },
+  'POST /import': { tag: 'import / export', summary: 'Import up to 1000 documents' },
+  'POST /import/jobs': { tag: 'import / export', summary: 'Create a streaming import job', created: true },
+  'GET /import/jobs/:jobId': { tag: 'import / export', summary: 'Progress of an import job' },
+  'POST /import/jobs/:jobId/upload': { tag: 'import / export', summary: 'Upload (or resume) the file of an import job' },
+
+  'GET /jobs': { tag: 'jobs', summary: 'List background jobs' },
+  'GET /jobs/:id': { tag: 'jobs', summary: 'Get a background job' },
+  'POST /jobs/:id/cancel': { tag: 'jobs', summary: 'Cancel a background job' },
+  'GET /jobs/:id/artifact': { tag: 'jobs', summary: 'Download what a job produced', file: true },
+
+  'GET /history': { tag: 'history', summary: 'Recent changes made in this session' },
+  'GET /history/:entryId': { tag: 'history', summary: 'One change with its before and after images' },
+  'POST /history/:entryId/revert': { tag: 'history', summary: 'Undo a change' },
+
+  'GET /audit': { tag: 'audit', summary: 'Query the audit log' },
+
+  'GET /tokens': { tag: 'tokens', summary: 'List api tokens for this connection' },
+  'POST /tokens': { tag: 'tokens', summary: 'Create an api token from the session', created: true },
+  'DELETE /tokens/:id': { tag: 'tokens', summary: 'Revoke an api token' },
+
+  'GET /health': { tag: 'health', summary: 'Static health response', public: true, bare: true },
+  'GET /health/live': { tag: 'health', summary: 'Liveness probe', public: true, bare: true },
+  'GET /health/ready': { tag: 'health', summary: 'Readiness probe', public: true, bare: true },
+};
+
+// what a client has to send
+function isRequired(field: ZodTypeAny): boolean {
+  return !field.isOptional() && field.description !== SESSION_DATABASE;
+}
+
+// zod -> json schema, for the kinds src/schemas uses. requests are described
+// as sent, so effects (preprocess, refine, transform) show their input side.
+function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  return schema.description ? { ...result, description: schema.description } : result;
+}
+
+function convert(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' };
+      for (const check of def.checks) {
+        if (check.kind === 'min') result.minLength = check.value;
+        if (check.kind === 'max') result.maxLength = check.value;
+        if (check.kind === 'datetime') result.format = 'date-time';
+      }
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' };
+      for (const check of def.checks) {
+        if (check.kind === 'int') result.type = 'integer';
+        if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        if (check.kind === 'max' && check.value < Number.MAX_SAFE_INTEGER) result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values };
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: 'array', items: toJsonSchema(def.type) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: toJsonSchema(def.valueType) };
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const required = Object.keys(shape).filter(key => isRequired(shape[key]));
+      const result: JsonSchema = {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      };
+      if (required.length > 0) result.required = required;
+      if (def.unknownKeys === 'strict') result.additionalProperties = false;
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodUnion: {
+      const options: ZodTypeAny[] = def.options;
+      if (options.every(option => option._def.typeName === ZodFirstPartyTypeKind.ZodLiteral)) {
+        return { enum: options.map(option => option._def.value) };
+      }
+      return { anyOf: options.map(toJsonSchema) };
+    }
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [toJsonSchema(def.innerType), { type: 'null' }] };
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema);
+    default:
+      // unknown, any: every value
+      return {};
+  }
+}
+
+// the object inside refine() / preprocess()
+function objectShape(schema: ZodTypeAny): Record<string, ZodTypeAny> {
+  let current = schema;
+  while (current._def.typeName === ZodFirstPartyTypeKind.ZodEffects) {
+    current = current._def.schema;
+  }
+  return current._def.typeName === ZodFirstPartyTypeKind.ZodObject ? current._def.shape() : {};
+}
+
+function parameters(path: string, schema: RouteSchema | undefined): JsonSchema[] {
+  const params = schema?.params ? objectShape(schema.params) : {};
+  const result: JsonSchema[] = [];
+
+  // every :name in the path, typed by the params schema when there is one
+  for (const [, name] of path.matchAll(/:(\w+)/g)) {
+    result.push({ name, in: 'path', required: true, schema: params[name] ? toJsonSchema(params[name]) : { type: 'string' } });
+  }
+
+  if (schema?.query) {
+    for (const [name, field] of Object.entries(objectShape(schema.query))) {
+      result.push({ name, in: 'query', required: isRequired(field), schema: toJsonSchema(field) });
+    }
+  }
+
+  return result;
+}
+
+function jsonContent(schema: JsonSchema): JsonSchema {
+  return { 'application/json': { schema } };
+}
+
+// some routes only confirm with a message
+function envelope(data: JsonSchema | null): JsonSchema {
+  return {
+    type: 'object',
+    required: data ? ['success', 'data'] : ['success'],
+    properties: { success: { const: true }, data: data ?? {}, message: { type: 'string' } },
+  };
+}
+
+function responses(operation: Operation, schema: RouteSchema | undefined): JsonSchema {
+  const data = schema?.response ? toJsonSchema(schema.response) : null;
+  const result: JsonSchema = {};
+
+  if (operation.file) {
+    result[200] = { description: 'The file' };
+  } else if (operation.bare) {
+    result[200] = { description: 'OK', content: jsonContent({ type: 'object' }) };
+  } else {
+    result[operation.created ? 201 : 200] = { description: operation.created ? 'Created' : 'OK', content: jsonContent(envelope(data)) };
+  }
+
+  if (operation.async) {
+    result[202] = {
+      description: 'Queued as a background job, Location points at it',
+      content: jsonContent(envelope({ type: 'object' })),
+    };
+  }
+
+  if (schema?.params || schema?.query || schema?.body) {
+    result[400] = { $ref: '#/components/responses/InvalidRequest' };
+  }
+  if (!operation.public) {
+    result[401] = { $ref: '#/components/responses/Unauthorized' };
+  }
+  // probes answer in their own shape whatever the status
+  result.default = operation.bare
+    ? { description: 'Not healthy', content: jsonContent({ type: 'object' }) }
+    : { $ref: '#/components/responses/Error' };
+
+  return result;
+}
+
+function errorSchema(): JsonSchema {
+  return {
+    type: 'object',
+    required: ['success', 'error'],
+    properties: {
+      success: { const: false },
+      error: { type: 'string' },
+      code: { type: 'string', enum: [...ERROR_CODES] },
+      details: { type: 'object' },
+      // matches the X-Request-Id header
+      requestId: { type: 'string' },
+    },
+  };
+}
+
+function cookieName(): string {
+  return config.NODE_ENV === 'production' ? 'byselfdb_session' : 'byselfdb_session_dev';
+}
+
+export function buildOpenApiSpec(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const [key, operation] of Object.entries(OPERATIONS)) {
+    const [method, path] = key.split(' ');
+    const schema = routeSchemas[key];
+    const openApiPath = path.replace(/:(\w+)/g, '{$1}');
+
+    const entry: JsonSchema = {
+      tags: [operation.tag],
+      summary: operation.summary,
+      operationId: `${method.toLowerCase()}${path.replace(/[/:-]+(\w)/g, (_, char: string) => char.toUpperCase())}`,
+      parameters: parameters(path, schema),
+      responses: responses(operation, schema),
+    };
+
+    if (schema?.body) {
+      entry.requestBody = {
+        // fine to leave out when every field is optional
+        required: !schema.body.safeParse({}).success,
+        content: jsonContent(toJsonSchema(schema.body)),
+      };
+    }
+    if (operation.public) {
+      entry.security = [];
+    } else if (method !== 'GET') {
+      // cookie sessions also send their csrf token
+      entry.security = [{ session: [], csrf: [] }, { apiToken: [] }];
+    }
+
+    paths[openApiPath] = { ...paths[openApiPath], [method.toLowerCase()]: entry };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'byselfdb api',
+      version: '1.0.0',
+      description: 'Bodies and ?format=ejson responses may use MongoDB Extended JSON ({ "$oid": ... }).',
+    },
+    servers: [{ url: '/api' }],
+    tags: TAGS,
+    security: [{ session: [] }, { apiToken: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: cookieName() },
+        apiToken: { type: 'http', scheme: 'bearer', description: 'bsdb_... token from POST /tokens' },
+        csrf: { type: 'apiKey', in: 'header', name: CSRF_HEADER, description: 'csrfToken from /connect or /status' },
+      },
+      schemas: {
+        Error: errorSchema(),
+      },
+      responses: {
+        InvalidRequest: {
+          description: 'The request failed validation, details.issues lists every problem',
+          content: jsonContent({ $ref: '#/components/schemas/Error' }),
+        },
+        Unauthorized: {
+          description: 'No session or api token, or the database could not be reached',
+          content: jsonContent({ $ref: '#/components/schemas/Error' }),
+        },
+        Error: {
+          description: 'Error',
+          content: jsonContent({ $ref: '#/components/schemas/Error' }),
+        },
+      },
+    },
+  };
+}
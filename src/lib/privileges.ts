@@ -0,0 +1,110 @@
+import { MongoClient } from 'mongodb';
+
+/**
+ * what the connected user may do, from connectionStatus. with access
+ * control off there are no authenticated users and everything is allowed.
+ */
+
+export interface UserRole {
+  role: string;
+  db: string;
+}
+
+export interface PrivilegeResource {
+  // '' means every database / collection
+  db?: string;
+  collection?: string;
+  cluster?: boolean;
+  anyResource?: boolean;
+}
+
+export interface Privilege {
+  resource: PrivilegeResource;
+  actions: string[];
+}
+
+export interface Permissions {
+  canRead: boolean;
+  canWrite: boolean;
+  canIndex: boolean;
+}
+
+export interface AuthInfo {
+  authenticated: boolean;
+  users: { user: string; db: string }[];
+  roles: UserRole[];
+  privileges: Privilege[];
+}
+
+const WRITE_ACTIONS = ['insert', 'update', 'remove'];
+
+// roles defined in admin that reach every database
+const ANY_DATABASE_ROLES = new Set([
+  'root',
+  'readAnyDatabase',
+  'readWriteAnyDatabase',
+  'dbAdminAnyDatabase',
+  'userAdminAnyDatabase',
+  'atlasAdmin',
+]);
+
+export async function getAuthInfo(client: MongoClient): Promise<AuthInfo> {
+  const status = await client.db('admin').command({ connectionStatus: 1, showPrivileges: true });
+  const info = status.authInfo ?? {};
+  const users = info.authenticatedUsers ?? [];
+
+  return {
+    authenticated: users.length > 0,
+    users,
+    roles: info.authenticatedUserRoles ?? [],
+    privileges: info.authenticatedUserPrivileges ?? [],
+  };
+}
+
+/**
+ * roles granted on the database itself, plus the any-database ones
+ */
+export function rolesOnDatabase(info: AuthInfo, database: string): UserRole[] {
+  return info.roles.filter(role => role.db === database || (role.db === 'admin' && ANY_DATABASE_ROLES.has(role.role)));
+}
+
+function covers(resource: PrivilegeResource, database: string, collection?: string): boolean {
+  if (resource.anyResource) return true;
+  if (resource.db === undefined || (resource.db !== '' && resource.db !== database)) return false;
+  // a privilege on one collection still counts as access to its database
+  return collection === undefined || !resource.collection || resource.collection === collection;
+}
+
+/**
+ * privilege actions on a database, or on one collection of it
+ */
+export function actionsOn(info: AuthInfo, database: string, collection?: string): Set<string> {
+  const actions = new Set<string>();
+  for (const privilege of info.privileges) {
+    if (covers(privilege.resource, database, collection)) {
+      privilege.actions.forEach(action => actions.add(action));
+    }
+  }
+  return actions;
+}
+
+export function canAccessDatabase(info: AuthInfo, database: string): boolean {
+  return !info.authenticated || actionsOn(info, database).size > 0;
+}
+
+/**
+ * what the ui should offer on a database or collection. any one of
+ * insert / update / remove counts as write.
+ */
+export function permissionsOn(info: AuthInfo, database: string, collection?: string): Permissions {
+  if (!info.authenticated) {
+    return { canRead: true, canWrite: true, canIndex: true };
+  }
+
+  const actions = actionsOn(info, database, collection);
+  return {
+    canRead: actions.has('find'),
+    canWrite: WRITE_ACTIONS.some(action => actions.has(action)),
+    canIndex: actions.has('createIndex'),
+  };
+}
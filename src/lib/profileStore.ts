@@ -0,0 +1,184 @@
+import { createHash, randomUUID } from 'crypto';
+import { JsonFileStore } from './jsonFileStore.js';
+import { createStorageKey, loadStorageKey, openString, sealString } from '../utils/encryption.js';
+import { joinUriPassword, maskUri, splitUriPassword } from '../utils/uri.js';
+
+/**
+ * saved connection profiles. the password is sealed on its own,
+ * the rest of the uri is kept as-is so it can be listed masked.
+ */
+interface StoredProfile {
+  id: string;
+  ownerHash: string;
+  name: string;
+  uri: string;
+  password: { kid: string; salt: string; sealed: string } | null;
+  defaultDatabase: string | null;
+  readOnly: boolean;
+  scope: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProfileInput {
+  name: string;
+  uri: string;
+  defaultDatabase: string | null;
+  readOnly: boolean;
+  scope: string[];
+}
+
+// what clients get to see
+export interface ProfileSummary {
+  id: string;
+  name: string;
+  maskedUri: string;
+  defaultDatabase: string | null;
+  readOnly: boolean;
+  scope: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// saving needs no session and owner cookies are free, so the store is capped twice over
+export const MAX_PROFILES_PER_OWNER = 50;
+export const MAX_PROFILES = 10_000;
+
+const store = new JsonFileStore<StoredProfile>('profiles.json');
+
+function hashOwner(ownerId: string): string {
+  return createHash('sha256').update(ownerId).digest('hex');
+}
+
+function sealPassword(password: string | null): StoredProfile['password'] {
+  if (password === null) {
+    return null;
+  }
+
+  const key = createStorageKey();
+  return { kid: key.kid, salt: key.salt, sealed: sealString(password, key) };
+}
+
+function summarize(profile: StoredProfile): ProfileSummary {
+  return {
+    id: profile.id,
+    name: profile.name,
+    maskedUri: maskUri(profile.password ? joinUriPassword(profile.uri, '****') : profile.uri),
+    defaultDatabase: profile.defaultDatabase,
+    readOnly: profile.readOnly,
+    scope: profile.scope,
+    createdAt: new Date(profile.createdAt).toISOString(),
+    updatedAt: new Date(profile.updatedAt).toISOString(),
+  };
+}
+
+function findOwned(ownerId: string, profileId: string): StoredProfile | null {
+  const profile = store.get(profileId);
+  return profile && profile.ownerHash === hashOwner(ownerId) ? profile : null;
+}
+
+export function listProfiles(ownerId: string): ProfileSummary[] {
+  const ownerHash = hashOwner(ownerId);
+  return store.values()
+    .filter(profile => profile.ownerHash === ownerHash)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(summarize);
+}
+
+export function getProfile(ownerId: string, profileId: string): ProfileSummary | null {
+  const profile = findOwned(ownerId, profileId);
+  return profile ? summarize(profile) : null;
+}
+
+/**
+ * Save a profile. Returns which cap was hit instead once the owner has
+ * MAX_PROFILES_PER_OWNER profiles or the store MAX_PROFILES.
+ */
+export async function createProfile(ownerId: string, input: ProfileInput): Promise<ProfileSummary | 'owner-full' | 'store-full'> {
+  const profiles = store.values();
+  if (profiles.length >= MAX_PROFILES) {
+    return 'store-full';
+  }
+
+  const ownerHash = hashOwner(ownerId);
+  if (profiles.filter(profile => profile.ownerHash === ownerHash).length >= MAX_PROFILES_PER_OWNER) {
+    return 'owner-full';
+  }
+
+  const { uri, password } = splitUriPassword(input.uri);
+  const now = Date.now();
+
+  const profile: StoredProfile = {
+    id: randomUUID(),
+    ownerHash,
+    name: input.name,
+    uri,
+    password: sealPassword(password),
+    defaultDatabase: input.defaultDatabase,
+    readOnly: input.readOnly,
+    scope: input.scope,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.set(profile.id, profile);
+  return summarize(profile);
+}
+
+export async function updateProfile(
+  ownerId: string,
+  profileId: string,
+  updates: Partial<ProfileInput>
+): Promise<ProfileSummary | null> {
+  const profile = findOwned(ownerId, profileId);
+  if (!profile) {
+    return null;
+  }
+
+  const { uri: newUri, ...rest } = updates;
+  const next: StoredProfile = { ...profile, ...rest, updatedAt: Date.now() };
+
+  if (newUri !== undefined) {
+    const { uri, password } = splitUriPassword(newUri);
+    next.uri = uri;
+    next.password = sealPassword(password);
+  }
+
+  await store.set(profileId, next);
+  return summarize(next);
+}
+
+export function deleteProfile(ownerId: string, profileId: string): Promise<boolean> {
+  if (!findOwned(ownerId, profileId)) {
+    return Promise.resolve(false);
+  }
+  return store.delete(profileId);
+}
+
+/**
+ * Decrypt a profile for connecting. Returns null if missing or the secret rotated out.
+ */
+export function openProfile(ownerId: string, profileId: string): (ProfileInput & { id: string }) | null {
+  const profile = findOwned(ownerId, profileId);
+  if (!profile) {
+    return null;
+  }
+
+  let password: string | null = null;
+  if (profile.password) {
+    const key = loadStorageKey(profile.password.kid, profile.password.salt);
+    password = key ? openString(profile.password.sealed, key) : null;
+    if (password === null) {
+      return null;
+    }
+  }
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    uri: joinUriPassword(profile.uri, password),
+    defaultDatabase: profile.defaultDatabase,
+    readOnly: profile.readOnly,
+    scope: profile.scope,
+  };
+}
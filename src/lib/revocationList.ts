@@ -0,0 +1,60 @@
+/**
+ * revoked stateless token ids. entries only need to live until
+ * the token would have expired anyway.
+ */
+
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5m
+
+const revoked = new Map<string, number>();
+
+/**
+ * Revoke a token id until its expiry (ms since epoch).
+ */
+export function revokeToken(jti: string, expiresAt: number): void {
+    if (expiresAt <= Date.now()) {
+        return;
+    }
+    revoked.set(jti, expiresAt);
+}
+
+/**
+ * Check whether a token id has been revoked.
+ */
+export function isTokenRevoked(jti: string): boolean {
+    const expiresAt = revoked.get(jti);
+
+    if (expiresAt === undefined) {
+        return false;
+    }
+
+    if (Date.now() > expiresAt) {
+        revoked.delete(jti);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Get count of revoked, not yet expired tokens (for monitoring).
+ */
+export function getRevokedTokenCount(): number {
+    return revoked.size;
+}
+
+function cleanupExpiredRevocations(): void {
+    const now = Date.now();
+
+    for (const [jti, expiresAt] of revoked.entries()) {
+        if (now > expiresAt) {
+            revoked.delete(jti);
+        }
+    }
+}
+
+const cleanupInterval = setInterval(cleanupExpiredRevocations, CLEANUP_INTERVAL_MS);
+
+// Allow graceful shutdown
+export function stopRevocationCleanup(): void {
+    clearInterval(cleanupInterval);
+}
@@ -0,0 +1,103 @@
+import { config } from '../config/index.js';
+import { createSession, getSession, updateSession, destroySession, SessionData, SESSION_TTL_MS } from './sessionStore.js';
+import { revokeToken, isTokenRevoked } from './revocationList.js';
+import { randomUUID } from 'crypto';
+import { encryptSession, decryptSession } from '../utils/encryption.js';
+
+/**
+ * picks between the server-side store and stateless tokens,
+ * so routes don't have to care which one is configured.
+ */
+
+export type NewSessionData = Omit<SessionData, 'createdAt' | 'expiresAt' | 'jti'>;
+
+export interface ResolvedSession {
+  // stable for the life of the session, even when a stateless cookie is reissued.
+  // jobs, history, confirm tokens and the audit log are keyed by it.
+  sessionId: string;
+  session: SessionData;
+}
+
+/**
+ * How long a new session (and its cookie) lasts.
+ */
+export function sessionTtlMs(): number {
+  return config.SESSION_MODE === 'stateless' ? config.STATELESS_SESSION_HOURS * 60 * 60 * 1000 : SESSION_TTL_MS;
+}
+
+/**
+ * Start a session. Returns the cookie value.
+ */
+export async function startSession(data: NewSessionData): Promise<string> {
+  if (config.SESSION_MODE === 'stateless') {
+    const { token } = await encryptSession({ ...data, sid: randomUUID() });
+    return token;
+  }
+
+  return createSession(data);
+}
+
+/**
+ * Resolve a cookie value into session data. Returns null if invalid, expired or revoked.
+ */
+export async function resolveSession(token: string): Promise<ResolvedSession | null> {
+  if (config.SESSION_MODE === 'stateless') {
+    const payload = await decryptSession(token);
+
+    // tokens from before sid existed are their own session
+    const sessionId = typeof payload?.sid === 'string' ? payload.sid : payload?.jti;
+
+    if (!payload || !sessionId || isTokenRevoked(payload.jti) || isTokenRevoked(sessionId)) {
+      return null;
+    }
+
+    return {
+      sessionId,
+      session: {
+        uri: payload.uri,
+        databaseName: payload.databaseName,
+        allowedScope: payload.allowedScope,
+        readOnly: payload.readOnly,
+        maxAffected: payload.maxAffected,
+        jti: payload.jti,
+        createdAt: payload.iat * 1000,
+        expiresAt: payload.exp * 1000,
+      },
+    };
+  }
+
+  const session = await getSession(token);
+  return session ? { sessionId: token, session } : null;
+}
+
+/**
+ * Apply updates to a session. Returns the (possibly new) cookie value, or null if the session is gone.
+ */
+export async function changeSession(
+  resolved: ResolvedSession,
+  updates: Partial<NewSessionData>
+): Promise<string | null> {
+  if (config.SESSION_MODE === 'stateless') {
+    // tokens are immutable, so swap in a fresh one for the same session and kill the old
+    const { createdAt, expiresAt, jti, ...current } = resolved.session;
+    const { token } = await encryptSession({ ...current, ...updates, sid: resolved.sessionId });
+    revokeToken(jti ?? resolved.sessionId, expiresAt);
+    return token;
+  }
+
+  // server-side ids don't change
+  return (await updateSession(resolved.sessionId, updates)) ? resolved.sessionId : null;
+}
+
+/**
+ * End a session (logout).
+ */
+export async function endSession(resolved: ResolvedSession): Promise<void> {
+  if (config.SESSION_MODE === 'stateless') {
+    // the session id covers every token reissued for it
+    revokeToken(resolved.sessionId, resolved.session.expiresAt);
+    return;
+  }
+
+  await destroySession(resolved.sessionId);
+}
@@ -1,27 +1,49 @@
 import { randomBytes } from 'crypto';
+import { config } from '../config/index.js';
+import { MemorySessionStore } from './sessionStores/memory.js';
+import { FileSessionStore } from './sessionStores/file.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('session');
 
 /**
- * data stays in memory
+ * data stays in memory (or encrypted on disk with SESSION_STORE=file)
  */
 export interface SessionData {
     uri: string;
     databaseName: string;
     allowedScope: string[];
     readOnly: boolean;
+    // cap for filter-driven bulk writes, older sessions fall back to the config default
+    maxAffected?: number;
+    // stateless only: id of this cookie's token, revoked when it's reissued
+    jti?: string;
     createdAt: number;
     expiresAt: number;
 }
 
-interface StoredSession {
-    data: SessionData;
-    lastAccessed: number;
+/**
+ * where server-mode sessions are kept
+ */
+export interface SessionStore {
+    create(sessionId: string, data: SessionData): Promise<void>;
+    get(sessionId: string): Promise<SessionData | null>;
+    update(sessionId: string, updates: Partial<Omit<SessionData, 'createdAt'>>): Promise<boolean>;
+    destroy(sessionId: string): Promise<boolean>;
+    count(): Promise<number>;
+    // drop expired sessions, returns how many went
+    cleanup(): Promise<number>;
+    // shutdown. the memory store forgets everything, durable stores flush.
+    close(): Promise<void>;
 }
 
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24h
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24h
 const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5m
 const SESSION_ID_LENGTH = 32;
 
-const sessions = new Map<string, StoredSession>();
+const store: SessionStore = config.SESSION_STORE === 'file'
+    ? new FileSessionStore(config.DATA_DIR)
+    : new MemorySessionStore();
 
 /**
  * secure random hex
@@ -33,19 +55,14 @@ function generateSessionId(): string {
 /**
  * Create a new session and return the session ID.
  */
-export function createSession(data: Omit<SessionData, 'createdAt' | 'expiresAt'>): string {
+export async function createSession(data: Omit<SessionData, 'createdAt' | 'expiresAt'>): Promise<string> {
     const sessionId = generateSessionId();
     const now = Date.now();
 
-    const sessionData: SessionData = {
+    await store.create(sessionId, {
         ...data,
         createdAt: now,
         expiresAt: now + SESSION_TTL_MS,
-    };
-
-    sessions.set(sessionId, {
-        data: sessionData,
-        lastAccessed: now,
     });
 
     return sessionId;
@@ -54,90 +71,52 @@ export function createSession(data: Omit<SessionData, 'createdAt' | 'expiresAt'>
 /**
  * Get session data by ID. Returns null if session doesn't exist or is expired.
  */
-export function getSession(sessionId: string): SessionData | null {
-    const session = sessions.get(sessionId);
-
-    if (!session) {
-        return null;
-    }
-
-    const now = Date.now();
-
-    // check expiry
-    if (now > session.data.expiresAt) {
-        sessions.delete(sessionId);
-        return null;
-    }
-
-    // Update last accessed time
-    session.lastAccessed = now;
-
-    return session.data;
+export function getSession(sessionId: string): Promise<SessionData | null> {
+    return store.get(sessionId);
 }
 
 /**
  * Update session data (e.g., when switching databases).
  */
-export function updateSession(sessionId: string, updates: Partial<Omit<SessionData, 'createdAt'>>): boolean {
-    const session = sessions.get(sessionId);
-
-    if (!session) {
-        return false;
-    }
-
-    const now = Date.now();
-
-    if (now > session.data.expiresAt) {
-        sessions.delete(sessionId);
-        return false;
-    }
-
-    session.data = { ...session.data, ...updates };
-    session.lastAccessed = now;
-
-    return true;
+export function updateSession(sessionId: string, updates: Partial<Omit<SessionData, 'createdAt'>>): Promise<boolean> {
+    return store.update(sessionId, updates);
 }
 
 /**
  * Destroy a session immediately (logout).
  */
-export function destroySession(sessionId: string): boolean {
-    return sessions.delete(sessionId);
+export function destroySession(sessionId: string): Promise<boolean> {
+    return store.destroy(sessionId);
 }
 
 /**
  * Get count of active sessions (for monitoring).
  */
-export function getActiveSessionCount(): number {
-    return sessions.size;
+export function getActiveSessionCount(): Promise<number> {
+    return store.count();
 }
 
 /**
  * Clean up expired sessions.
  */
-function cleanupExpiredSessions(): void {
-    const now = Date.now();
-    let cleaned = 0;
-
-    for (const [sessionId, session] of sessions.entries()) {
-        if (now > session.data.expiresAt) {
-            sessions.delete(sessionId);
-            cleaned++;
+async function cleanupExpiredSessions(): Promise<void> {
+    try {
+        const cleaned = await store.cleanup();
+        if (cleaned > 0) {
+            log.info('cleaned up expired sessions', { count: cleaned });
         }
-    }
-
-    if (cleaned > 0) {
-        console.log(`[session] cleaned up ${cleaned} expired sessions`);
+    } catch (error) {
+        log.error('cleanup failed', { error });
     }
 }
 
 /**
- * Destroy all sessions (for graceful shutdown).
+ * Close the session store (for graceful shutdown).
  */
-export function destroyAllSessions(): void {
-    const count = sessions.size;
-    sessions.clear();
-    console.log(`[session] destroyed ${count} sessions`);
+export async function closeSessionStore(): Promise<void> {
+    const count = await store.count();
+    await store.close();
+    log.info('closed session store', { store: config.SESSION_STORE, count });
 }
 
 // start janitor
@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { appendFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { SessionData, SessionStore } from '../sessionStore.js';
+import { createStorageKey, loadStorageKey, openString, sealString, StorageKey } from '../../utils/encryption.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('session');
+
+/**
+ * append-only log, one json record per line:
+ *
+ *   { "t": "key", "kid": "...", "salt": "..." }   always the first line
+ *   { "t": "set", "id": "<sha256>", "d": "<sealed session>" }
+ *   { "t": "del", "id": "<sha256>" }
+ *
+ * ids are hashed so the file can't be used to hijack sessions, and the
+ * session data (uri included) is sealed with a pbkdf2-derived key.
+ * the log is compacted on startup, shutdown and when it gets mostly dead.
+ */
+
+type LogRecord =
+    | { t: 'key'; kid: string; salt: string }
+    | { t: 'set'; id: string; d: string }
+    | { t: 'del'; id: string };
+
+const LOG_FILE = 'sessions.log';
+const COMPACT_MIN_RECORDS = 100;
+
+function hashId(sessionId: string): string {
+    return createHash('sha256').update(sessionId).digest('hex');
+}
+
+export class FileSessionStore implements SessionStore {
+    private path: string;
+    private key: StorageKey;
+    private sessions = new Map<string, SessionData>();
+    private records = 0;
+    // serialises writes so appends and compactions never interleave
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(dir: string) {
+        mkdirSync(dir, { recursive: true, mode: 0o700 });
+        this.path = join(dir, LOG_FILE);
+        this.key = this.load();
+
+        // start from a clean file, re-encrypted with the current secret if it rotated
+        this.enqueue(() => this.compact()).catch(() => {
+            // already logged by enqueue
+        });
+    }
+
+    async create(sessionId: string, data: SessionData): Promise<void> {
+        const id = hashId(sessionId);
+        this.sessions.set(id, data);
+        await this.append({ t: 'set', id, d: sealString(JSON.stringify(data), this.key) });
+    }
+
+    async get(sessionId: string): Promise<SessionData | null> {
+        const id = hashId(sessionId);
+        const session = this.sessions.get(id);
+
+        if (!session) {
+            return null;
+        }
+
+        // check expiry
+        if (Date.now() > session.expiresAt) {
+            await this.remove(id);
+            return null;
+        }
+
+        return session;
+    }
+
+    async update(sessionId: string, updates: Partial<Omit<SessionData, 'createdAt'>>): Promise<boolean> {
+        const id = hashId(sessionId);
+        const session = this.sessions.get(id);
+
+        if (!session) {
+            return false;
+        }
+
+        if (Date.now() > session.expiresAt) {
+            await this.remove(id);
+            return false;
+        }
+
+        const data = { ...session, ...updates };
+        this.sessions.set(id, data);
+        await this.append({ t: 'set', id, d: sealString(JSON.stringify(data), this.key) });
+
+        return true;
+    }
+
+    async destroy(sessionId: string): Promise<boolean> {
+        return this.remove(hashId(sessionId));
+    }
+
+    async count(): Promise<number> {
+        return this.sessions.size;
+    }
+
+    async cleanup(): Promise<number> {
+        const now = Date.now();
+        let cleaned = 0;
+
+        for (const [id, session] of this.sessions.entries()) {
+            if (now > session.expiresAt) {
+                this.sessions.delete(id);
+                cleaned++;
+            }
+        }
+
+        // expired entries are simply left out of the next compaction
+        if (cleaned > 0 || this.records > Math.max(COMPACT_MIN_RECORDS, this.sessions.size * 2)) {
+            await this.enqueue(() => this.compact());
+        }
+
+        return cleaned;
+    }
+
+    async close(): Promise<void> {
+        await this.enqueue(() => this.compact());
+    }
+
+    private async remove(id: string): Promise<boolean> {
+        if (!this.sessions.delete(id)) {
+            return false;
+        }
+
+        await this.append({ t: 'del', id });
+        return true;
+    }
+
+    /**
+     * replay the log into memory. returns the key new records are sealed with.
+     */
+    private load(): StorageKey {
+        if (!existsSync(this.path)) {
+            return createStorageKey();
+        }
+
+        const lines = readFileSync(this.path, 'utf8').split('\n').filter(Boolean);
+        let fileKey: StorageKey | null = null;
+        let unreadable = 0;
+
+        for (const line of lines) {
+            let record: LogRecord;
+            try {
+                record = JSON.parse(line);
+            } catch {
+                // torn write from a crash, skip it
+                unreadable++;
+                continue;
+            }
+
+            if (record.t === 'key') {
+                fileKey = loadStorageKey(record.kid, record.salt);
+            } else if (record.t === 'set') {
+                const plain = fileKey ? openString(record.d, fileKey) : null;
+                if (!plain) {
+                    unreadable++;
+                    continue;
+                }
+                this.sessions.set(record.id, JSON.parse(plain) as SessionData);
+            } else if (record.t === 'del') {
+                this.sessions.delete(record.id);
+            }
+        }
+
+        const now = Date.now();
+        for (const [id, session] of this.sessions.entries()) {
+            if (now > session.expiresAt) {
+                this.sessions.delete(id);
+            }
+        }
+
+        if (unreadable > 0) {
+            log.warn('skipped unreadable records (secret rotated out or torn write)', { count: unreadable, path: this.path });
+        }
+
+        log.info('restored sessions', { count: this.sessions.size, path: this.path });
+
+        return createStorageKey();
+    }
+
+    private append(record: LogRecord): Promise<void> {
+        return this.enqueue(async () => {
+            await appendFile(this.path, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+            this.records++;
+        });
+    }
+
+    /**
+     * rewrite the log with only live sessions. write + rename so a crash
+     * mid-way leaves the old file intact.
+     */
+    private async compact(): Promise<void> {
+        const lines: string[] = [JSON.stringify({ t: 'key', kid: this.key.kid, salt: this.key.salt })];
+
+        for (const [id, data] of this.sessions.entries()) {
+            lines.push(JSON.stringify({ t: 'set', id, d: sealString(JSON.stringify(data), this.key) }));
+        }
+
+        const tmpPath = `${this.path}.tmp`;
+        await writeFile(tmpPath, `${lines.join('\n')}\n`, { mode: 0o600 });
+        await rename(tmpPath, this.path);
+        this.records = lines.length;
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        const run = this.writes.then(task);
+        // keep the chain alive even if one write fails
+        this.writes = run.catch((error) => {
+            log.error('write failed', { error });
+        });
+        return run;
+    }
+}
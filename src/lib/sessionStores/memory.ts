@@ -0,0 +1,87 @@
+import type { SessionData, SessionStore } from '../sessionStore.js';
+
+interface StoredSession {
+    data: SessionData;
+    lastAccessed: number;
+}
+
+/**
+ * native Map. nothing ever touches disk, a restart logs everyone out.
+ */
+export class MemorySessionStore implements SessionStore {
+    private sessions = new Map<string, StoredSession>();
+
+    async create(sessionId: string, data: SessionData): Promise<void> {
+        this.sessions.set(sessionId, {
+            data,
+            lastAccessed: Date.now(),
+        });
+    }
+
+    async get(sessionId: string): Promise<SessionData | null> {
+        const session = this.sessions.get(sessionId);
+
+        if (!session) {
+            return null;
+        }
+
+        const now = Date.now();
+
+        // check expiry
+        if (now > session.data.expiresAt) {
+            this.sessions.delete(sessionId);
+            return null;
+        }
+
+        // Update last accessed time
+        session.lastAccessed = now;
+
+        return session.data;
+    }
+
+    async update(sessionId: string, updates: Partial<Omit<SessionData, 'createdAt'>>): Promise<boolean> {
+        const session = this.sessions.get(sessionId);
+
+        if (!session) {
+            return false;
+        }
+
+        const now = Date.now();
+
+        if (now > session.data.expiresAt) {
+            this.sessions.delete(sessionId);
+            return false;
+        }
+
+        session.data = { ...session.data, ...updates };
+        session.lastAccessed = now;
+
+        return true;
+    }
+
+    async destroy(sessionId: string): Promise<boolean> {
+        return this.sessions.delete(sessionId);
+    }
+
+    async count(): Promise<number> {
+        return this.sessions.size;
+    }
+
+    async cleanup(): Promise<number> {
+        const now = Date.now();
+        let cleaned = 0;
+
+        for (const [sessionId, session] of this.sessions.entries()) {
+            if (now > session.data.expiresAt) {
+                this.sessions.delete(sessionId);
+                cleaned++;
+            }
+        }
+
+        return cleaned;
+    }
+
+    async close(): Promise<void> {
+        this.sessions.clear();
+    }
+}
@@ -0,0 +1,122 @@
+import { Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { AuthenticatedRequest } from './auth.js';
+import { QUERY_METHODS, requestNamespace } from './namespace.js';
+import { AuditOutcome, writeAuditEntry } from '../lib/audit.js';
+import { parseEjson } from '../utils/ejson.js';
+import { redactShape } from '../utils/redact.js';
+import { maskUri } from '../utils/uri.js';
+
+// request fields whose shape (never their values) goes in the audit log
+const SHAPE_FIELDS = ['filter', 'update', 'pipeline', 'sort', 'projection'];
+
+// count fields routes report in `data`
+const AFFECTED_FIELDS = [
+  'insertedCount',
+  'matchedCount',
+  'modifiedCount',
+  'deletedCount',
+  'upsertedCount',
+  'failedCount',
+  'restoredCount',
+  'inserted',
+  'upserted',
+  'matched',
+  'modified',
+  'failed',
+];
+
+const MAX_ERROR_LENGTH = 200;
+
+export function auditSessionHash(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex');
+}
+
+// read from wherever the route reads them, like the namespace
+function requestShape(req: AuthenticatedRequest): Record<string, unknown> | null {
+  const shape: Record<string, unknown> = {};
+  const fromQuery = QUERY_METHODS.has(req.method);
+
+  for (const field of SHAPE_FIELDS) {
+    if (fromQuery) {
+      const value = req.query[field];
+      if (typeof value === 'string') {
+        const parsed = parseEjson(value);
+        shape[field] = parsed ? redactShape(parsed) : '<unparsable>';
+      }
+    } else if (req.body?.[field] !== undefined) {
+      shape[field] = redactShape(req.body[field]);
+    }
+  }
+
+  return Object.keys(shape).length > 0 ? shape : null;
+}
+
+function affectedCounts(body: unknown): Record<string, number> | null {
+  const data = (body as { data?: unknown } | undefined)?.data;
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const counts: Record<string, number> = {};
+  for (const field of AFFECTED_FIELDS) {
+    const value = (data as Record<string, unknown>)[field];
+    if (typeof value === 'number') {
+      counts[field] = value;
+    }
+  }
+
+  return Object.keys(counts).length > 0 ? counts : null;
+}
+
+function outcomeFor(status: number): AuditOutcome {
+  if (status < 400) return 'success';
+  if (status === 401 || status === 403) return 'denied';
+  return 'error';
+}
+
+/**
+ * one audit entry per /api request, written once the response is done.
+ * runs after the session is resolved so denied requests are recorded too.
+ */
+export function auditMiddleware(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  const startedAt = performance.now();
+  // relative to /api, and req.url moves on once the routers are done
+  const path = req.path;
+  let responseBody: unknown;
+
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    responseBody = body;
+    return json(body);
+  };
+
+  res.on('finish', () => {
+    const rawUri = req.session?.uri ?? (path === '/connect' && typeof req.body?.uri === 'string' ? req.body.uri : null);
+    const error = (responseBody as { error?: unknown } | undefined)?.error;
+    const namespace = requestNamespace(req);
+
+    writeAuditEntry({
+      at: new Date().toISOString(),
+      session: req.sessionId ? auditSessionHash(req.sessionId) : null,
+      maskedUri: rawUri ? maskUri(rawUri) : null,
+      method: req.method,
+      // the route pattern keeps ids out of the log
+      route: req.route?.path ?? path,
+      status: res.statusCode,
+      outcome: outcomeFor(res.statusCode),
+      durationMs: Math.round(performance.now() - startedAt),
+      database: namespace.database ?? null,
+      collection: namespace.collection ?? null,
+      shape: requestShape(req),
+      affected: affectedCounts(responseBody),
+      error: typeof error === 'string' ? error.slice(0, MAX_ERROR_LENGTH) : null,
+    });
+  });
+
+  next();
+}
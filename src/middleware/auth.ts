@@ -1,23 +1,71 @@
 import { Request, Response, NextFunction } from 'express';
-import { getSession, SessionData } from '../lib/sessionStore.js';
+import { SessionData } from '../lib/sessionStore.js';
+import { resolveSession, ResolvedSession } from '../lib/sessionManager.js';
+import { API_TOKEN_PREFIX, resolveApiToken } from '../lib/apiTokens.js';
 
 export interface AuthenticatedRequest extends Request {
   session?: SessionData;
   sessionId?: string;
+  // set when the request came with an api token instead of the cookie
+  apiTokenId?: string;
 }
 
 /**
- * checks if user has a valid session cookie.
+ * the Authorization: Bearer value, if any
+ */
+export function bearerToken(req: Request): string | null {
+  const header = req.get('authorization');
+  return header?.startsWith('Bearer ') ? header.slice(7) : null;
+}
+
+/**
+ * an api token in the Authorization header. other bearer tokens
+ * (AUDIT_READ_TOKEN, METRICS_TOKEN) don't count.
+ */
+export function apiTokenFrom(req: Request): string | null {
+  const token = bearerToken(req);
+  return token?.startsWith(API_TOKEN_PREFIX) ? token : null;
+}
+
+/**
+ * the api token if one was sent, the session cookie otherwise. a bad token
+ * never falls back to the cookie.
+ */
+async function resolveRequest(req: AuthenticatedRequest): Promise<ResolvedSession | null> {
+  const apiToken = apiTokenFrom(req);
+
+  if (apiToken) {
+    const resolved = resolveApiToken(apiToken);
+    if (resolved) {
+      req.apiTokenId = resolved.tokenId;
+    }
+    return resolved;
+  }
+
+  const cookieName = process.env.NODE_ENV === 'production' ? 'byselfdb_session' : 'byselfdb_session_dev';
+  const sessionId = req.cookies[cookieName];
+
+  return sessionId ? resolveSession(sessionId) : null;
+}
+
+/**
+ * checks if user has a valid session cookie or api token.
  */
 export async function authMiddleware(
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> {
+  // already resolved for this request
+  if (req.session && req.sessionId) {
+    next();
+    return;
+  }
+
   const cookieName = process.env.NODE_ENV === 'production' ? 'byselfdb_session' : 'byselfdb_session_dev';
-  const sessionId = req.cookies[cookieName];
+  const usesToken = apiTokenFrom(req) !== null;
 
-  if (!sessionId) {
+  if (!usesToken && !req.cookies[cookieName]) {
     res.status(401).json({
       success: false,
       error: 'No session found. Please connect to a database first.',
@@ -25,38 +73,34 @@ export async function authMiddleware(
     return;
   }
 
-  const sessionData = getSession(sessionId);
+  const resolved = await resolveRequest(req);
 
-  if (!sessionData) {
+  if (!resolved) {
     res.status(401).json({
       success: false,
-      error: 'Invalid or expired session. Please reconnect.',
+      error: usesToken ? 'Invalid, expired or revoked API token.' : 'Invalid or expired session. Please reconnect.',
     });
     return;
   }
 
-  req.session = sessionData;
-  req.sessionId = sessionId;
+  req.session = resolved.session;
+  req.sessionId = resolved.sessionId;
   next();
 }
 
 /**
  * optional auth. doesn't block.
  */
-export function optionalAuthMiddleware(
+export async function optionalAuthMiddleware(
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
-): void {
-  const cookieName = process.env.NODE_ENV === 'production' ? 'byselfdb_session' : 'byselfdb_session_dev';
-  const sessionId = req.cookies[cookieName];
+): Promise<void> {
+  const resolved = await resolveRequest(req);
 
-  if (sessionId) {
-    const sessionData = getSession(sessionId);
-    if (sessionData) {
-      req.session = sessionData;
-      req.sessionId = sessionId;
-    }
+  if (resolved) {
+    req.session = resolved.session;
+    req.sessionId = resolved.sessionId;
   }
 
   next();
@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/index.js';
+import { CSRF_HEADER, verifyCsrfToken } from '../lib/csrf.js';
+import { AuthenticatedRequest, apiTokenFrom } from './auth.js';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// starts a new session, so there's no token yet. the origin check still applies.
+const TOKENLESS_ROUTES = new Set(['/connect']);
+
+function originOf(value: string): string | null {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * did the request come from a page we serve or from CORS_ORIGIN? browsers send
+ * Origin (or at least Referer) on cross-site writes. scripts send neither and pass.
+ */
+function isAllowedOrigin(req: Request): boolean {
+  const header = req.get('origin') ?? req.get('referer');
+  if (header === undefined) {
+    return true;
+  }
+
+  // "null" (sandboxed frames, some redirects) never matches
+  const origin = originOf(header);
+  if (!origin) {
+    return false;
+  }
+
+  const allowed = Array.isArray(config.CORS_ORIGIN) ? config.CORS_ORIGIN : [config.CORS_ORIGIN];
+  return allowed.includes('*') || allowed.includes(origin) || origin === `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * csrf protection for cookie sessions. every mutating /api request needs an
+ * allowed Origin / Referer, and one from a session also needs its X-CSRF-Token.
+ * api tokens aren't sent by browsers on their own, so bearer requests skip both.
+ */
+export function csrfGuard(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (SAFE_METHODS.has(req.method) || apiTokenFrom(req)) {
+    next();
+    return;
+  }
+
+  if (!isAllowedOrigin(req)) {
+    res.status(403).json({
+      success: false,
+      error: 'Cross-site request blocked: origin not allowed',
+      code: 'CSRF_FAILED',
+    });
+    return;
+  }
+
+  if (req.sessionId && !TOKENLESS_ROUTES.has(req.path)) {
+    const cookieName = process.env.NODE_ENV === 'production' ? 'byselfdb_session' : 'byselfdb_session_dev';
+    const token = req.get(CSRF_HEADER);
+
+    if (!token || !verifyCsrfToken(token, req.cookies[cookieName])) {
+      res.status(403).json({
+        success: false,
+        error: `Missing or invalid CSRF token. Send the csrfToken from /connect or /status in the ${CSRF_HEADER} header.`,
+        code: 'CSRF_FAILED',
+      });
+      return;
+    }
+  }
+
+  next();
+}
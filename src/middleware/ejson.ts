@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { fromEjson, requestedEjsonMode, toEjson } from '../utils/ejson.js';
+
+/**
+ * decodes extended json in request bodies and, when asked for,
+ * encodes responses as extended json. see utils/ejson.ts.
+ */
+export function ejsonMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (req.body && typeof req.body === 'object') {
+    try {
+      req.body = fromEjson(req.body);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid Extended JSON: ${error instanceof Error ? error.message : 'malformed value'}`,
+      });
+      return;
+    }
+  }
+
+  const mode = requestedEjsonMode(req.query.format, req.get('accept'));
+
+  if (mode) {
+    const json = res.json.bind(res);
+    res.json = (body?: unknown) => json(toEjson(body, mode));
+  }
+
+  next();
+}
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration, httpRequests } from '../lib/metrics.js';
+
+/**
+ * count and time every request by its route pattern. requests that never
+ * reach a route (404s, rate limited, denied by a guard) share one label
+ * so ids and junk paths can't blow up the series count.
+ */
+export function metricsMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const startedAt = performance.now();
+
+  res.on('finish', () => {
+    const labels = {
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched',
+      status: String(res.statusCode),
+    };
+
+    httpRequests.inc(labels);
+    httpRequestDuration.observe(labels, (performance.now() - startedAt) / 1000);
+  });
+
+  next();
+}
@@ -0,0 +1,60 @@
+import { Request } from 'express';
+
+// these read their namespace from the query string, everything else from the body
+export const QUERY_METHODS = new Set(['GET', 'HEAD', 'DELETE']);
+
+const NAMESPACE_KEYS = ['database', 'databaseName', 'collection'];
+
+export interface RequestNamespace {
+  database?: string;
+  collection?: string;
+}
+
+type Fields = Record<string, unknown> | undefined;
+
+function usedFields(req: Request): Fields {
+  return (QUERY_METHODS.has(req.method) ? req.query : req.body) as Fields;
+}
+
+function ignoredFields(req: Request): Fields {
+  return (QUERY_METHODS.has(req.method) ? req.body : req.query) as Fields;
+}
+
+function stringField(fields: Fields, key: string): string | undefined {
+  const value = fields?.[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * the namespace a route acts on, read from the same place its schema reads
+ * it: the query string for GET / HEAD / DELETE, the body otherwise.
+ */
+export function requestNamespace(req: Request): RequestNamespace {
+  const fields = usedFields(req);
+  return {
+    database: stringField(fields, 'database') ?? stringField(fields, 'databaseName'),
+    collection: stringField(fields, 'collection'),
+  };
+}
+
+/**
+ * namespace keys that disagree: one sent where the route doesn't read it with
+ * a different value than where it does, or database and databaseName naming
+ * different databases (routes read one or the other). such requests are
+ * refused rather than guessed at. returns why, or null.
+ */
+export function namespaceConflict(req: Request): string | null {
+  const used = usedFields(req);
+  const ignored = ignoredFields(req);
+
+  for (const key of NAMESPACE_KEYS) {
+    if (ignored?.[key] !== undefined && ignored[key] !== used?.[key]) {
+      return `${key} differs between the query string and the body`;
+    }
+  }
+
+  if (used?.database !== undefined && used?.databaseName !== undefined && used.database !== used.databaseName) {
+    return 'database and databaseName differ';
+  }
+  return null;
+}
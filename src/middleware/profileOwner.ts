@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+
+/**
+ * there are no user accounts, so saved profiles belong to a browser:
+ * a long-lived random cookie, separate from the session.
+ */
+
+const OWNER_ID_LENGTH = 32;
+const OWNER_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000; // 1y
+
+function ownerCookieName(): string {
+  return process.env.NODE_ENV === 'production' ? 'byselfdb_owner' : 'byselfdb_owner_dev';
+}
+
+/**
+ * Get the profile owner id from the request, if any.
+ */
+export function getProfileOwner(req: Request): string | null {
+  const ownerId = req.cookies[ownerCookieName()];
+  return typeof ownerId === 'string' && /^[a-f0-9]{64}$/.test(ownerId) ? ownerId : null;
+}
+
+/**
+ * Get the profile owner id, issuing a new owner cookie if there isn't one.
+ */
+export function ensureProfileOwner(req: Request, res: Response): string {
+  const existing = getProfileOwner(req);
+  if (existing) {
+    return existing;
+  }
+
+  const ownerId = randomBytes(OWNER_ID_LENGTH).toString('hex');
+  const isProduction = process.env.NODE_ENV === 'production';
+
+  res.cookie(ownerCookieName(), ownerId, {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: isProduction ? 'strict' : 'lax',
+    maxAge: OWNER_COOKIE_MAX_AGE_MS,
+    path: '/',
+  });
+
+  return ownerId;
+}
@@ -1,4 +1,22 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator, Options } from 'express-rate-limit';
+import { Request, Response } from 'express';
+import { rateLimitRejections } from '../lib/metrics.js';
+import { findApiToken } from '../lib/apiTokens.js';
+import { apiTokenFrom } from './auth.js';
+
+// default response, counted per limiter
+function rejectWith(limiter: string) {
+    return (req: Request, res: Response, next: unknown, options: Options) => {
+        rateLimitRejections.inc({ limiter });
+        res.status(options.statusCode).json(options.message);
+    };
+}
+
+// id of a valid api token on the request. bad tokens stay on the ip buckets.
+function apiTokenId(req: Request): string | null {
+    const value = apiTokenFrom(req);
+    return value ? findApiToken(value)?.id ?? null : null;
+}
 
 // prevent brute force (5/min)
 export const connectRateLimiter = rateLimit({
@@ -10,6 +28,7 @@ export const connectRateLimiter = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    handler: rejectWith('connect'),
 });
 
 // chill out (100/min)
@@ -22,9 +41,26 @@ export const apiRateLimiter = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    handler: rejectWith('api'),
+    skip: req => apiTokenId(req) !== null,
 });
 
-// slow down writes (30/min)
+// api tokens get a bucket each instead of sharing their ip's (300/min)
+export const apiTokenRateLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: 300,
+    message: {
+        success: false,
+        error: 'Too many requests for this API token. Please slow down.',
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: rejectWith('token'),
+    skip: req => apiTokenId(req) === null,
+    keyGenerator: req => `token:${apiTokenId(req)}`,
+});
+
+// slow down writes (30/min), per ip or per api token
 export const mutationRateLimiter = rateLimit({
     windowMs: 60 * 1000,
     max: 30,
@@ -34,4 +70,9 @@ export const mutationRateLimiter = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    handler: rejectWith('mutation'),
+    keyGenerator: (req) => {
+        const tokenId = apiTokenId(req);
+        return tokenId ? `token:${tokenId}` : ipKeyGenerator(req.ip ?? '');
+    },
 });
@@ -0,0 +1,61 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { findWriteStage } from '../utils/sanitize.js';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// non-GET routes that never write to the user's database
+const NON_MUTATING_ROUTES = new Set([
+  '/connect',
+  '/disconnect',
+  '/switch-database',
+]);
+
+// local state only, never reaches the user's database
+const NON_MUTATING_PREFIXES = [
+  '/connections',
+  '/jobs',
+  '/tokens',
+];
+
+/**
+ * does this request change data on the server?
+ * deny by default: every new non-GET route counts as a write until listed above.
+ */
+export function isMutatingRequest(req: AuthenticatedRequest): boolean {
+  if (SAFE_METHODS.has(req.method)) {
+    return false;
+  }
+
+  if (NON_MUTATING_ROUTES.has(req.path) || NON_MUTATING_PREFIXES.some(prefix => req.path.startsWith(prefix))) {
+    return false;
+  }
+
+  // aggregations only write through $out / $merge
+  if (req.path === '/aggregate') {
+    const pipeline = req.body?.pipeline;
+    return Array.isArray(pipeline) && findWriteStage(pipeline) !== null;
+  }
+
+  return true;
+}
+
+/**
+ * blocks every mutating route for read-only sessions.
+ * runs for every /api route, after the session is resolved.
+ */
+export function readOnlyGuard(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (req.session?.readOnly && isMutatingRequest(req)) {
+    res.status(403).json({
+      success: false,
+      error: 'Read-only mode: this operation is not allowed',
+    });
+    return;
+  }
+
+  next();
+}
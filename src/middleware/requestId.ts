@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { createLogger, runWithRequestId } from '../lib/logger.js';
+
+const log = createLogger('http');
+
+// ids from a proxy or the client are kept if they look sane
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * give every request an id: echoed in X-Request-Id, added to error bodies
+ * so users can report it, and logged with the request once it's done.
+ * goes first so even body parser errors get one.
+ */
+export function requestIdMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const incoming = req.get('x-request-id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const startedAt = performance.now();
+  // without the query string, filters don't belong in the log
+  const path = req.originalUrl.split('?')[0];
+
+  res.locals.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    if (body && typeof body === 'object' && (body as { success?: unknown }).success === false) {
+      return json({ ...body, requestId });
+    }
+    return json(body);
+  };
+
+  res.on('finish', () => {
+    log.info('request', {
+      requestId,
+      method: req.method,
+      path,
+      status: res.statusCode,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+  });
+
+  runWithRequestId(requestId, next);
+}
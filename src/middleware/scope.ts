@@ -0,0 +1,61 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { namespaceConflict, requestNamespace } from './namespace.js';
+import { isDatabaseInScope, isNamespaceInScope, pipelineNamespaces } from '../utils/scope.js';
+
+/**
+ * rejects requests for namespaces outside the session's allowedScope.
+ * runs for every /api route, after the session is resolved.
+ */
+export function scopeGuard(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.session) {
+    next();
+    return;
+  }
+
+  // the namespace checked has to be the one the route uses
+  const conflict = namespaceConflict(req);
+  if (conflict) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid request: ${conflict}`,
+      code: 'INVALID_REQUEST',
+    });
+    return;
+  }
+
+  const scope = req.session.allowedScope;
+  const { database, collection } = requestNamespace(req);
+
+  const deny = (namespace: string) => {
+    res.status(403).json({
+      success: false,
+      error: `Access to "${namespace}" is outside of this session's scope`,
+    });
+  };
+
+  if (database && !isDatabaseInScope(scope, database)) {
+    return deny(database);
+  }
+
+  if (database && collection && !isNamespaceInScope(scope, database, collection)) {
+    return deny(`${database}.${collection}`);
+  }
+
+  // lookups and unions can reach other collections. only routes with a body take a pipeline.
+  const pipeline = req.body?.pipeline;
+  if (database && Array.isArray(pipeline)) {
+    for (const target of pipelineNamespaces(pipeline)) {
+      const targetDb = target.database ?? database;
+      if (!isNamespaceInScope(scope, targetDb, target.collection)) {
+        return deny(`${targetDb}.${target.collection}`);
+      }
+    }
+  }
+
+  next();
+}
@@ -0,0 +1,55 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { QUERY_METHODS } from './namespace.js';
+
+// routes that act on one database. /history and /audit only filter by it, so they're left alone.
+const DATABASE_PREFIXES = [
+  '/documents',
+  '/collections',
+  '/collection-stats',
+  '/schema',
+  '/export',
+  '/indexes',
+  '/aggregate',
+  '/import',
+  '/validation',
+  '/slow-queries',
+  '/profiling',
+];
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === '';
+}
+
+/**
+ * fills in the session's current database when a request leaves
+ * `database` out. runs before scopeGuard so the default is checked too.
+ */
+export function sessionDatabase(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.session || !DATABASE_PREFIXES.some(prefix => req.path.startsWith(prefix))) {
+    next();
+    return;
+  }
+
+  const database = req.session.databaseName;
+
+  if (QUERY_METHODS.has(req.method)) {
+    if (isMissing(req.query.database)) {
+      // req.query is a getter in express 5, shadow it
+      Object.defineProperty(req, 'query', {
+        value: { ...req.query, database },
+        configurable: true,
+        enumerable: true,
+        writable: true,
+      });
+    }
+  } else if (req.body && typeof req.body === 'object' && !Array.isArray(req.body) && isMissing(req.body.database)) {
+    req.body.database = database;
+  }
+
+  next();
+}
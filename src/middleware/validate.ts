@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import { Input, RouteSchema } from '../schemas/common.js';
+
+export interface ValidationIssue {
+  location: 'params' | 'query' | 'body';
+  // dotted path to the field, '' for the part as a whole
+  path: string;
+  message: string;
+}
+
+const PARTS = ['params', 'query', 'body'] as const;
+
+function toIssues(location: ValidationIssue['location'], error: ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    location,
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+function describe(issues: ValidationIssue[]): string {
+  const [first] = issues;
+  const text = first.path ? `${first.path}: ${first.message}` : first.message;
+  return issues.length > 1 ? `${text} (and ${issues.length - 1} more)` : text;
+}
+
+/**
+ * checks a request against its route schema. every problem is reported in
+ * one 400; a valid request carries on with the parsed values (defaults
+ * filled in, query numbers coerced). params are checked but left as they are.
+ */
+export function validate(schema: RouteSchema) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const issues: ValidationIssue[] = [];
+    const parsed: { query?: unknown; body?: unknown } = {};
+
+    for (const part of PARTS) {
+      const partSchema = schema[part];
+      if (!partSchema) continue;
+
+      // no body at all is the same as an empty one
+      const result = partSchema.safeParse(part === 'body' ? req.body ?? {} : req[part]);
+      if (result.success) {
+        if (part !== 'params') parsed[part] = result.data;
+      } else {
+        issues.push(...toIssues(part, result.error));
+      }
+    }
+
+    if (issues.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid request: ${describe(issues)}`,
+        code: 'INVALID_REQUEST',
+        details: { issues },
+      });
+      return;
+    }
+
+    if ('query' in parsed) {
+      // req.query is a getter in express 5, shadow it
+      Object.defineProperty(req, 'query', {
+        value: parsed.query,
+        configurable: true,
+        enumerable: true,
+        writable: true,
+      });
+    }
+    if ('body' in parsed) {
+      req.body = parsed.body;
+    }
+
+    next();
+  };
+}
+
+/**
+ * the parsed query and body of a route that went through validate()
+ */
+export function validated<S extends RouteSchema>(req: Request, _schema: S): { query: Input<S, 'query'>; body: Input<S, 'body'> } {
+  return {
+    query: req.query as unknown as Input<S, 'query'>,
+    body: req.body as Input<S, 'body'>,
+  };
+}
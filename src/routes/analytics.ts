@@ -1,10 +1,125 @@
 import { Router, Response } from 'express';
+import { Document } from 'mongodb';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
-import { getConnectionFromSession } from '../lib/mongodb.js';
-import { sanitizeFilter } from '../utils/sanitize.js';
+import { getConnectionFromSession, holdClient } from '../lib/mongodb.js';
+import { config } from '../config/index.js';
+import { sanitizeFilter, sanitizeProjection, sanitizeSort, findWriteStage } from '../utils/sanitize.js';
+import { parseEjson } from '../utils/ejson.js';
+import {
+    BatchRow,
+    createImportJob,
+    getImportJob,
+    ImportRowError,
+    importJobSummary,
+    importState,
+    runImport,
+    writeImportBatch,
+} from '../lib/import.js';
+import { enqueueJob } from '../lib/jobs.js';
+import { journalOwner, recordChange } from '../lib/journal.js';
+import { createExportWriter, csvColumns, EXPORT_CONTENT_TYPES, EXPORT_EXTENSIONS, ExportFormat } from '../lib/export.js';
+import { pipeline } from 'stream/promises';
+import { Readable, Transform } from 'stream';
+import busboy from 'busboy';
+import { createWriteStream } from 'fs';
+import { createGzip } from 'zlib';
+import { sendMongoError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { validate, validated } from '../middleware/validate.js';
+import { acceptedJob, wantsAsync } from './jobs.js';
+import {
+    aggregate,
+    createIndex,
+    dropIndex,
+    exportDocuments,
+    getValidation,
+    importDocuments,
+    importJobProgress,
+    listIndexes,
+    schemaAnalysis,
+    setProfiling,
+    setValidation,
+    slowQueries,
+    startImportJob,
+    uploadImportFile,
+} from '../schemas/analytics.js';
+
+const log = createLogger('analytics');
 
 const router = Router();
 
+/**
+ * field types and frequency over a stream of documents
+ */
+function createSchemaAnalyzer() {
+    const fieldAnalysis: Record<string, {
+        types: Record<string, number>;
+        count: number;
+        examples: unknown[];
+    }> = {};
+
+    function analyzeValue(key: string, value: unknown, prefix = '') {
+        const fullKey = prefix ? `${prefix}.${key}` : key;
+
+        if (!fieldAnalysis[fullKey]) {
+            fieldAnalysis[fullKey] = { types: {}, count: 0, examples: [] };
+        }
+
+        fieldAnalysis[fullKey].count++;
+
+        let type = 'null';
+        if (value === null) {
+            type = 'null';
+        } else if (Array.isArray(value)) {
+            type = 'array';
+        } else if (value instanceof Date) {
+            type = 'date';
+        } else if (typeof value === 'object' && value.constructor.name === 'ObjectId') {
+            type = 'ObjectId';
+        } else if (typeof value === 'object') {
+            type = 'object';
+            // Recurse into nested objects
+            Object.entries(value as Record<string, unknown>).forEach(([k, v]) => {
+                analyzeValue(k, v, fullKey);
+            });
+        } else {
+            type = typeof value;
+        }
+
+        fieldAnalysis[fullKey].types[type] = (fieldAnalysis[fullKey].types[type] || 0) + 1;
+
+        // Store up to 3 examples
+        if (fieldAnalysis[fullKey].examples.length < 3 && value !== null && value !== undefined) {
+            const example = typeof value === 'object' ? '[Object]' : value;
+            if (!fieldAnalysis[fullKey].examples.includes(example)) {
+                fieldAnalysis[fullKey].examples.push(example);
+            }
+        }
+    }
+
+    return {
+        add(doc: Document) {
+            Object.entries(doc).forEach(([key, value]) => {
+                analyzeValue(key, value);
+            });
+        },
+
+        // Convert to array and calculate percentages
+        fields(sampleSize: number) {
+            return Object.entries(fieldAnalysis).map(([field, analysis]) => ({
+                field,
+                types: Object.entries(analysis.types).map(([type, count]) => ({
+                    type,
+                    count,
+                    percentage: Math.round((count / sampleSize) * 100),
+                })),
+                presence: Math.round((analysis.count / sampleSize) * 100),
+                examples: analysis.examples,
+            })).sort((a, b) => b.presence - a.presence);
+        },
+    };
+}
+
 // get server stats (memory, connections, ops)
 router.get('/server-stats', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
     if (!req.session) {
@@ -14,7 +129,7 @@ router.get('/server-stats', authMiddleware, async (req: AuthenticatedRequest, re
         });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
 
     if (!client) {
         return res.status(401).json({
@@ -68,45 +183,15 @@ router.get('/server-stats', authMiddleware, async (req: AuthenticatedRequest, re
             },
         });
     } catch (error) {
-        const errMsg = error instanceof Error ? error.message : 'Unknown error';
-        console.error('[server-stats] error:', errMsg);
-
-        // Handle Free Tier / Shared Cluster restrictions
-        if (errMsg.includes('not authorized') || errMsg.includes('command not found') || errMsg.includes('CMD_NOT_ALLOWED')) {
-            return res.json({
-                success: true,
-                data: {
-                    host: 'Shared Cluster',
-                    version: 'Free Tier',
-                    uptime: 0,
-                    uptimeMillis: 0,
-                    connections: { current: 0, available: 0, totalCreated: 0 },
-                    memory: { resident: 0, virtual: 0, mapped: 0 },
-                    network: { bytesIn: 0, bytesOut: 0, numRequests: 0 },
-                    opcounters: { insert: 0, query: 0, update: 0, delete: 0, getmore: 0, command: 0 },
-                    restricted: true,
-                    message: 'Server stats are not available on the Free Tier (Shared Cluster). Upgrade to a dedicated cluster to view these metrics.'
-                },
-            });
-        }
-
-        return res.status(500).json({
-            success: false,
-            error: 'Failed to get server stats. You may be on a Free Tier cluster which restricts this access.',
-        });
+        log.error('server-stats failed', { error });
+        // shared tiers refuse serverStatus: RESTRICTED_TIER
+        return sendMongoError(res, error, 'Failed to get server stats');
     }
 });
 
 // schema analysis - grab sample docs and guess types
-router.get('/schema', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, collection } = req.query;
-
-    if (!database || !collection || typeof database !== 'string' || typeof collection !== 'string') {
-        return res.status(400).json({
-            success: false,
-            error: 'Database and collection names are required',
-        });
-    }
+router.get('/schema', authMiddleware, validate(schemaAnalysis), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, collection } = validated(req, schemaAnalysis).query;
 
     if (!req.session) {
         return res.status(401).json({
@@ -115,7 +200,7 @@ router.get('/schema', authMiddleware, async (req: AuthenticatedRequest, res: Res
         });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
 
     if (!client) {
         return res.status(401).json({
@@ -128,6 +213,35 @@ router.get('/schema', authMiddleware, async (req: AuthenticatedRequest, res: Res
         const db = client.db(database);
         const col = db.collection(collection);
 
+        // async: the whole collection, in a job
+        if (wantsAsync(req)) {
+            const job = enqueueJob(req.sessionId!, 'schema', `Schema analysis of ${database}.${collection}`, async ({ signal, progress }) => {
+                const analyzer = createSchemaAnalyzer();
+                const total = await col.estimatedDocumentCount();
+                let processed = 0;
+                progress(0, total);
+
+                for await (const doc of col.find({})) {
+                    signal.throwIfAborted();
+                    analyzer.add(doc);
+                    processed++;
+                    if (processed % 1000 === 0) {
+                        progress(processed);
+                    }
+                }
+                progress(processed);
+
+                return {
+                    result: {
+                        fields: processed > 0 ? analyzer.fields(processed) : [],
+                        sampleSize: processed,
+                        totalDocuments: processed,
+                    },
+                };
+            }, holdClient(client));
+            return acceptedJob(res, job);
+        }
+
         // sample up to 100 docs so we don't scan everything
         const sampleDocs = await col.aggregate([{ $sample: { size: 100 } }]).toArray();
         const totalCount = await col.countDocuments();
@@ -143,69 +257,9 @@ router.get('/schema', authMiddleware, async (req: AuthenticatedRequest, res: Res
             });
         }
 
-        // analyze field types and frequency
-        const fieldAnalysis: Record<string, {
-            types: Record<string, number>;
-            count: number;
-            examples: unknown[];
-        }> = {};
-
-        function analyzeValue(key: string, value: unknown, prefix = '') {
-            const fullKey = prefix ? `${prefix}.${key}` : key;
-
-            if (!fieldAnalysis[fullKey]) {
-                fieldAnalysis[fullKey] = { types: {}, count: 0, examples: [] };
-            }
-
-            fieldAnalysis[fullKey].count++;
-
-            let type = 'null';
-            if (value === null) {
-                type = 'null';
-            } else if (Array.isArray(value)) {
-                type = 'array';
-            } else if (value instanceof Date) {
-                type = 'date';
-            } else if (typeof value === 'object' && value.constructor.name === 'ObjectId') {
-                type = 'ObjectId';
-            } else if (typeof value === 'object') {
-                type = 'object';
-                // Recurse into nested objects
-                Object.entries(value as Record<string, unknown>).forEach(([k, v]) => {
-                    analyzeValue(k, v, fullKey);
-                });
-            } else {
-                type = typeof value;
-            }
-
-            fieldAnalysis[fullKey].types[type] = (fieldAnalysis[fullKey].types[type] || 0) + 1;
-
-            // Store up to 3 examples
-            if (fieldAnalysis[fullKey].examples.length < 3 && value !== null && value !== undefined) {
-                const example = typeof value === 'object' ? '[Object]' : value;
-                if (!fieldAnalysis[fullKey].examples.includes(example)) {
-                    fieldAnalysis[fullKey].examples.push(example);
-                }
-            }
-        }
-
-        sampleDocs.forEach(doc => {
-            Object.entries(doc).forEach(([key, value]) => {
-                analyzeValue(key, value);
-            });
-        });
-
-        // Convert to array and calculate percentages
-        const fields = Object.entries(fieldAnalysis).map(([field, analysis]) => ({
-            field,
-            types: Object.entries(analysis.types).map(([type, count]) => ({
-                type,
-                count,
-                percentage: Math.round((count / sampleDocs.length) * 100),
-            })),
-            presence: Math.round((analysis.count / sampleDocs.length) * 100),
-            examples: analysis.examples,
-        })).sort((a, b) => b.presence - a.presence);
+        const analyzer = createSchemaAnalyzer();
+        sampleDocs.forEach(doc => analyzer.add(doc));
+        const fields = analyzer.fields(sampleDocs.length);
 
         return res.json({
             success: true,
@@ -216,25 +270,44 @@ router.get('/schema', authMiddleware, async (req: AuthenticatedRequest, res: Res
             },
         });
     } catch (error) {
-        console.error('[schema] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(500).json({
+        log.error('schema failed', { error });
+        return sendMongoError(res, error, 'Failed to analyze schema');
+    }
+});
+
+// Export collection data - streamed straight from the cursor
+router.get('/export', authMiddleware, validate(exportDocuments), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, collection, format, filter, projection, sort, limit: parsedLimit, fields, gzip: compress } = validated(req, exportDocuments).query;
+
+    const parsedFilter = parseEjson(filter);
+    const filterResult = sanitizeFilter(parsedFilter);
+    if (!filterResult.valid) {
+        return res.status(400).json({
             success: false,
-            error: 'Failed to analyze schema',
+            error: `Invalid filter: ${filterResult.error}`,
         });
     }
-});
 
-// Export collection data
-router.get('/export', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, collection, format = 'json', limit = '1000' } = req.query;
+    const projectionResult = sanitizeProjection(parseEjson(projection));
+    if (!projectionResult.valid) {
+        return res.status(400).json({
+            success: false,
+            error: `Invalid projection: ${projectionResult.error}`,
+        });
+    }
 
-    if (!database || !collection || typeof database !== 'string' || typeof collection !== 'string') {
+    const sortResult = sanitizeSort(parseEjson(sort));
+    if (!sortResult.valid) {
         return res.status(400).json({
             success: false,
-            error: 'Database and collection names are required',
+            error: `Invalid sort: ${sortResult.error}`,
         });
     }
 
+    const csvFields = fields
+        ? fields.split(',').map(field => field.trim()).filter(Boolean)
+        : undefined;
+
     if (!req.session) {
         return res.status(401).json({
             success: false,
@@ -242,7 +315,7 @@ router.get('/export', authMiddleware, async (req: AuthenticatedRequest, res: Res
         });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
 
     if (!client) {
         return res.status(401).json({
@@ -251,73 +324,96 @@ router.get('/export', authMiddleware, async (req: AuthenticatedRequest, res: Res
         });
     }
 
-    try {
-        const db = client.db(database);
-        const col = db.collection(collection);
-
-        const maxLimit = Math.min(parseInt(limit as string) || 1000, 10000);
-        const documents = await col.find({}).limit(maxLimit).toArray();
+    const exportFormat: ExportFormat = format;
+    const col = client.db(database).collection(collection);
+    const openCursor = () => col
+        .find(filterResult.filter)
+        .project(projectionResult.projection)
+        .sort(sortResult.sort)
+        .limit(parsedLimit);
+    // csv without fields reads the documents twice, once for the header
+    const inferColumns = exportFormat === 'csv' && !csvFields;
+    const writerFor = async () => createExportWriter(exportFormat, inferColumns
+        ? { fields: await csvColumns(openCursor()), inferred: true }
+        : { fields: csvFields });
+
+    const fileName = `${collection}.${EXPORT_EXTENSIONS[exportFormat]}${compress ? '.gz' : ''}`;
+    const contentType = compress ? 'application/gzip' : EXPORT_CONTENT_TYPES[exportFormat];
+
+    // async: written to a job artifact, downloaded from /jobs/:id/artifact
+    if (wantsAsync(req)) {
+        const job = enqueueJob(req.sessionId!, 'export', `Export of ${database}.${collection} as ${exportFormat}`, async ({ signal, progress, artifactPath }) => {
+            // only cheap to know without a filter
+            const estimate = parsedFilter ? null : await col.estimatedDocumentCount();
+            let processed = 0;
+            progress(0, estimate !== null && parsedLimit ? Math.min(estimate, parsedLimit) : estimate);
+
+            const counter = new Transform({
+                objectMode: true,
+                transform(doc: Document, _encoding, callback) {
+                    processed++;
+                    if (processed % 1000 === 0) {
+                        progress(processed);
+                    }
+                    callback(null, doc);
+                },
+            });
 
-        if (format === 'csv') {
-            // Convert to CSV
-            if (documents.length === 0) {
-                return res.json({ success: true, data: { csv: '', count: 0 } });
+            const writer = await writerFor();
+            const cursor = openCursor();
+            try {
+                if (compress) {
+                    await pipeline(cursor.stream(), counter, writer, createGzip(), createWriteStream(artifactPath), { signal });
+                } else {
+                    await pipeline(cursor.stream(), counter, writer, createWriteStream(artifactPath), { signal });
+                }
+            } finally {
+                await cursor.close();
             }
+            progress(processed);
 
-            // Get all unique keys
-            const allKeys = new Set<string>();
-            documents.forEach(doc => {
-                Object.keys(doc).forEach(key => allKeys.add(key));
-            });
-            const headers = Array.from(allKeys);
-
-            const csvRows = [
-                headers.join(','),
-                ...documents.map(doc =>
-                    headers.map(header => {
-                        const value = doc[header];
-                        if (value === null || value === undefined) return '';
-                        if (typeof value === 'object') return JSON.stringify(value).replace(/"/g, '""');
-                        return String(value).includes(',') ? `"${value}"` : String(value);
-                    }).join(',')
-                )
-            ];
+            return {
+                result: { documents: processed },
+                artifact: { fileName, contentType },
+            };
+        }, holdClient(client));
+        return acceptedJob(res, job);
+    }
 
-            return res.json({
-                success: true,
-                data: {
-                    csv: csvRows.join('\n'),
-                    count: documents.length,
-                },
-            });
-        }
+    let writer: Transform;
+    const cursor = openCursor();
 
-        return res.json({
-            success: true,
-            data: {
-                documents,
-                count: documents.length,
-            },
-        });
+    try {
+        // surface auth / query errors as json before any bytes go out
+        writer = await writerFor();
+        await cursor.hasNext();
     } catch (error) {
-        console.error('[export] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(500).json({
-            success: false,
-            error: 'Failed to export data',
-        });
+        await cursor.close();
+        log.error('export failed', { error });
+        return sendMongoError(res, error, 'Failed to export data');
     }
-});
 
-// Index management - list indexes
-router.get('/indexes', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, collection } = req.query;
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName.replace(/["\\\r\n]/g, '_')}"`);
 
-    if (!database || !collection || typeof database !== 'string' || typeof collection !== 'string') {
-        return res.status(400).json({
-            success: false,
-            error: 'Database and collection names are required',
-        });
+    try {
+        if (compress) {
+            await pipeline(cursor.stream(), writer, createGzip(), res);
+        } else {
+            await pipeline(cursor.stream(), writer, res);
+        }
+    } catch (error) {
+        // headers are gone by now, all we can do is cut the download short
+        log.error('export stream failed', { error });
+        await cursor.close();
+        res.destroy();
     }
+    return;
+});
+
+// Index management - list indexes
+router.get('/indexes', authMiddleware, validate(listIndexes), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, collection } = validated(req, listIndexes).query;
 
     if (!req.session) {
         return res.status(401).json({
@@ -326,7 +422,7 @@ router.get('/indexes', authMiddleware, async (req: AuthenticatedRequest, res: Re
         });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
 
     if (!client) {
         return res.status(401).json({
@@ -357,24 +453,14 @@ router.get('/indexes', authMiddleware, async (req: AuthenticatedRequest, res: Re
             },
         });
     } catch (error) {
-        console.error('[indexes] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(500).json({
-            success: false,
-            error: 'Failed to get indexes',
-        });
+        log.error('indexes failed', { error });
+        return sendMongoError(res, error, 'Failed to get indexes');
     }
 });
 
 // Create index
-router.post('/indexes', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, collection, keys, options = {} } = req.body;
-
-    if (!database || !collection || !keys) {
-        return res.status(400).json({
-            success: false,
-            error: 'Database, collection, and keys are required',
-        });
-    }
+router.post('/indexes', authMiddleware, validate(createIndex), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, collection, keys, options } = validated(req, createIndex).body;
 
     if (!req.session) {
         return res.status(401).json({
@@ -383,7 +469,7 @@ router.post('/indexes', authMiddleware, async (req: AuthenticatedRequest, res: R
         });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
 
     if (!client) {
         return res.status(401).json({
@@ -396,12 +482,45 @@ router.post('/indexes', authMiddleware, async (req: AuthenticatedRequest, res: R
         const db = client.db(database);
         const col = db.collection(collection);
 
-        const result = await col.createIndex(keys, {
+        const indexOptions = {
             unique: options.unique || false,
             sparse: options.sparse || false,
             background: true,
             name: options.name,
-        });
+        };
+
+        // async: cancelling drops the index, which aborts the build on the server
+        if (wantsAsync(req)) {
+            // the name the server would give it, so there is something to drop
+            const indexName = indexOptions.name ?? Object.entries(keys).map(([field, type]) => `${field}_${type}`).join('_');
+
+            const job = enqueueJob(req.sessionId!, 'index', `Index build on ${database}.${collection}`, async ({ signal, commit }) => {
+                // a collection that doesn't exist yet has none
+                const existing = await col.indexes().catch(() => []);
+                // already there: createIndex is a no-op, and the index isn't ours to drop
+                if (existing.some(index => index.name === indexName)) {
+                    commit();
+                    await col.createIndex(keys, { ...indexOptions, name: indexName });
+                    return { result: { indexName } };
+                }
+
+                const abort = () => {
+                    col.dropIndex(indexName).catch(error => log.warn('index build abort failed', { error, indexName }));
+                };
+                signal.addEventListener('abort', abort, { once: true });
+                try {
+                    await col.createIndex(keys, { ...indexOptions, name: indexName });
+                    // built: from here a cancel would leave it in place, so refuse it
+                    commit();
+                } finally {
+                    signal.removeEventListener('abort', abort);
+                }
+                return { result: { indexName } };
+            }, holdClient(client));
+            return acceptedJob(res, job);
+        }
+
+        const result = await col.createIndex(keys, indexOptions);
 
         return res.json({
             success: true,
@@ -410,25 +529,15 @@ router.post('/indexes', authMiddleware, async (req: AuthenticatedRequest, res: R
             },
         });
     } catch (error) {
-        console.error('[create-index] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to create index',
-        });
+        log.error('create-index failed', { error });
+        return sendMongoError(res, error, error instanceof Error ? error.message : 'Failed to create index');
     }
 });
 
 // Drop index
-router.delete('/indexes/:indexName', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, collection } = req.query;
-    const { indexName } = req.params;
-
-    if (!database || !collection || typeof database !== 'string' || typeof collection !== 'string') {
-        return res.status(400).json({
-            success: false,
-            error: 'Database and collection names are required',
-        });
-    }
+router.delete('/indexes/:indexName', authMiddleware, validate(dropIndex), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, collection } = validated(req, dropIndex).query;
+    const indexName = String(req.params.indexName);
 
     // can't drop the default index, mongo will cry
     if (indexName === '_id_') {
@@ -445,7 +554,7 @@ router.delete('/indexes/:indexName', authMiddleware, async (req: AuthenticatedRe
         });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
 
     if (!client) {
         return res.status(401).json({
@@ -467,42 +576,19 @@ router.delete('/indexes/:indexName', authMiddleware, async (req: AuthenticatedRe
             },
         });
     } catch (error) {
-        console.error('[drop-index] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to drop index',
-        });
+        log.error('drop-index failed', { error });
+        return sendMongoError(res, error, error instanceof Error ? error.message : 'Failed to drop index');
     }
 });
 
 // ============================================================
 // AGGREGATION PIPELINE - run custom pipelines
 // ============================================================
-router.post('/aggregate', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, collection, pipeline } = req.body;
-
-    if (!database || !collection || !pipeline) {
-        return res.status(400).json({
-            success: false,
-            error: 'Database, collection, and pipeline are required',
-        });
-    }
-
-    // basic sanity check - pipeline must be an array
-    if (!Array.isArray(pipeline)) {
-        return res.status(400).json({
-            success: false,
-            error: 'Pipeline must be an array of stages',
-        });
-    }
+router.post('/aggregate', authMiddleware, validate(aggregate), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, collection, pipeline } = validated(req, aggregate).body;
 
     // security check: no writing data allowed here
-    const blockedStages = ['$out', '$merge'];
-    const hasBlockedStage = pipeline.some(stage =>
-        Object.keys(stage).some(key => blockedStages.includes(key))
-    );
-
-    if (hasBlockedStage) {
+    if (findWriteStage(pipeline)) {
         return res.status(400).json({
             success: false,
             error: 'Analytics pipelines cannot write data ($out, $merge are blocked)',
@@ -513,7 +599,7 @@ router.post('/aggregate', authMiddleware, async (req: AuthenticatedRequest, res:
         return res.status(401).json({ success: false, error: 'Session required' });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
     if (!client) {
         return res.status(401).json({ success: false, error: 'Not connected' });
     }
@@ -534,48 +620,23 @@ router.post('/aggregate', authMiddleware, async (req: AuthenticatedRequest, res:
         });
     } catch (error) {
         // aggregation errors are usually user mistakes, be helpful
-        console.error('[aggregate] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(400).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Aggregation failed',
-        });
+        log.error('aggregate failed', { error });
+        return sendMongoError(res, error, error instanceof Error ? error.message : 'Aggregation failed', 400);
     }
 });
 
 // ============================================================
 // DATA IMPORT - insert documents from uploaded JSON/CSV
 // ============================================================
-router.post('/import', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, collection, documents, mode = 'insert' } = req.body;
-
-    if (!database || !collection || !documents) {
-        return res.status(400).json({
-            success: false,
-            error: 'Database, collection, and documents are required',
-        });
-    }
-
-    // gotta have something to import
-    if (!Array.isArray(documents) || documents.length === 0) {
-        return res.status(400).json({
-            success: false,
-            error: 'Documents must be a non-empty array',
-        });
-    }
-
-    // safety limit - don't bomb the db
-    if (documents.length > 1000) {
-        return res.status(400).json({
-            success: false,
-            error: 'Maximum 1000 documents per import',
-        });
-    }
+router.post('/import', authMiddleware, validate(importDocuments), async (req: AuthenticatedRequest, res: Response) => {
+    // bigger files go through /import/jobs
+    const { database, collection, documents, mode, key } = validated(req, importDocuments).body;
 
     if (!req.session) {
         return res.status(401).json({ success: false, error: 'Session required' });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
     if (!client) {
         return res.status(401).json({ success: false, error: 'Not connected' });
     }
@@ -584,61 +645,164 @@ router.post('/import', authMiddleware, async (req: AuthenticatedRequest, res: Re
         const db = client.db(database);
         const col = db.collection(collection);
 
-        // clean up _id fields if they're strings (common mistake)
-        const cleanDocs = [];
-        for (const doc of documents) {
-            // Security check: Match pattern used in document creation
-            const sanitized = sanitizeFilter(doc);
-            if (!sanitized.valid) {
-                return res.status(400).json({
-                    success: false,
-                    error: `Invalid document pattern: ${sanitized.error}`,
-                });
-            }
-
-            const cleaned = { ...sanitized.filter };
-            if (cleaned._id && typeof cleaned._id === 'string') {
-                delete cleaned._id; // let mongo generate new ones
+        // _id values are kept as sent, { "$oid": ... } arrives as an ObjectId.
+        // bad rows are reported by position (1-based), the rest still go in.
+        const rows: BatchRow[] = [];
+        const errors: ImportRowError[] = [];
+        documents.forEach((doc: unknown, i: number) => {
+            if (doc === null || typeof doc !== 'object' || Array.isArray(doc)) {
+                errors.push({ row: i + 1, error: 'Each document must be an object' });
+            } else {
+                rows.push({ row: i + 1, doc: doc as Document });
             }
-            cleanDocs.push(cleaned);
-        }
+        });
 
-        const result = await col.insertMany(cleanDocs, { ordered: false });
+        const result = await writeImportBatch(col, rows, mode, key, changes =>
+            recordChange(journalOwner(req.sessionId!), 'import', database, collection, changes));
+        errors.push(...result.errors);
+        errors.sort((a, b) => a.row - b.row);
 
         return res.json({
             success: true,
             data: {
-                insertedCount: result.insertedCount,
-                insertedIds: Object.values(result.insertedIds),
+                mode,
+                insertedCount: result.inserted,
+                insertedIds: result.insertedIds,
+                upsertedCount: result.upserted,
+                matchedCount: result.matched,
+                modifiedCount: result.modified,
+                failedCount: errors.length,
+                errors,
             },
         });
     } catch (error) {
-        console.error('[import] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Import failed',
-        });
+        log.error('import failed', { error });
+        return sendMongoError(res, error, error instanceof Error ? error.message : 'Import failed');
     }
 });
 
 // ============================================================
-// JSON SCHEMA VALIDATION - get/set collection validators
+// STREAMING IMPORT - create a job, upload the file, poll progress
 // ============================================================
-router.get('/validation', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, collection } = req.query;
+router.post('/import/jobs', authMiddleware, validate(startImportJob), (req: AuthenticatedRequest, res: Response) => {
+    const { database, collection, format, mode, key, mapping, inferTypes, batchSize } = validated(req, startImportJob).body;
+
+    const job = createImportJob(req.sessionId!, database, collection, { format, mode, keys: key, mapping, inferTypes, batchSize });
+
+    return res.status(201).json({
+        success: true,
+        data: importJobSummary(job),
+    });
+});
+
+router.get('/import/jobs/:jobId', authMiddleware, validate(importJobProgress), (req: AuthenticatedRequest, res: Response) => {
+    const job = getImportJob(req.sessionId!, String(req.params.jobId));
+    if (!job) {
+        return res.status(404).json({ success: false, error: 'Import job not found' });
+    }
+
+    return res.json({
+        success: true,
+        data: importJobSummary(job),
+    });
+});
+
+/**
+ * the file is the raw request body (Content-Type: application/x-ndjson,
+ * text/csv, ...) or the first file of a multipart/form-data upload.
+ * sending it again resumes after the last committed row.
+ */
+function uploadSource(req: AuthenticatedRequest): Promise<Readable> {
+    if (!req.is('multipart/form-data')) {
+        return Promise.resolve(req);
+    }
+
+    return new Promise((resolve, reject) => {
+        const parser = busboy({ headers: req.headers, limits: { files: 1 } });
+        parser.once('file', (_name, file) => resolve(file));
+        parser.once('error', reject);
+        // settles nothing if a file was already handed over
+        parser.once('close', () => reject(new Error('No file in upload')));
+        req.pipe(parser);
+    });
+}
+
+router.post('/import/jobs/:jobId/upload', authMiddleware, validate(uploadImportFile), async (req: AuthenticatedRequest, res: Response) => {
+    const job = getImportJob(req.sessionId!, String(req.params.jobId));
+    if (!job) {
+        return res.status(404).json({ success: false, error: 'Import job not found' });
+    }
+
+    if (job.status !== 'pending' && job.status !== 'failed') {
+        return res.status(409).json({
+            success: false,
+            error: job.status === 'running' ? 'Import is already running' : `Import already ${job.status}`,
+        });
+    }
+
+    // the json body parser has already eaten it
+    if (req.is('application/json')) {
+        return res.status(415).json({
+            success: false,
+            error: 'Send the file as the raw body (e.g. application/x-ndjson, text/csv) or as multipart/form-data',
+        });
+    }
+
+    // refused up front when the size is known, the stream is counted either way
+    if (Number(req.get('content-length')) > config.IMPORT_MAX_MB * 1024 * 1024) {
+        return res.status(413).json({
+            success: false,
+            error: `Upload is larger than ${config.IMPORT_MAX_MB} MB`,
+        });
+    }
+
+    if (!req.session) {
+        return res.status(401).json({ success: false, error: 'Session required' });
+    }
 
-    if (!database || !collection || typeof database !== 'string' || typeof collection !== 'string') {
+    const client = await getConnectionFromSession(req.session, res);
+    if (!client) {
+        return res.status(401).json({ success: false, error: 'Not connected' });
+    }
+
+    let source: Readable;
+    try {
+        source = await uploadSource(req);
+    } catch (error) {
         return res.status(400).json({
             success: false,
-            error: 'Database and collection names are required',
+            error: error instanceof Error ? error.message : 'Invalid upload',
         });
     }
+    source.setEncoding('utf8');
+
+    const { database, collection } = importState(job);
+    const running = runImport(job, client.db(database).collection(collection), source);
+    if (!running) {
+        source.resume();
+        return res.status(409).json({ success: false, error: 'Import is already running' });
+    }
+
+    // held until the import ends, even if the uploader goes away first
+    const finished = await running.finally(holdClient(client));
+    return res.status(finished.status === 'completed' ? 200 : finished.status === 'cancelled' ? 409 : 500).json({
+        success: finished.status === 'completed',
+        data: importJobSummary(finished),
+        ...(finished.error && { error: finished.error }),
+    });
+});
+
+// ============================================================
+// JSON SCHEMA VALIDATION - get/set collection validators
+// ============================================================
+router.get('/validation', authMiddleware, validate(getValidation), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, collection } = validated(req, getValidation).query;
 
     if (!req.session) {
         return res.status(401).json({ success: false, error: 'Session required' });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
     if (!client) {
         return res.status(401).json({ success: false, error: 'Not connected' });
     }
@@ -668,30 +832,20 @@ router.get('/validation', authMiddleware, async (req: AuthenticatedRequest, res:
             },
         });
     } catch (error) {
-        console.error('[validation-get] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(500).json({
-            success: false,
-            error: 'Failed to get validation rules',
-        });
+        log.error('validation-get failed', { error });
+        return sendMongoError(res, error, 'Failed to get validation rules');
     }
 });
 
 // set validation schema
-router.put('/validation', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, collection, validator, validationLevel = 'moderate', validationAction = 'error' } = req.body;
-
-    if (!database || !collection) {
-        return res.status(400).json({
-            success: false,
-            error: 'Database and collection names are required',
-        });
-    }
+router.put('/validation', authMiddleware, validate(setValidation), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, collection, validator, validationLevel, validationAction } = validated(req, setValidation).body;
 
     if (!req.session) {
         return res.status(401).json({ success: false, error: 'Session required' });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
     if (!client) {
         return res.status(401).json({ success: false, error: 'Not connected' });
     }
@@ -712,32 +866,22 @@ router.put('/validation', authMiddleware, async (req: AuthenticatedRequest, res:
             data: { message: 'Validation updated successfully' },
         });
     } catch (error) {
-        console.error('[validation-set] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(500).json({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to update validation',
-        });
+        log.error('validation-set failed', { error });
+        return sendMongoError(res, error, error instanceof Error ? error.message : 'Failed to update validation');
     }
 });
 
 // ============================================================
 // SLOW QUERY PROFILER - get slow operations from system.profile
 // ============================================================
-router.get('/slow-queries', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, minMs = '100' } = req.query;
-
-    if (!database || typeof database !== 'string') {
-        return res.status(400).json({
-            success: false,
-            error: 'Database name is required',
-        });
-    }
+router.get('/slow-queries', authMiddleware, validate(slowQueries), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, minMs: minMillis } = validated(req, slowQueries).query;
 
     if (!req.session) {
         return res.status(401).json({ success: false, error: 'Session required' });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
     if (!client) {
         return res.status(401).json({ success: false, error: 'Not connected' });
     }
@@ -761,7 +905,6 @@ router.get('/slow-queries', authMiddleware, async (req: AuthenticatedRequest, re
         }
 
         // get slow queries from system.profile
-        const minMillis = parseInt(minMs as string) || 100;
         const queries = await db.collection('system.profile')
             .find({ millis: { $gte: minMillis } })
             .sort({ ts: -1 })
@@ -785,45 +928,21 @@ router.get('/slow-queries', authMiddleware, async (req: AuthenticatedRequest, re
             },
         });
     } catch (error) {
-        const errMsg = error instanceof Error ? error.message : 'Unknown error';
-        console.error('[slow-queries] error:', errMsg);
-
-        // shared clusters (Atlas M0/M2/M5) don't allow profiling
-        if (errMsg.includes('CMD_NOT_ALLOWED') || errMsg.includes('not allowed')) {
-            return res.json({
-                success: true,
-                data: {
-                    profilingEnabled: false,
-                    queries: [],
-                    message: 'Restricted: You cannot access Profiling on Free Tier (Shared Cluster).',
-                    restricted: true,
-                },
-            });
-        }
-
-        return res.status(500).json({
-            success: false,
-            error: 'Failed to get slow queries. Profiling may not be enabled.',
-        });
+        log.error('slow-queries failed', { error });
+        // shared clusters (Atlas M0/M2/M5) don't allow profiling: RESTRICTED_TIER
+        return sendMongoError(res, error, 'Failed to get slow queries. Profiling may not be enabled.');
     }
 });
 
 // enable/disable profiling
-router.post('/profiling', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-    const { database, level = 1, slowMs = 100 } = req.body;
-
-    if (!database) {
-        return res.status(400).json({
-            success: false,
-            error: 'Database name is required',
-        });
-    }
+router.post('/profiling', authMiddleware, validate(setProfiling), async (req: AuthenticatedRequest, res: Response) => {
+    const { database, level, slowMs } = validated(req, setProfiling).body;
 
     if (!req.session) {
         return res.status(401).json({ success: false, error: 'Session required' });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
     if (!client) {
         return res.status(401).json({ success: false, error: 'Not connected' });
     }
@@ -846,21 +965,8 @@ router.post('/profiling', authMiddleware, async (req: AuthenticatedRequest, res:
             },
         });
     } catch (error) {
-        const errMsg = error instanceof Error ? error.message : 'Unknown error';
-        console.error('[profiling] error:', errMsg);
-
-        // shared clusters don't allow profiling
-        if (errMsg.includes('CMD_NOT_ALLOWED') || errMsg.includes('not allowed')) {
-            return res.json({
-                success: false,
-                error: 'Restricted: You cannot access Profiling on Free Tier (Shared Cluster).',
-            });
-        }
-
-        return res.status(500).json({
-            success: false,
-            error: 'Failed to set profiling level',
-        });
+        log.error('profiling failed', { error });
+        return sendMongoError(res, error, 'Failed to set profiling level');
     }
 });
 
@@ -873,7 +979,7 @@ router.get('/opcounters', authMiddleware, async (req: AuthenticatedRequest, res:
         return res.status(401).json({ success: false, error: 'Session required' });
     }
 
-    const client = await getConnectionFromSession(req.session);
+    const client = await getConnectionFromSession(req.session, res);
     if (!client) {
         return res.status(401).json({ success: false, error: 'Not connected' });
     }
@@ -893,11 +999,8 @@ router.get('/opcounters', authMiddleware, async (req: AuthenticatedRequest, res:
             },
         });
     } catch (error) {
-        console.error('[opcounters] error:', error instanceof Error ? error.message : 'Unknown error');
-        return res.status(500).json({
-            success: false,
-            error: 'Failed to get opcounters',
-        });
+        log.error('opcounters failed', { error });
+        return sendMongoError(res, error, 'Failed to get opcounters');
     }
 });
 
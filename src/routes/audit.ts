@@ -0,0 +1,68 @@
+import { Router, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { authMiddleware, AuthenticatedRequest, bearerToken } from '../middleware/auth.js';
+import { auditSessionHash } from '../middleware/audit.js';
+import { queryAuditLog } from '../lib/audit.js';
+import { config } from '../config/index.js';
+import { createLogger } from '../lib/logger.js';
+import { validate, validated } from '../middleware/validate.js';
+import { queryAudit } from '../schemas/audit.js';
+
+const log = createLogger('audit');
+
+const router = Router();
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Authorization: Bearer <AUDIT_READ_TOKEN> reads every session's entries.
+ * anything else needs a session and only sees its own.
+ */
+function auditReader(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  const token = bearerToken(req);
+
+  if (config.AUDIT_READ_TOKEN && token) {
+    // hashed first so the comparison is constant time whatever the lengths
+    if (timingSafeEqual(sha256(token), sha256(config.AUDIT_READ_TOKEN))) {
+      res.locals.auditAll = true;
+      next();
+      return;
+    }
+  }
+
+  return authMiddleware(req, res, next);
+}
+
+router.get('/audit', auditReader, validate(queryAudit), async (req: AuthenticatedRequest, res: Response) => {
+  const { route, database, collection, outcome, session, from, to, limit } = validated(req, queryAudit).query;
+  const str = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+  try {
+    const entries = await queryAuditLog({
+      // sessions only ever see themselves
+      session: res.locals.auditAll ? str(session) : auditSessionHash(req.sessionId!),
+      from,
+      to,
+      route: str(route),
+      database: str(database),
+      collection: str(collection),
+      outcome,
+      limit,
+    });
+
+    return res.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    log.error('query failed', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to read audit log',
+    });
+  }
+});
+
+export default router;
@@ -1,19 +1,69 @@
 import { Router, Response } from 'express';
-import { ObjectId } from 'mongodb';
+import { BSON, Collection, Document, Filter } from 'mongodb';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
-import { getConnectionFromSession } from '../lib/mongodb.js';
-import { isValidObjectId } from '../types/index.js';
-import { sanitizeFilter, sanitizeUpdate } from '../utils/sanitize.js';
+import { getConnectionFromSession, holdClient } from '../lib/mongodb.js';
+import { BulkOperation, BulkTarget, getMaxAffected, issueConfirmToken, redeemConfirmToken } from '../lib/bulkConfirm.js';
+import { JournalChange, journalOwner, recordChange } from '../lib/journal.js';
+import { enqueueJob } from '../lib/jobs.js';
+import { config } from '../config/index.js';
+import { sanitizeFilter, sanitizeProjection, sanitizeUpdate } from '../utils/sanitize.js';
+import { isBsonValue, normalizeDocumentId, parseDocumentId, parseEjson } from '../utils/ejson.js';
+import {
+  PageCursor,
+  cursorValues,
+  decodeCursor,
+  encodeCursor,
+  keysetFilter,
+  projectionWithSortFields,
+  stripFields,
+  sameSort,
+  sortEntriesToSpec,
+  toSortEntries,
+} from '../utils/cursor.js';
+import { sendMongoError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { validate, validated } from '../middleware/validate.js';
+import { acceptedJob, wantsAsync } from './jobs.js';
+import {
+  bulkDocuments,
+  COUNT_MODES,
+  deleteDocument,
+  deleteMany,
+  documentTemplate,
+  insertDocument,
+  listDocuments,
+  updateDocument,
+  updateMany,
+} from '../schemas/collection.js';
+
+const log = createLogger('collection');
 
 const router = Router();
 
+type CountMode = typeof COUNT_MODES[number];
+
+// estimated counts with a filter stop counting here
+const ESTIMATED_COUNT_CAP = 10000;
+
 function parseFilter(filterStr: string | undefined): Record<string, unknown> | undefined {
-  if (!filterStr) return undefined;
-  try {
-    return JSON.parse(filterStr);
-  } catch {
-    return undefined;
-  }
+  return parseEjson(filterStr);
+}
+
+// _id can be any bson type, not just ObjectId
+function idFilter(id: unknown): Filter<Document> {
+  return { _id: id } as Filter<Document>;
+}
+
+// before/after images for the undo journal, see lib/journal.ts
+function journal(
+  req: AuthenticatedRequest,
+  operation: string,
+  database: string,
+  collection: string,
+  changes: JournalChange[],
+  truncated = false
+): Promise<void> {
+  return recordChange(journalOwner(req.sessionId!), operation, database, collection, changes, truncated);
 }
 
 function parseSort(sortStr: string | undefined): Record<string, 1 | -1> | undefined {
@@ -30,21 +80,42 @@ function parseSort(sortStr: string | undefined): Record<string, 1 | -1> | undefi
   }
 }
 
-router.get('/documents', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  const { database, collection, filter, sort, limit, skip, projection } = req.query;
+router.get('/documents', authMiddleware, validate(listDocuments), async (req: AuthenticatedRequest, res: Response) => {
+  const { database, collection, filter, sort, limit: parsedLimit, skip, projection, cursor, countMode } = validated(req, listDocuments).query;
 
-  if (!database || !collection || typeof database !== 'string' || typeof collection !== 'string') {
+  const parsedFilter = parseFilter(filter);
+  const parsedSort = parseSort(sort);
+  const projectionResult = sanitizeProjection(projection ? parseFilter(projection) : undefined);
+  if (!projectionResult.valid) {
     return res.status(400).json({
       success: false,
-      error: 'Database and collection names are required',
+      error: `Invalid projection: ${projectionResult.error}`,
     });
   }
+  const parsedProjection = projection ? projectionResult.projection : undefined;
+  const sortEntries = toSortEntries(parsedSort);
 
-  const parsedFilter = parseFilter(filter as string | undefined);
-  const parsedSort = parseSort(sort as string | undefined);
-  const parsedLimit = limit ? Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), 1000) : 20;
-  const parsedSkip = skip ? Math.max(parseInt(skip as string, 10) || 0, 0) : 0;
-  const parsedProjection = projection ? parseFilter(projection as string) : undefined;
+  // a cursor replaces skip
+  let pageCursor: PageCursor | null = null;
+  if (cursor !== undefined) {
+    pageCursor = decodeCursor(cursor);
+
+    if (!pageCursor) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid cursor',
+      });
+    }
+
+    if (!sameSort(pageCursor.sort, sortEntries)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cursor does not match the requested sort',
+      });
+    }
+  }
+
+  const parsedSkip = pageCursor ? 0 : skip;
 
   const filterResult = sanitizeFilter(parsedFilter);
   if (!filterResult.valid) {
@@ -54,6 +125,15 @@ router.get('/documents', authMiddleware, async (req: AuthenticatedRequest, res:
     });
   }
 
+  // the cursor's values go into the filter too, so they get the same checks
+  const pageFilterResult = sanitizeFilter(pageCursor ? { $and: [filterResult.filter, keysetFilter(pageCursor)] } : filterResult.filter);
+  if (!pageFilterResult.valid) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid cursor',
+    });
+  }
+
   if (!req.session) {
     return res.status(401).json({
       success: false,
@@ -61,7 +141,7 @@ router.get('/documents', authMiddleware, async (req: AuthenticatedRequest, res:
     });
   }
 
-  const client = await getConnectionFromSession(req.session);
+  const client = await getConnectionFromSession(req.session, res);
 
   if (!client) {
     return res.status(401).json({
@@ -81,63 +161,84 @@ router.get('/documents', authMiddleware, async (req: AuthenticatedRequest, res:
     const db = client.db(database);
     const col = db.collection(collection);
 
-    const [documents, totalCount] = await Promise.all([
+    const backwards = pageCursor?.direction === 'prev';
+    const pageFilter = pageFilterResult.filter;
+
+    const countTotal = async (): Promise<number | null> => {
+      if (countMode === 'none') return null;
+      if (countMode === 'estimated') {
+        return Object.keys(filterResult.filter).length === 0
+          ? col.estimatedDocumentCount()
+          : col.countDocuments(filterResult.filter, { limit: ESTIMATED_COUNT_CAP });
+      }
+      return col.countDocuments(filterResult.filter);
+    };
+
+    const cursorProjection = projectionWithSortFields(parsedProjection, sortEntries);
+
+    // one extra document tells us whether there's another page
+    const [fetched, totalCount] = await Promise.all([
       col
-        .find(filterResult.filter)
-        .sort(parsedSort || {})
+        .find(pageFilter)
+        .sort(sortEntriesToSpec(sortEntries, backwards))
         .skip(parsedSkip)
-        .limit(parsedLimit)
-        .project(parsedProjection || {})
+        .limit(parsedLimit + 1)
+        .project(cursorProjection.projection || {})
         .toArray(),
-      col.countDocuments(filterResult.filter),
+      countTotal(),
     ]);
 
+    const hasExtra = fetched.length > parsedLimit;
+    const documents = fetched.slice(0, parsedLimit);
+    if (backwards) {
+      documents.reverse();
+    }
+
+    const first = documents[0];
+    const last = documents[documents.length - 1];
+
+    // walking backwards we came from the next page, so there always is one
+    const hasMore = backwards ? documents.length > 0 : hasExtra;
+    const hasPrevious = backwards ? hasExtra : pageCursor !== null || parsedSkip > 0;
+
+    const nextCursor = hasMore && last
+      ? encodeCursor({ sort: sortEntries, values: cursorValues(last, sortEntries), direction: 'next' })
+      : null;
+    const prevCursor = hasPrevious && first
+      ? encodeCursor({ sort: sortEntries, values: cursorValues(first, sortEntries), direction: 'prev' })
+      : null;
+
+    // the cursors have their values, so the page only has what was asked for
+    if (cursorProjection.added.length > 0) {
+      for (const doc of documents) {
+        stripFields(doc, cursorProjection.added);
+      }
+    }
+
     return res.json({
       success: true,
       data: {
         documents,
         totalCount,
-        hasMore: parsedSkip + documents.length < totalCount,
+        countMode,
+        hasMore,
+        nextCursor,
+        prevCursor,
         limit: parsedLimit,
         skip: parsedSkip,
       },
     });
   } catch (error) {
-    console.error('[documents] error:', error instanceof Error ? error.message : 'Unknown error');
-
-    if (error instanceof Error && (error.message.includes('not authorized') || error.message.includes('auth failed'))) {
-      return res.json({
-        success: true,
-        data: {
-          documents: [],
-          totalCount: 0,
-          hasMore: false,
-          limit: parsedLimit,
-          skip: parsedSkip,
-          message: 'Access restricted: Documents not visible',
-        },
-      });
-    }
-
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to fetch documents',
-    });
+    log.error('documents failed', { error });
+    return sendMongoError(res, error, 'Failed to fetch documents');
   }
 });
 
 /**
  * guess schema from data
  */
-router.get('/documents/template', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  const { database, collection } = req.query;
-
-  if (!database || !collection || typeof database !== 'string' || typeof collection !== 'string') {
-    return res.status(400).json({
-      success: false,
-      error: 'Database and collection names are required',
-    });
-  }
+router.get('/documents/template', authMiddleware, validate(documentTemplate), async (req: AuthenticatedRequest, res: Response) => {
+  const { database, collection } = validated(req, documentTemplate).query;
 
   if (!req.session) {
     return res.status(401).json({
@@ -146,7 +247,7 @@ router.get('/documents/template', authMiddleware, async (req: AuthenticatedReque
     });
   }
 
-  const client = await getConnectionFromSession(req.session);
+  const client = await getConnectionFromSession(req.session, res);
 
   if (!client) {
     return res.status(401).json({
@@ -174,7 +275,7 @@ router.get('/documents/template', authMiddleware, async (req: AuthenticatedReque
       if (Array.isArray(obj)) {
         return []; // empty
       }
-      if (obj && typeof obj === 'object' && !(obj instanceof ObjectId) && !(obj instanceof Date)) {
+      if (obj && typeof obj === 'object' && !isBsonValue(obj)) {
         const template: any = {};
         for (const key in obj) {
           if (key === '_id') continue; // skip id
@@ -195,30 +296,13 @@ router.get('/documents/template', authMiddleware, async (req: AuthenticatedReque
       data: template,
     });
   } catch (error) {
-    console.error('[template] error:', error instanceof Error ? error.message : 'Unknown error');
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to generate template',
-    });
+    log.error('template failed', { error });
+    return sendMongoError(res, error, 'Failed to generate template');
   }
 });
 
-router.post('/documents', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  const { database, collection, document } = req.body;
-
-  if (!database || !collection || !document) {
-    return res.status(400).json({
-      success: false,
-      error: 'Database, collection, and document are required',
-    });
-  }
-
-  if (req.session?.readOnly) {
-    return res.status(403).json({
-      success: false,
-      error: 'Read-only mode: cannot insert documents',
-    });
-  }
+router.post('/documents', authMiddleware, validate(insertDocument), async (req: AuthenticatedRequest, res: Response) => {
+  const { database, collection, document } = validated(req, insertDocument).body;
 
   const docResult = sanitizeFilter(document);
   if (!docResult.valid) {
@@ -235,7 +319,7 @@ router.post('/documents', authMiddleware, async (req: AuthenticatedRequest, res:
     });
   }
 
-  const client = await getConnectionFromSession(req.session);
+  const client = await getConnectionFromSession(req.session, res);
 
   if (!client) {
     return res.status(401).json({
@@ -249,48 +333,32 @@ router.post('/documents', authMiddleware, async (req: AuthenticatedRequest, res:
     const col = db.collection(collection);
 
     const result = await col.insertOne(docResult.filter);
+    await journal(req, 'insert', database, collection, [{ id: result.insertedId, before: null, after: docResult.filter }]);
 
     return res.json({
       success: true,
       data: {
-        insertedId: result.insertedId.toString(),
+        insertedId: result.insertedId,
         acknowledged: result.acknowledged,
       },
     });
   } catch (error) {
-    console.error('[insert] error:', error instanceof Error ? error.message : 'Unknown error');
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to insert document',
-    });
+    log.error('insert failed', { error });
+    return sendMongoError(res, error, 'Failed to insert document');
   }
 });
 
-router.put('/documents/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  const { database, collection, update } = req.body;
-  const { id } = req.params;
+router.put('/documents/:id', authMiddleware, validate(updateDocument), async (req: AuthenticatedRequest, res: Response) => {
+  const { database, collection, update } = validated(req, updateDocument).body;
+  const id = parseDocumentId(String(req.params.id));
 
-  if (!database || !collection || !update) {
-    return res.status(400).json({
-      success: false,
-      error: 'Database, collection, and update are required',
-    });
-  }
-
-  if (!isValidObjectId(id)) {
+  if (id === undefined) {
     return res.status(400).json({
       success: false,
       error: 'Invalid document ID format',
     });
   }
 
-  if (req.session?.readOnly) {
-    return res.status(403).json({
-      success: false,
-      error: 'Read-only mode: cannot update documents',
-    });
-  }
-
   const updateResult = sanitizeUpdate(update);
   if (!updateResult.valid) {
     return res.status(400).json({
@@ -306,7 +374,7 @@ router.put('/documents/:id', authMiddleware, async (req: AuthenticatedRequest, r
     });
   }
 
-  const client = await getConnectionFromSession(req.session);
+  const client = await getConnectionFromSession(req.session, res);
 
   if (!client) {
     return res.status(401).json({
@@ -319,11 +387,17 @@ router.put('/documents/:id', authMiddleware, async (req: AuthenticatedRequest, r
     const db = client.db(database);
     const col = db.collection(collection);
 
+    const before = await col.findOne(idFilter(id));
     const result = await col.updateOne(
-      { _id: new ObjectId(id) },
+      idFilter(id),
       updateResult.update
     );
 
+    if (result.modifiedCount > 0) {
+      const after = await col.findOne(idFilter(id));
+      await journal(req, 'update', database, collection, [{ id, before, after }]);
+    }
+
     return res.json({
       success: true,
       data: {
@@ -333,40 +407,23 @@ router.put('/documents/:id', authMiddleware, async (req: AuthenticatedRequest, r
       },
     });
   } catch (error) {
-    console.error('[update] error:', error instanceof Error ? error.message : 'Unknown error');
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to update document',
-    });
+    log.error('update failed', { error });
+    return sendMongoError(res, error, 'Failed to update document');
   }
 });
 
-router.delete('/documents/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  const { database, collection } = req.query;
-
-  if (!database || !collection || typeof database !== 'string' || typeof collection !== 'string') {
-    return res.status(400).json({
-      success: false,
-      error: 'Database and collection names are required',
-    });
-  }
+router.delete('/documents/:id', authMiddleware, validate(deleteDocument), async (req: AuthenticatedRequest, res: Response) => {
+  const { database, collection } = validated(req, deleteDocument).query;
 
-  const { id } = req.params;
+  const id = parseDocumentId(String(req.params.id));
 
-  if (!isValidObjectId(id)) {
+  if (id === undefined) {
     return res.status(400).json({
       success: false,
       error: 'Invalid document ID format',
     });
   }
 
-  if (req.session?.readOnly) {
-    return res.status(403).json({
-      success: false,
-      error: 'Read-only mode: cannot delete documents',
-    });
-  }
-
   if (!req.session) {
     return res.status(401).json({
       success: false,
@@ -374,7 +431,7 @@ router.delete('/documents/:id', authMiddleware, async (req: AuthenticatedRequest
     });
   }
 
-  const client = await getConnectionFromSession(req.session);
+  const client = await getConnectionFromSession(req.session, res);
 
   if (!client) {
     return res.status(401).json({
@@ -387,40 +444,26 @@ router.delete('/documents/:id', authMiddleware, async (req: AuthenticatedRequest
     const db = client.db(database);
     const col = db.collection(collection);
 
-    const result = await col.deleteOne({ _id: new ObjectId(id) });
+    const deleted = await col.findOneAndDelete(idFilter(id));
+    if (deleted) {
+      await journal(req, 'delete', database, collection, [{ id, before: deleted, after: null }]);
+    }
 
     return res.json({
       success: true,
       data: {
-        deletedCount: result.deletedCount,
-        acknowledged: result.acknowledged,
+        deletedCount: deleted ? 1 : 0,
+        acknowledged: true,
       },
     });
   } catch (error) {
-    console.error('[delete] error:', error instanceof Error ? error.message : 'Unknown error');
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to delete document',
-    });
+    log.error('delete failed', { error });
+    return sendMongoError(res, error, 'Failed to delete document');
   }
 });
 
-router.post('/documents/bulk', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  const { database, collection, documents, operation } = req.body;
-
-  if (!database || !collection || !documents) {
-    return res.status(400).json({
-      success: false,
-      error: 'Database, collection, and documents are required',
-    });
-  }
-
-  if (req.session?.readOnly) {
-    return res.status(403).json({
-      success: false,
-      error: 'Read-only mode: cannot perform bulk operations',
-    });
-  }
+router.post('/documents/bulk', authMiddleware, validate(bulkDocuments), async (req: AuthenticatedRequest, res: Response) => {
+  const { database, collection, documents, operation } = validated(req, bulkDocuments).body;
 
   if (!req.session) {
     return res.status(401).json({
@@ -429,7 +472,7 @@ router.post('/documents/bulk', authMiddleware, async (req: AuthenticatedRequest,
     });
   }
 
-  const client = await getConnectionFromSession(req.session);
+  const client = await getConnectionFromSession(req.session, res);
 
   if (!client) {
     return res.status(401).json({
@@ -444,9 +487,12 @@ router.post('/documents/bulk', authMiddleware, async (req: AuthenticatedRequest,
 
     if (operation === 'delete') {
       const ids = documents
-        .filter((doc: { _id: string }) => isValidObjectId(doc._id))
-        .map((doc: { _id: string }) => new ObjectId(doc._id));
-      const deleteResult = await col.deleteMany({ _id: { $in: ids } });
+        .filter(doc => doc._id !== undefined && doc._id !== null)
+        .map(doc => normalizeDocumentId(doc._id));
+      const byIds = { _id: { $in: ids } } as Filter<Document>;
+      const before = await col.find(byIds).toArray();
+      const deleteResult = await col.deleteMany(byIds);
+      await journal(req, 'bulkDelete', database, collection, before.map(doc => ({ id: doc._id, before: doc, after: null })));
       return res.json({
         success: true,
         data: {
@@ -456,6 +502,11 @@ router.post('/documents/bulk', authMiddleware, async (req: AuthenticatedRequest,
       });
     } else {
       const insertResult = await col.insertMany(documents);
+      await journal(req, 'bulkInsert', database, collection, Object.entries(insertResult.insertedIds).map(([index, id]) => ({
+        id,
+        before: null,
+        after: documents[Number(index)],
+      })));
       return res.json({
         success: true,
         data: {
@@ -465,12 +516,204 @@ router.post('/documents/bulk', authMiddleware, async (req: AuthenticatedRequest,
       });
     }
   } catch (error) {
-    console.error('[bulk] error:', error instanceof Error ? error.message : 'Unknown error');
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to perform bulk operation',
-    });
+    log.error('bulk failed', { error });
+    return sendMongoError(res, error, 'Failed to perform bulk operation');
   }
 });
 
+// documents shown in a bulk dry run
+const BULK_PREVIEW_SAMPLE = 5;
+
+/**
+ * the confirmed write of update-many / delete-many, journaled. commit is
+ * called right before the write, once nothing can stop it.
+ */
+async function filterWrite(
+  req: AuthenticatedRequest,
+  col: Collection<Document>,
+  target: BulkTarget,
+  commit: () => void = () => {}
+): Promise<Record<string, unknown>> {
+  const { operation, filter, update } = target;
+  const [database, collection] = [col.dbName, col.collectionName];
+  const bulkFilter = filter as Filter<Document>;
+
+  // images for the journal, past JOURNAL_MAX_DOCUMENTS the entry is kept but can't be reverted
+  const before = await col.find(bulkFilter).limit(config.JOURNAL_MAX_DOCUMENTS + 1).toArray();
+  const truncated = before.length > config.JOURNAL_MAX_DOCUMENTS;
+  before.length = Math.min(before.length, config.JOURNAL_MAX_DOCUMENTS);
+
+  commit();
+
+  if (operation === 'deleteMany') {
+    const result = await col.deleteMany(bulkFilter);
+    await journal(req, operation, database, collection, before.map(doc => ({ id: doc._id, before: doc, after: null })), truncated);
+    return {
+      dryRun: false,
+      operation,
+      deletedCount: result.deletedCount,
+      acknowledged: result.acknowledged,
+    };
+  }
+
+  const result = await col.updateMany(bulkFilter, update!);
+  const after = new Map<string, Document>();
+  for (const doc of await col.find({ _id: { $in: before.map(doc => doc._id) } }).toArray()) {
+    after.set(BSON.EJSON.stringify(doc._id), doc);
+  }
+  await journal(req, operation, database, collection, before.map(doc => ({
+    id: doc._id,
+    before: doc,
+    after: after.get(BSON.EJSON.stringify(doc._id)) ?? null,
+  })), truncated);
+  return {
+    dryRun: false,
+    operation,
+    matchedCount: result.matchedCount,
+    modifiedCount: result.modifiedCount,
+    acknowledged: result.acknowledged,
+  };
+}
+
+function matchChanged(expectedCount: number, matchedCount: number): string {
+  return `The filter now matches ${matchedCount} documents instead of ${expectedCount}, run the dry run again`;
+}
+
+/**
+ * filter-driven updateMany / deleteMany. without a confirmToken this is the
+ * dry run: match count, a few sample documents and a token for this exact
+ * filter and count. sending the same request with the token does the write,
+ * as a background job with async.
+ */
+function filterWriteHandler(operation: BulkOperation) {
+  return async (req: AuthenticatedRequest, res: Response) => {
+    // deleteMany's schema is the same minus update
+    const { database, collection, filter, update, confirmToken } = validated(req, updateMany).body;
+
+    const filterResult = sanitizeFilter(filter);
+    if (!filterResult.valid) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid filter: ${filterResult.error}`,
+      });
+    }
+
+    let cleanUpdate: Record<string, unknown> | undefined;
+    if (operation === 'updateMany') {
+      const updateResult = sanitizeUpdate(update);
+      if (!updateResult.valid) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid update: ${updateResult.error}`,
+        });
+      }
+      cleanUpdate = updateResult.update;
+    }
+
+    if (!req.session || !req.sessionId) {
+      return res.status(401).json({
+        success: false,
+        error: 'Session required',
+      });
+    }
+
+    const target: BulkTarget = {
+      sessionId: req.sessionId,
+      operation,
+      namespace: `${database}.${collection}`,
+      filter: filterResult.filter,
+      update: cleanUpdate,
+    };
+
+    // before the token is redeemed, a busy pool shouldn't use it up
+    const client = await getConnectionFromSession(req.session, res);
+
+    if (!client) {
+      return res.status(401).json({
+        success: false,
+        error: 'Failed to connect to database',
+      });
+    }
+
+    let expectedCount: number | null = null;
+    if (confirmToken) {
+      const redeemed = redeemConfirmToken(confirmToken, target);
+      if (!redeemed.valid) {
+        return res.status(400).json({
+          success: false,
+          error: redeemed.error,
+        });
+      }
+      expectedCount = redeemed.count;
+    }
+
+    const maxAffected = getMaxAffected(req.session);
+
+    try {
+      const col = client.db(database).collection(collection);
+      const bulkFilter = filterResult.filter as Filter<Document>;
+      const matchedCount = await col.countDocuments(bulkFilter);
+
+      if (matchedCount > maxAffected) {
+        return res.status(403).json({
+          success: false,
+          error: `This would affect ${matchedCount} documents, the limit for this session is ${maxAffected}`,
+          data: { matchedCount, maxAffected },
+        });
+      }
+
+      // dry run
+      if (expectedCount === null) {
+        const sample = await col.find(bulkFilter).limit(BULK_PREVIEW_SAMPLE).toArray();
+        const issued = matchedCount > 0 ? issueConfirmToken(target, matchedCount) : null;
+
+        return res.json({
+          success: true,
+          data: {
+            dryRun: true,
+            operation,
+            matchedCount,
+            maxAffected,
+            sample,
+            confirmToken: issued?.token ?? null,
+            expiresAt: issued ? new Date(issued.expiresAt).toISOString() : null,
+          },
+        });
+      }
+
+      if (matchedCount !== expectedCount) {
+        return res.status(409).json({
+          success: false,
+          error: matchChanged(expectedCount, matchedCount),
+          data: { expectedCount, matchedCount },
+        });
+      }
+
+      // cancellable until the write starts
+      if (wantsAsync(req)) {
+        const job = enqueueJob(req.sessionId, 'bulk', `${operation} on ${database}.${collection}`, async ({ commit }) => {
+          // documents may have changed while it was queued
+          const queuedCount = await col.countDocuments(bulkFilter);
+          if (queuedCount !== expectedCount) {
+            throw new Error(matchChanged(expectedCount, queuedCount));
+          }
+          return { result: await filterWrite(req, col, target, commit) };
+        }, holdClient(client));
+        return acceptedJob(res, job);
+      }
+
+      return res.json({
+        success: true,
+        data: await filterWrite(req, col, target),
+      });
+    } catch (error) {
+      log.error(`${operation} failed`, { error });
+      return sendMongoError(res, error, operation === 'deleteMany' ? 'Failed to delete documents' : 'Failed to update documents');
+    }
+  };
+}
+
+router.post('/documents/update-many', authMiddleware, validate(updateMany), filterWriteHandler('updateMany'));
+router.post('/documents/delete-many', authMiddleware, validate(deleteMany), filterWriteHandler('deleteMany'));
+
 export default router;
@@ -1,42 +1,75 @@
 import { Router, Request, Response } from 'express';
-import { MongoClient } from 'mongodb';
+import { Document, MongoClient } from 'mongodb';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
-import { createSession, updateSession, destroySession } from '../lib/sessionStore.js';
+import { startSession, changeSession, endSession, sessionTtlMs } from '../lib/sessionManager.js';
 import { validateUriForSsrf } from '../utils/ssrf.js';
+import { parseScope } from '../utils/scope.js';
+import { maskUri, parseMongoUri } from '../utils/uri.js';
+import { getProfileOwner } from '../middleware/profileOwner.js';
+import { openProfile } from '../lib/profileStore.js';
+import { getMaxAffected } from '../lib/bulkConfirm.js';
+import { getClient, getConnectionFromSession } from '../lib/mongodb.js';
+import { canAccessDatabase, getAuthInfo, rolesOnDatabase, UserRole } from '../lib/privileges.js';
+import { sendMongoError } from '../lib/errors.js';
+import { issueCsrfToken } from '../lib/csrf.js';
+import { createLogger } from '../lib/logger.js';
+import { validate, validated } from '../middleware/validate.js';
+import { connect, switchDatabase } from '../schemas/connection.js';
+
+const log = createLogger('connection');
 
 const router = Router();
 
-function parseMongoUri(uri: string): { connectionString: string; databaseName: string } | null {
-  try {
-    const url = new URL(uri);
-    const pathParts = url.pathname.split('/').filter(Boolean);
-    const databaseName = pathParts[0] || 'test';
-    return { connectionString: uri, databaseName };
-  } catch {
-    return null;
-  }
+function setSessionCookie(res: Response, value: string): void {
+  const cookieName = process.env.NODE_ENV === 'production' ? 'byselfdb_session' : 'byselfdb_session_dev';
+  const isProduction = process.env.NODE_ENV === 'production';
+
+  // cookie only
+  res.cookie(cookieName, value, {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: isProduction ? 'strict' : 'lax', // 'strict' is preferred when on the same custom domain
+    maxAge: sessionTtlMs(),
+    path: '/',
+  });
 }
 
-function maskUri(uri: string): string {
-  try {
-    const url = new URL(uri);
-    if (url.password) {
-      url.password = '****';
+router.post('/connect', validate(connect), async (req: Request, res: Response) => {
+  const { profileId, uri: givenUri, scope, readOnly, maxAffected } = validated(req, connect).body;
+  let uri: string;
+  let allowedScope: string[];
+  let sessionReadOnly = readOnly;
+  let defaultDatabase: string | null = null;
+
+  if (profileId !== undefined) {
+    // saved profile: uri, scope and mode come from the profile
+    const ownerId = getProfileOwner(req);
+    const profile = ownerId ? openProfile(ownerId, profileId) : null;
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Connection profile not found',
+      });
     }
-    return url.toString();
-  } catch {
-    return '[invalid uri]';
-  }
-}
 
-router.post('/connect', async (req: Request, res: Response) => {
-  const { uri } = req.body;
+    uri = profile.uri;
+    allowedScope = profile.scope;
+    // a read-only profile stays read-only, but callers can still downgrade
+    sessionReadOnly = profile.readOnly || readOnly;
+    defaultDatabase = profile.defaultDatabase;
+  } else {
+    // the schema requires one of the two
+    uri = givenUri!;
 
-  if (!uri || typeof uri !== 'string') {
-    return res.status(400).json({
-      success: false,
-      error: 'URI is required',
-    });
+    const scopeResult = parseScope(scope);
+    if (!scopeResult.valid) {
+      return res.status(400).json({
+        success: false,
+        error: scopeResult.error,
+      });
+    }
+    allowedScope = scopeResult.scope;
   }
 
   const parsed = parseMongoUri(uri);
@@ -56,70 +89,59 @@ router.post('/connect', async (req: Request, res: Response) => {
     });
   }
 
-  let client: MongoClient | null = null;
+  const databaseName = defaultDatabase ?? parsed.databaseName;
 
   try {
-    client = new MongoClient(uri, {
-      connectTimeoutMS: 10000,
-      serverSelectionTimeoutMS: 10000,
-    });
-
-    await client.connect();
+    // connects through the pool, so the session's first request finds a warm client
+    const client = await getClient(uri, res);
     await client.db('admin').command({ ping: 1 });
 
     // start session
-    const sessionId = createSession({
+    const sessionToken = await startSession({
       uri,
-      databaseName: parsed.databaseName,
-      allowedScope: ['*'],
-      readOnly: false,
+      databaseName,
+      allowedScope,
+      readOnly: sessionReadOnly,
+      maxAffected,
     });
 
-    const cookieName = process.env.NODE_ENV === 'production' ? 'byselfdb_session' : 'byselfdb_session_dev';
-    const isProduction = process.env.NODE_ENV === 'production';
+    setSessionCookie(res, sessionToken);
 
-    // cookie only
-    res.cookie(cookieName, sessionId, {
-      httpOnly: true,
-      secure: isProduction,
-      sameSite: isProduction ? 'strict' : 'lax', // 'strict' is preferred when on the same custom domain
-      maxAge: 24 * 60 * 60 * 1000,
-      path: '/',
-    });
-
-    console.log(`[connection] new session created: ${parsed.databaseName}`);
+    log.info('new session created', { database: databaseName });
 
     return res.json({
       success: true,
       data: {
-        databaseName: parsed.databaseName,
+        databaseName,
         maskedUri: maskUri(uri),
+        allowedScope,
+        readOnly: sessionReadOnly,
+        maxAffected,
+        // send back in X-CSRF-Token on every mutating request
+        csrfToken: issueCsrfToken(sessionToken),
         message: 'Successfully connected to database',
       },
     });
   } catch (error) {
-    console.error('[connection] failed:', error instanceof Error ? error.message : 'Unknown error');
-    return res.status(401).json({
-      success: false,
-      error: 'Failed to connect to MongoDB. Please check your URI and network connection.',
-    });
-  } finally {
-    if (client) {
-      try {
-        await client.close();
-      } catch {
-        // Ignore close errors
-      }
-    }
+    log.error('connect failed', { error });
+    return sendMongoError(res, error, 'Failed to connect to MongoDB. Please check your URI and network connection.', 401);
   }
 });
 
 router.post('/disconnect', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   const cookieName = process.env.NODE_ENV === 'production' ? 'byselfdb_session' : 'byselfdb_session_dev';
 
+  // tokens live until revoked, there is no session to end
+  if (req.apiTokenId) {
+    return res.status(400).json({
+      success: false,
+      error: 'API tokens are revoked with DELETE /api/tokens/:id',
+    });
+  }
+
   // kill session
-  if (req.sessionId) {
-    destroySession(req.sessionId);
+  if (req.sessionId && req.session) {
+    await endSession({ sessionId: req.sessionId, session: req.session });
   }
 
   res.clearCookie(cookieName, {
@@ -143,47 +165,247 @@ router.get('/status', authMiddleware, (req: AuthenticatedRequest, res: Response)
     });
   }
 
+  const cookieName = process.env.NODE_ENV === 'production' ? 'byselfdb_session' : 'byselfdb_session_dev';
+
   return res.json({
     success: true,
     data: {
       databaseName: req.session.databaseName,
       readOnly: req.session.readOnly,
+      allowedScope: req.session.allowedScope,
+      maxAffected: getMaxAffected(req.session),
       expiresAt: new Date(req.session.expiresAt).toISOString(),
+      // for pages that reloaded since /connect. api tokens don't need one.
+      csrfToken: req.apiTokenId ? null : issueCsrfToken(req.cookies[cookieName]),
     },
   });
 });
 
-router.post('/switch-database', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  const { databaseName } = req.body;
+router.get('/whoami', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.session) {
+    return res.status(401).json({
+      success: false,
+      error: 'No active session',
+    });
+  }
 
-  if (!databaseName || typeof databaseName !== 'string') {
-    return res.status(400).json({
+  const client = await getConnectionFromSession(req.session, res);
+
+  if (!client) {
+    return res.status(401).json({
       success: false,
-      error: 'Database name is required',
+      error: 'Failed to connect to database',
+    });
+  }
+
+  try {
+    const authInfo = await getAuthInfo(client);
+    const database = req.session.databaseName;
+
+    return res.json({
+      success: true,
+      data: {
+        // false when the deployment runs without access control
+        authenticated: authInfo.authenticated,
+        users: authInfo.users,
+        roles: authInfo.roles,
+        privileges: authInfo.privileges,
+        database,
+        databaseRoles: rolesOnDatabase(authInfo, database),
+      },
     });
+  } catch (error) {
+    log.error('whoami failed', { error });
+    return sendMongoError(res, error, 'Failed to read user privileges');
   }
+});
+
+interface MemberState {
+  name: string;
+  state: string;
+  health: number | null;
+  pingMs: number | null;
+}
 
-  if (!req.sessionId) {
+function topologyType(client: MongoClient, hello: Document): string {
+  if (client.options.loadBalanced) return 'LoadBalanced';
+  if (hello.msg === 'isdbgrid') return 'Sharded';
+  if (hello.setName) return 'ReplicaSet';
+  return 'Single';
+}
+
+/**
+ * member states from replSetGetStatus. users without clusterMonitor only
+ * get what hello knows: the hosts and which one is primary.
+ */
+async function replicaSetMembers(client: MongoClient, hello: Document): Promise<{ source: string; members: MemberState[] }> {
+  try {
+    const status = await client.db('admin').command({ replSetGetStatus: 1 });
+    return {
+      source: 'replSetGetStatus',
+      members: (status.members as Document[]).map(member => ({
+        name: member.name,
+        state: member.stateStr,
+        health: member.health ?? null,
+        pingMs: member.pingMs ?? null,
+      })),
+    };
+  } catch {
+    const hosts: string[] = [...(hello.hosts ?? []), ...(hello.passives ?? []), ...(hello.arbiters ?? [])];
+    return {
+      source: 'hello',
+      members: hosts.map(name => ({
+        name,
+        state: name === hello.primary ? 'PRIMARY' : hello.arbiters?.includes(name) ? 'ARBITER' : 'UNKNOWN',
+        health: null,
+        pingMs: null,
+      })),
+    };
+  }
+}
+
+router.get('/status/connection', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.session) {
+    return res.status(401).json({
+      success: false,
+      error: 'No active session',
+    });
+  }
+
+  const client = await getConnectionFromSession(req.session, res);
+
+  if (!client) {
+    return res.status(503).json({
+      success: false,
+      error: 'Failed to connect to database',
+    });
+  }
+
+  try {
+    const admin = client.db('admin');
+    const startedAt = performance.now();
+    await admin.command({ ping: 1 });
+    const latencyMs = Math.round((performance.now() - startedAt) * 10) / 10;
+
+    const hello = await admin.command({ hello: 1 });
+    const topology = topologyType(client, hello);
+    const replicaSet = topology === 'ReplicaSet'
+      ? { name: hello.setName, ...(await replicaSetMembers(client, hello)) }
+      : null;
+
+    return res.json({
+      success: true,
+      data: {
+        latencyMs,
+        topology,
+        serverVersion: (await admin.command({ buildInfo: 1 })).version ?? null,
+        isWritablePrimary: hello.isWritablePrimary ?? null,
+        me: hello.me ?? null,
+        replicaSet,
+      },
+    });
+  } catch (error) {
+    log.error('connection probe failed', { error });
+    return res.status(503).json({
+      success: false,
+      error: 'Database did not answer',
+    });
+  }
+});
+
+router.post('/switch-database', authMiddleware, validate(switchDatabase), async (req: AuthenticatedRequest, res: Response) => {
+  const { databaseName, readOnly } = validated(req, switchDatabase).body;
+
+  if (!req.sessionId || !req.session) {
     return res.status(401).json({
       success: false,
       error: 'No active session',
     });
   }
 
+  if (req.apiTokenId) {
+    return res.status(400).json({
+      success: false,
+      error: 'API tokens keep the database they were created with. Pass database on each request instead.',
+    });
+  }
+
+  // downgrade only. lifting read-only needs a new /connect.
+  if (req.session.readOnly && readOnly === false) {
+    return res.status(403).json({
+      success: false,
+      error: 'Read-only mode cannot be disabled for this session',
+    });
+  }
+
+  const nextReadOnly = req.session.readOnly || readOnly === true;
+
+  const client = await getConnectionFromSession(req.session, res);
+
+  if (!client) {
+    return res.status(401).json({
+      success: false,
+      error: 'Failed to connect to database',
+    });
+  }
+
+  let roles: UserRole[];
+
+  try {
+    // authorizedDatabases: users without listDatabases still see the ones they have privileges on
+    const { databases } = await client.db('admin').admin().listDatabases({
+      nameOnly: true,
+      authorizedDatabases: true,
+      filter: { name: databaseName },
+    });
+
+    if (databases.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Database "${databaseName}" does not exist`,
+      });
+    }
+
+    const authInfo = await getAuthInfo(client);
+
+    if (!canAccessDatabase(authInfo, databaseName)) {
+      return res.status(403).json({
+        success: false,
+        error: `Not authorized on database "${databaseName}"`,
+      });
+    }
+
+    roles = rolesOnDatabase(authInfo, databaseName);
+  } catch (error) {
+    log.error('switch-database failed', { error });
+    return sendMongoError(res, error, 'Failed to check database access');
+  }
+
   // update
-  const updated = updateSession(req.sessionId, { databaseName });
+  const sessionToken = await changeSession(
+    { sessionId: req.sessionId, session: req.session },
+    { databaseName, readOnly: nextReadOnly }
+  );
 
-  if (!updated) {
+  if (!sessionToken) {
     return res.status(401).json({
       success: false,
       error: 'Session expired',
     });
   }
 
+  // stateless tokens are reissued on every change
+  setSessionCookie(res, sessionToken);
+
   return res.json({
     success: true,
     data: {
       databaseName,
+      readOnly: nextReadOnly,
+      // empty when access control is off
+      roles,
+      // stateless cookies are reissued, and the csrf token with them
+      csrfToken: issueCsrfToken(sessionToken),
       message: `Successfully switched to database: ${databaseName}`,
     },
   });
@@ -1,10 +1,25 @@
 import { Router, Response } from 'express';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { getConnectionFromSession } from '../lib/mongodb.js';
+import { AuthInfo, getAuthInfo, Permissions, permissionsOn } from '../lib/privileges.js';
+import { SessionData } from '../lib/sessionStore.js';
 import type { CollectionInfo } from '../types/index.js';
+import { isDatabaseInScope, isNamespaceInScope } from '../utils/scope.js';
+import { sendMongoError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { validate, validated } from '../middleware/validate.js';
+import { collectionStats, listCollections } from '../schemas/database.js';
+
+const log = createLogger('database');
 
 const router = Router();
 
+// a read-only session can't write or build indexes whatever its privileges say
+function sessionPermissions(session: SessionData, info: AuthInfo, database: string, collection?: string): Permissions {
+  const permissions = permissionsOn(info, database, collection);
+  return session.readOnly ? { ...permissions, canWrite: false, canIndex: false } : permissions;
+}
+
 router.get('/databases', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   if (!req.session) {
     return res.status(401).json({
@@ -13,7 +28,7 @@ router.get('/databases', authMiddleware, async (req: AuthenticatedRequest, res:
     });
   }
 
-  const client = await getConnectionFromSession(req.session);
+  const client = await getConnectionFromSession(req.session, res);
 
   if (!client) {
     return res.status(401).json({
@@ -25,34 +40,29 @@ router.get('/databases', authMiddleware, async (req: AuthenticatedRequest, res:
   try {
     const adminDb = client.db('admin');
     const result = await adminDb.command({ listDatabases: 1 });
+    const authInfo = await getAuthInfo(client);
+    const session = req.session;
 
-    const databases = result.databases.map((db: { name: string; sizeOnDisk?: number }) => ({
-      name: db.name,
-      sizeOnDisk: db.sizeOnDisk,
-    }));
+    const databases = result.databases
+      .filter((db: { name: string }) => isDatabaseInScope(session.allowedScope, db.name))
+      .map((db: { name: string; sizeOnDisk?: number }) => ({
+        name: db.name,
+        sizeOnDisk: db.sizeOnDisk,
+        ...sessionPermissions(session, authInfo, db.name),
+      }));
 
     return res.json({
       success: true,
       data: { databases },
     });
   } catch (error) {
-    console.error('[databases] error:', error instanceof Error ? error.message : 'Unknown error');
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to list databases',
-    });
+    log.error('databases failed', { error });
+    return sendMongoError(res, error, 'Failed to list databases');
   }
 });
 
-router.get('/collections', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  const { database } = req.query;
-
-  if (!database || typeof database !== 'string') {
-    return res.status(400).json({
-      success: false,
-      error: 'Database name is required',
-    });
-  }
+router.get('/collections', authMiddleware, validate(listCollections), async (req: AuthenticatedRequest, res: Response) => {
+  const { database } = validated(req, listCollections).query;
 
   if (!req.session) {
     return res.status(401).json({
@@ -61,7 +71,7 @@ router.get('/collections', authMiddleware, async (req: AuthenticatedRequest, res
     });
   }
 
-  const client = await getConnectionFromSession(req.session);
+  const client = await getConnectionFromSession(req.session, res);
 
   if (!client) {
     return res.status(401).json({
@@ -72,10 +82,14 @@ router.get('/collections', authMiddleware, async (req: AuthenticatedRequest, res
 
   try {
     const db = client.db(database);
-    const collections = await db.listCollections().toArray();
+    const session = req.session;
+    const collections = (await db.listCollections().toArray())
+      .filter((col) => isNamespaceInScope(session.allowedScope, database, col.name));
+    const authInfo = await getAuthInfo(client);
 
     const collectionsWithStats: CollectionInfo[] = await Promise.all(
       collections.map(async (col) => {
+        const permissions = sessionPermissions(session, authInfo, database, col.name);
         try {
           const count = await db.collection(col.name).countDocuments();
           const stats = await db.command({ collStats: col.name });
@@ -83,12 +97,14 @@ router.get('/collections', authMiddleware, async (req: AuthenticatedRequest, res
             name: col.name,
             documentCount: count,
             size: stats.size,
+            ...permissions,
           };
         } catch {
           return {
             name: col.name,
             documentCount: 0,
             size: 0,
+            ...permissions,
           };
         }
       })
@@ -102,23 +118,13 @@ router.get('/collections', authMiddleware, async (req: AuthenticatedRequest, res
       },
     });
   } catch (error) {
-    console.error('[collections] error:', error instanceof Error ? error.message : 'Unknown error');
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to list collections',
-    });
+    log.error('collections failed', { error });
+    return sendMongoError(res, error, 'Failed to list collections');
   }
 });
 
-router.get('/collection-stats', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
-  const { database, collection } = req.query;
-
-  if (!database || !collection || typeof database !== 'string' || typeof collection !== 'string') {
-    return res.status(400).json({
-      success: false,
-      error: 'Database and collection names are required',
-    });
-  }
+router.get('/collection-stats', authMiddleware, validate(collectionStats), async (req: AuthenticatedRequest, res: Response) => {
+  const { database, collection } = validated(req, collectionStats).query;
 
   if (!req.session) {
     return res.status(401).json({
@@ -127,7 +133,7 @@ router.get('/collection-stats', authMiddleware, async (req: AuthenticatedRequest
     });
   }
 
-  const client = await getConnectionFromSession(req.session);
+  const client = await getConnectionFromSession(req.session, res);
 
   if (!client) {
     return res.status(401).json({
@@ -157,26 +163,8 @@ router.get('/collection-stats', authMiddleware, async (req: AuthenticatedRequest
       },
     });
   } catch (error) {
-    console.error('[stats] error:', error instanceof Error ? error.message : 'Unknown error');
-
-    if (error instanceof Error && (error.message.includes('not authorized') || error.message.includes('auth failed'))) {
-      return res.json({
-        success: true,
-        data: {
-          documentCount: 0,
-          size: 0,
-          storageSize: 0,
-          indexCount: 0,
-          indexes: [],
-          message: 'Access restricted: Stats not available',
-        },
-      });
-    }
-
-    return res.status(500).json({
-      success: false,
-      error: 'Failed to get collection stats',
-    });
+    log.error('stats failed', { error });
+    return sendMongoError(res, error, 'Failed to get collection stats');
   }
 });
 
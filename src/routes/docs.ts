@@ -0,0 +1,19 @@
+import { Router, Request, Response } from 'express';
+import { buildOpenApiSpec } from '../lib/openapi.js';
+import { DOCS_PAGE } from '../lib/docsPage.js';
+
+const router = Router();
+
+// the schemas don't change while running, build once
+let spec: Record<string, unknown> | null = null;
+
+router.get('/openapi.json', (req: Request, res: Response) => {
+  spec ??= buildOpenApiSpec();
+  res.json(spec);
+});
+
+router.get('/docs', (req: Request, res: Response) => {
+  res.type('html').send(DOCS_PAGE);
+});
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router, Request, Response } from 'express';
+import { checkReadiness, isShuttingDown } from '../lib/health.js';
+
+const router = Router();
+
+const VERSION = '1.0.0';
+
+router.get('/health', (req: Request, res: Response) => {
+  res.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    version: VERSION,
+  });
+});
+
+// liveness: the process answers. a restart won't fix anything readiness reports.
+router.get('/health/live', (req: Request, res: Response) => {
+  res.json({
+    status: 'alive',
+    timestamp: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime()),
+    shuttingDown: isShuttingDown(),
+  });
+});
+
+// readiness: 503 takes the instance out of rotation until the checks pass again
+router.get('/health/ready', async (req: Request, res: Response) => {
+  const { ready, checks } = await checkReadiness();
+  res.status(ready ? 200 : 503).json({
+    status: ready ? 'ready' : 'not ready',
+    timestamp: new Date().toISOString(),
+    version: VERSION,
+    checks,
+  });
+});
+
+export default router;
@@ -0,0 +1,115 @@
+import { Router, Response } from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { getConnectionFromSession } from '../lib/mongodb.js';
+import { entrySummary, getEntry, journalOwner, listEntries, lockEntry, readChanges, revertEntry } from '../lib/journal.js';
+import { isNamespaceInScope } from '../utils/scope.js';
+import { sendMongoError } from '../lib/errors.js';
+import { createLogger } from '../lib/logger.js';
+import { validate, validated } from '../middleware/validate.js';
+import { getHistoryEntry, listHistory, revertHistory } from '../schemas/history.js';
+
+const log = createLogger('history');
+
+const router = Router();
+
+router.get('/history', authMiddleware, validate(listHistory), (req: AuthenticatedRequest, res: Response) => {
+  const { database, collection, limit } = validated(req, listHistory).query;
+
+  const entries = listEntries(journalOwner(req.sessionId!), {
+    database: database || undefined,
+    collection: collection || undefined,
+    limit,
+  });
+
+  return res.json({
+    success: true,
+    data: entries.map(entrySummary),
+  });
+});
+
+router.get('/history/:entryId', authMiddleware, validate(getHistoryEntry), async (req: AuthenticatedRequest, res: Response) => {
+  const entry = getEntry(journalOwner(req.sessionId!), String(req.params.entryId));
+  if (!entry) {
+    return res.status(404).json({ success: false, error: 'History entry not found' });
+  }
+
+  try {
+    return res.json({
+      success: true,
+      data: {
+        ...entrySummary(entry),
+        changes: await readChanges(entry),
+      },
+    });
+  } catch (error) {
+    log.error('reading entry failed', { error });
+    return res.status(500).json({ success: false, error: 'Failed to read history entry' });
+  }
+});
+
+router.post('/history/:entryId/revert', authMiddleware, validate(revertHistory), async (req: AuthenticatedRequest, res: Response) => {
+  const { force } = validated(req, revertHistory).body;
+
+  const entry = getEntry(journalOwner(req.sessionId!), String(req.params.entryId));
+  if (!entry) {
+    return res.status(404).json({ success: false, error: 'History entry not found' });
+  }
+
+  if (!req.session) {
+    return res.status(401).json({ success: false, error: 'Session required' });
+  }
+
+  // the session may have been narrowed since the change was made
+  if (!isNamespaceInScope(req.session.allowedScope, entry.database, entry.collection)) {
+    return res.status(403).json({
+      success: false,
+      error: `Access to "${entry.database}.${entry.collection}" is outside of this session's scope`,
+    });
+  }
+
+  if (entry.truncated) {
+    return res.status(409).json({
+      success: false,
+      error: 'This change touched more documents than the journal keeps and cannot be reverted',
+    });
+  }
+
+  // held from here on, so two reverts of one entry can't both write
+  const release = lockEntry(entry);
+  if (!release) {
+    return res.status(409).json({
+      success: false,
+      error: entry.revertedAt !== null ? 'This change has already been reverted' : 'This change is already being reverted',
+    });
+  }
+
+  try {
+    const client = await getConnectionFromSession(req.session, res);
+    if (!client) {
+      return res.status(401).json({ success: false, error: 'Failed to connect to database' });
+    }
+
+    const col = client.db(entry.database).collection(entry.collection);
+    const result = await revertEntry(entry, col, force);
+
+    if (!result.reverted) {
+      return res.status(409).json({
+        success: false,
+        error: `${result.conflicts.length} document(s) changed since this entry, send force: true to overwrite them`,
+        data: result,
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    log.error('revert failed', { error });
+    return sendMongoError(res, error, 'Failed to revert change');
+  } finally {
+    release();
+  }
+});
+
+export default router;
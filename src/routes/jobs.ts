@@ -0,0 +1,93 @@
+import { Router, Response } from 'express';
+import { createReadStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { cancelJob, getArtifactPath, getJob, Job, jobSummary, listJobs } from '../lib/jobs.js';
+import { createLogger } from '../lib/logger.js';
+import { validate } from '../middleware/validate.js';
+import { cancelBackgroundJob, downloadArtifact, getBackgroundJob } from '../schemas/jobs.js';
+
+const log = createLogger('jobs');
+
+const router = Router();
+
+/**
+ * ?async=true (or "async": true in a body) hands the work to a background job
+ */
+export function wantsAsync(req: AuthenticatedRequest): boolean {
+  const value = req.query.async ?? req.body?.async;
+  return value === true || value === 'true' || value === '1';
+}
+
+export function acceptedJob(res: Response, job: Job) {
+  res.setHeader('Location', `/api/jobs/${job.id}`);
+  return res.status(202).json({
+    success: true,
+    data: jobSummary(job),
+  });
+}
+
+router.get('/jobs', authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+  return res.json({
+    success: true,
+    data: listJobs(req.sessionId!).map(jobSummary),
+  });
+});
+
+router.get('/jobs/:id', authMiddleware, validate(getBackgroundJob), (req: AuthenticatedRequest, res: Response) => {
+  const job = getJob(req.sessionId!, String(req.params.id));
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+
+  return res.json({
+    success: true,
+    data: jobSummary(job),
+  });
+});
+
+router.post('/jobs/:id/cancel', authMiddleware, validate(cancelBackgroundJob), (req: AuthenticatedRequest, res: Response) => {
+  const id = String(req.params.id);
+  const job = getJob(req.sessionId!, id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+
+  if (!cancelJob(req.sessionId!, id)) {
+    return res.status(409).json({
+      success: false,
+      error: job.status === 'running' ? 'Job can no longer be cancelled' : `Job already ${job.status}`,
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: jobSummary(getJob(req.sessionId!, id) ?? job),
+  });
+});
+
+router.get('/jobs/:id/artifact', authMiddleware, validate(downloadArtifact), async (req: AuthenticatedRequest, res: Response) => {
+  const job = getJob(req.sessionId!, String(req.params.id));
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+
+  const path = getArtifactPath(job);
+  if (!path || !job.artifact) {
+    return res.status(404).json({ success: false, error: 'Job has no artifact' });
+  }
+
+  res.setHeader('Content-Type', job.artifact.contentType);
+  res.setHeader('Content-Length', String(job.artifact.size));
+  res.setHeader('Content-Disposition', `attachment; filename="${job.artifact.fileName.replace(/["\\\r\n]/g, '_')}"`);
+
+  try {
+    await pipeline(createReadStream(path), res);
+  } catch (error) {
+    log.error('artifact stream failed', { error });
+    res.destroy();
+  }
+  return;
+});
+
+export default router;
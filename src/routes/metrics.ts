@@ -0,0 +1,59 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+  Gauge,
+  mongoClientsClosed,
+  mongoClientsRejected,
+  mongoConnectionFailures,
+  mongoConnectionsCreated,
+  renderMetrics,
+} from '../lib/metrics.js';
+import { getActiveConnectionCount, getCheckedOutConnectionCount, poolEvents } from '../lib/mongodb.js';
+import { getActiveSessionCount } from '../lib/sessionStore.js';
+import { config } from '../config/index.js';
+
+const router = Router();
+
+new Gauge('byselfdb_active_sessions', 'Sessions in the server-mode session store.', getActiveSessionCount);
+new Gauge('byselfdb_mongo_clients', 'MongoDB clients in the connection pool.', getActiveConnectionCount);
+new Gauge('byselfdb_mongo_connections_checked_out', 'Sockets in use across pooled MongoDB clients.', getCheckedOutConnectionCount);
+
+poolEvents.on('created', () => mongoConnectionsCreated.inc());
+poolEvents.on('failed', () => mongoConnectionFailures.inc());
+poolEvents.on('closed', reason => mongoClientsClosed.inc({ reason }));
+poolEvents.on('rejected', () => mongoClientsRejected.inc());
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * with METRICS_TOKEN set, scrapes need Authorization: Bearer <token>
+ */
+function metricsAuth(req: Request, res: Response, next: NextFunction) {
+  if (!config.METRICS_TOKEN) {
+    next();
+    return;
+  }
+
+  const header = req.get('authorization');
+  const token = header?.startsWith('Bearer ') ? header.slice(7) : null;
+
+  // hashed first so the comparison is constant time whatever the lengths
+  if (!token || !timingSafeEqual(sha256(token), sha256(config.METRICS_TOKEN))) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid metrics token',
+    });
+    return;
+  }
+
+  next();
+}
+
+router.get('/metrics', metricsAuth, async (req: Request, res: Response) => {
+  res.type('text/plain; version=0.0.4; charset=utf-8');
+  res.send(await renderMetrics());
+});
+
+export default router;
@@ -0,0 +1,201 @@
+import { Router, Request, Response } from 'express';
+import { ensureProfileOwner, getProfileOwner } from '../middleware/profileOwner.js';
+import {
+  createProfile,
+  deleteProfile,
+  getProfile,
+  listProfiles,
+  MAX_PROFILES_PER_OWNER,
+  updateProfile,
+  ProfileInput,
+} from '../lib/profileStore.js';
+import { validateUriForSsrf } from '../utils/ssrf.js';
+import { parseScope } from '../utils/scope.js';
+import { parseMongoUri } from '../utils/uri.js';
+import { createLogger } from '../lib/logger.js';
+import { validate, validated } from '../middleware/validate.js';
+import { createConnection, deleteConnection, getConnection, updateConnection } from '../schemas/profiles.js';
+
+const log = createLogger('profiles');
+
+const router = Router();
+
+/**
+ * the checks zod can't do: uri format and ssrf, scope patterns
+ */
+function checkProfileInput(
+  body: { uri?: string; scope?: string | string[] | null },
+  partial: boolean
+): { valid: true; uri?: string; scope?: string[] } | { valid: false; error: string } {
+  let uri: string | undefined;
+  if (body.uri !== undefined) {
+    if (!parseMongoUri(body.uri)) {
+      return { valid: false, error: 'Invalid MongoDB URI format' };
+    }
+
+    // check for private ranges
+    const ssrfCheck = validateUriForSsrf(body.uri);
+    if (!ssrfCheck.valid) {
+      return { valid: false, error: ssrfCheck.error };
+    }
+    uri = body.uri;
+  }
+
+  let scope: string[] | undefined;
+  if (body.scope !== undefined || !partial) {
+    const scopeResult = parseScope(body.scope);
+    if (!scopeResult.valid) {
+      return { valid: false, error: scopeResult.error };
+    }
+    scope = scopeResult.scope;
+  }
+
+  return { valid: true, uri, scope };
+}
+
+router.get('/connections', (req: Request, res: Response) => {
+  const ownerId = getProfileOwner(req);
+
+  return res.json({
+    success: true,
+    data: {
+      connections: ownerId ? listProfiles(ownerId) : [],
+    },
+  });
+});
+
+router.get('/connections/:id', validate(getConnection), (req: Request, res: Response) => {
+  const ownerId = getProfileOwner(req);
+  const profile = ownerId ? getProfile(ownerId, String(req.params.id)) : null;
+
+  if (!profile) {
+    return res.status(404).json({
+      success: false,
+      error: 'Connection profile not found',
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: profile,
+  });
+});
+
+router.post('/connections', validate(createConnection), async (req: Request, res: Response) => {
+  const body = validated(req, createConnection).body;
+  const result = checkProfileInput(body, false);
+
+  if (!result.valid) {
+    return res.status(400).json({
+      success: false,
+      error: result.error,
+    });
+  }
+
+  try {
+    const ownerId = ensureProfileOwner(req, res);
+    const profile = await createProfile(ownerId, {
+      name: body.name,
+      uri: result.uri!,
+      defaultDatabase: body.defaultDatabase,
+      readOnly: body.readOnly,
+      scope: result.scope!,
+    });
+
+    if (profile === 'owner-full') {
+      return res.status(409).json({
+        success: false,
+        error: `At most ${MAX_PROFILES_PER_OWNER} saved profiles. Delete one first.`,
+      });
+    }
+    if (profile === 'store-full') {
+      return res.status(507).json({
+        success: false,
+        error: 'The profile store is full',
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: profile,
+    });
+  } catch (error) {
+    log.error('create failed', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to save connection profile',
+    });
+  }
+});
+
+router.put('/connections/:id', validate(updateConnection), async (req: Request, res: Response) => {
+  const ownerId = getProfileOwner(req);
+  const { name, uri, defaultDatabase, readOnly, scope } = validated(req, updateConnection).body;
+  const result = checkProfileInput({ uri, scope }, true);
+
+  if (!result.valid) {
+    return res.status(400).json({
+      success: false,
+      error: result.error,
+    });
+  }
+
+  // only what was sent
+  const updates: Partial<ProfileInput> = Object.fromEntries(Object.entries({
+    name,
+    uri: result.uri,
+    defaultDatabase,
+    readOnly,
+    scope: result.scope,
+  }).filter(([, value]) => value !== undefined));
+
+  try {
+    const profile = ownerId ? await updateProfile(ownerId, String(req.params.id), updates) : null;
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Connection profile not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: profile,
+    });
+  } catch (error) {
+    log.error('update failed', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update connection profile',
+    });
+  }
+});
+
+router.delete('/connections/:id', validate(deleteConnection), async (req: Request, res: Response) => {
+  const ownerId = getProfileOwner(req);
+
+  try {
+    const deleted = ownerId ? await deleteProfile(ownerId, String(req.params.id)) : false;
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Connection profile not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Connection profile deleted',
+    });
+  } catch (error) {
+    log.error('delete failed', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete connection profile',
+    });
+  }
+});
+
+export default router;
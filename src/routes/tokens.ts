@@ -0,0 +1,122 @@
+import { Router, Response, NextFunction } from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { createApiToken, listApiTokens, MAX_TOKENS_PER_OWNER, revokeApiToken } from '../lib/apiTokens.js';
+import { narrowScope, parseScope } from '../utils/scope.js';
+import { createLogger } from '../lib/logger.js';
+import { validate, validated } from '../middleware/validate.js';
+import { createToken, deleteToken } from '../schemas/tokens.js';
+
+const log = createLogger('tokens');
+
+const router = Router();
+
+/**
+ * tokens are managed from a cookie session. a token can't mint,
+ * list or revoke tokens itself.
+ */
+function sessionOnly(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (req.apiTokenId) {
+    res.status(403).json({
+      success: false,
+      error: 'API tokens cannot manage tokens. Use a session.',
+    });
+    return;
+  }
+  next();
+}
+
+router.get('/tokens', authMiddleware, sessionOnly, (req: AuthenticatedRequest, res: Response) => {
+  return res.json({
+    success: true,
+    data: {
+      tokens: listApiTokens(req.session!),
+    },
+  });
+});
+
+router.post('/tokens', authMiddleware, sessionOnly, validate(createToken), async (req: AuthenticatedRequest, res: Response) => {
+  const { name, expiresInDays, scope, readOnly } = validated(req, createToken).body;
+  const session = req.session!;
+
+  let tokenScope = session.allowedScope;
+  if (scope !== undefined && scope !== null) {
+    const scopeResult = parseScope(scope);
+    if (!scopeResult.valid) {
+      return res.status(400).json({
+        success: false,
+        error: scopeResult.error,
+      });
+    }
+
+    const narrowed = narrowScope(session.allowedScope, scopeResult.scope);
+    if (!narrowed) {
+      return res.status(403).json({
+        success: false,
+        error: 'Token scope must stay within the session scope',
+      });
+    }
+    tokenScope = narrowed;
+  }
+
+  try {
+    const created = await createApiToken(session, {
+      name: name.trim(),
+      expiresInDays,
+      scope: tokenScope,
+      // a read-only session can't hand out write access
+      readOnly: session.readOnly || readOnly,
+    });
+
+    if (!created) {
+      return res.status(409).json({
+        success: false,
+        error: `At most ${MAX_TOKENS_PER_OWNER} tokens per connection. Revoke one first.`,
+      });
+    }
+
+    log.info('token created', { id: created.summary.id, expiresInDays });
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        ...created.summary,
+        token: created.token,
+      },
+      message: 'Store the token now, it will not be shown again',
+    });
+  } catch (error) {
+    log.error('create failed', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create API token',
+    });
+  }
+});
+
+router.delete('/tokens/:id', authMiddleware, sessionOnly, validate(deleteToken), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const revoked = await revokeApiToken(req.session!, String(req.params.id));
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        error: 'API token not found',
+      });
+    }
+
+    log.info('token revoked', { id: req.params.id });
+
+    return res.json({
+      success: true,
+      message: 'API token revoked',
+    });
+  } catch (error) {
+    log.error('revoke failed', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API token',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,269 @@
+import { z } from 'zod';
+import { EXPORT_FORMATS } from '../lib/export.js';
+import { JOB_STATUSES } from '../lib/jobs.js';
+import { DEFAULT_BATCH_SIZE, IMPORT_FORMATS, IMPORT_MODES, MAX_BATCH_SIZE } from '../lib/import.js';
+import { bsonObject, databaseName, ejsonQuery, fields, fromQuery, namespace, queryFlag, queryInt } from './common.js';
+
+// run as a background job, see lib/jobs.ts
+const asyncBody = z.boolean().optional();
+
+export const INDEX_TYPES = ['2d', '2dsphere', 'text', 'hashed'] as const;
+
+export const VALIDATION_LEVELS = ['off', 'strict', 'moderate'] as const;
+// errorAndLog needs mongodb 8.1+
+export const VALIDATION_ACTIONS = ['error', 'warn', 'errorAndLog'] as const;
+
+export const schemaAnalysis = {
+  query: fields({
+    ...namespace,
+    async: queryFlag,
+  }),
+  response: z.object({
+    fields: z.array(z.object({
+      // dotted path for nested fields
+      field: z.string(),
+      types: z.array(z.object({
+        type: z.string(),
+        count: z.number().int(),
+        percentage: z.number(),
+      })),
+      presence: z.number(),
+      examples: z.array(z.unknown()),
+    })),
+    sampleSize: z.number().int(),
+    totalDocuments: z.number().int(),
+  }),
+};
+
+export const exportDocuments = {
+  query: fields({
+    ...namespace,
+    format: z.enum(EXPORT_FORMATS).default('ndjson'),
+    filter: ejsonQuery.optional(),
+    projection: ejsonQuery.optional(),
+    sort: ejsonQuery.optional(),
+    // 0 exports everything
+    limit: fromQuery(queryInt(0).default(0)),
+    // csv columns, comma separated
+    fields: z.string().optional(),
+    gzip: queryFlag,
+  }),
+};
+
+export const listIndexes = {
+  query: fields(namespace),
+  response: z.object({
+    indexes: z.array(z.object({
+      name: z.string(),
+      key: z.record(z.string(), z.unknown()),
+      unique: z.boolean(),
+      sparse: z.boolean(),
+      background: z.boolean(),
+    })),
+    totalIndexSize: z.number(),
+    indexSizes: z.record(z.string(), z.number()),
+  }),
+};
+
+export const createIndex = {
+  body: fields({
+    ...namespace,
+    // 1 / -1, or an index type
+    keys: z.record(z.string(), z.union([z.number(), z.enum(INDEX_TYPES)]), { required_error: 'Keys are required' })
+      .refine(keys => Object.keys(keys).length > 0, 'Keys must name at least one field'),
+    options: fields({
+      unique: z.boolean().optional(),
+      sparse: z.boolean().optional(),
+      name: z.string().min(1).optional(),
+    }).default({}),
+    async: asyncBody,
+  }),
+  response: z.object({ indexName: z.string() }),
+};
+
+export const dropIndex = {
+  params: z.object({ indexName: z.string().min(1) }),
+  query: fields(namespace),
+  response: z.object({ dropped: z.string() }),
+};
+
+export const aggregate = {
+  body: fields({
+    ...namespace,
+    pipeline: z.array(bsonObject('Stage'), {
+      required_error: 'Pipeline is required',
+      invalid_type_error: 'Pipeline must be an array of stages',
+    }),
+  }),
+  // at most 100 results
+  response: z.object({
+    results: z.array(z.record(z.string(), z.unknown())),
+    count: z.number().int(),
+  }),
+};
+
+const keyError = 'Key must name one or more fields';
+const mappingError = 'Mapping must map CSV headers to field names (or null to skip)';
+const batchSizeError = `Batch size must be between 1 and ${MAX_BATCH_SIZE}`;
+
+// how imported rows are written, see lib/import.ts
+const importWrite = {
+  mode: z.enum(IMPORT_MODES, {
+    errorMap: () => ({ message: `Mode must be one of: ${IMPORT_MODES.join(', ')}` }),
+  }).default('insert'),
+  // match fields for upsert / replace: an array or comma separated
+  key: z.union([z.string(), z.array(z.string())], { errorMap: () => ({ message: keyError }) })
+    .default('_id')
+    .transform(key => (Array.isArray(key) ? key : key.split(',')).map(field => field.trim()).filter(Boolean))
+    .refine(keys => keys.length > 0 && !keys.some(field => field.startsWith('$')), keyError),
+};
+
+const importJobSummary = z.object({
+  id: z.string(),
+  database: z.string(),
+  collection: z.string(),
+  format: z.enum(IMPORT_FORMATS),
+  mode: z.enum(IMPORT_MODES),
+  keys: z.array(z.string()),
+  status: z.enum(JOB_STATUSES),
+  // a resumed upload skips this many rows
+  rowsCommitted: z.number().int(),
+  inserted: z.number().int(),
+  upserted: z.number().int(),
+  matched: z.number().int(),
+  modified: z.number().int(),
+  failed: z.number().int(),
+  errors: z.array(z.object({ row: z.number().int(), error: z.string() })),
+  // more rows failed than are listed
+  errorsTruncated: z.boolean(),
+  error: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  finishedAt: z.string().datetime().nullable(),
+});
+
+const importJobId = z.object({ jobId: z.string().min(1) });
+
+export const importDocuments = {
+  body: fields({
+    ...namespace,
+    ...importWrite,
+    // rows that aren't objects are reported back by position, not rejected here
+    documents: z.array(z.unknown(), { required_error: 'Documents are required' })
+      .min(1, 'Documents must be a non-empty array')
+      .max(1000, 'Maximum 1000 documents per import, use /import/jobs for larger files'),
+  }),
+};
+
+export const startImportJob = {
+  body: fields({
+    ...namespace,
+    ...importWrite,
+    format: z.enum(IMPORT_FORMATS, {
+      errorMap: () => ({ message: `Format must be one of: ${IMPORT_FORMATS.join(', ')}` }),
+    }).default('ndjson'),
+    // csv only: header -> field path, null to drop the column
+    mapping: z.record(z.string(), z.string({ invalid_type_error: mappingError }).nullable(), { invalid_type_error: mappingError })
+      .default({})
+      .refine(mapping => !Object.values(mapping).some(field => field?.startsWith('$')), 'Mapped field names cannot start with $'),
+    // csv only: false keeps every cell a string
+    inferTypes: z.boolean({ invalid_type_error: 'inferTypes must be a boolean' }).default(true),
+    batchSize: z.number({ invalid_type_error: batchSizeError })
+      .int(batchSizeError)
+      .min(1, batchSizeError)
+      .max(MAX_BATCH_SIZE, batchSizeError)
+      .default(DEFAULT_BATCH_SIZE),
+  }),
+  response: importJobSummary,
+};
+
+export const importJobProgress = {
+  params: importJobId,
+  response: importJobSummary,
+};
+
+// the file is the raw body, not json
+export const uploadImportFile = {
+  params: importJobId,
+  response: importJobSummary,
+};
+
+export const getValidation = {
+  query: fields(namespace),
+};
+
+export const setValidation = {
+  body: fields({
+    ...namespace,
+    // empty or missing clears the validator
+    validator: bsonObject('Validator').optional(),
+    validationLevel: z.enum(VALIDATION_LEVELS).default('moderate'),
+    validationAction: z.enum(VALIDATION_ACTIONS).default('error'),
+  }),
+};
+
+export const slowQueries = {
+  query: fields({
+    database: databaseName,
+    minMs: fromQuery(queryInt(0).default(100)),
+  }),
+};
+
+export const setProfiling = {
+  body: fields({
+    database: databaseName,
+    // 0 = off, 1 = slow operations only, 2 = everything
+    level: z.union([z.literal(0), z.literal(1), z.literal(2)], {
+      errorMap: () => ({ message: 'Level must be 0, 1 or 2' }),
+    }).default(1),
+    slowMs: z.number().int().min(0).default(100),
+  }),
+};
+
+const opcounters = z.object({
+  insert: z.number(),
+  query: z.number(),
+  update: z.number(),
+  delete: z.number(),
+  getmore: z.number(),
+  command: z.number(),
+});
+
+export const serverStats = {
+  response: z.object({
+    host: z.string(),
+    version: z.string(),
+    uptime: z.number(),
+    uptimeMillis: z.number(),
+    connections: z.object({
+      current: z.number(),
+      available: z.number(),
+      totalCreated: z.number(),
+    }),
+    // MB
+    memory: z.object({
+      resident: z.number(),
+      virtual: z.number(),
+      mapped: z.number(),
+    }),
+    network: z.object({
+      bytesIn: z.number(),
+      bytesOut: z.number(),
+      numRequests: z.number(),
+    }),
+    opcounters,
+    // shared tiers hide memory and connections
+    restricted: z.boolean(),
+    message: z.string().optional(),
+  }),
+};
+
+export const liveOpcounters = {
+  response: z.object({
+    // ms, the client diffs successive counters
+    timestamp: z.number().int(),
+    opcounters,
+    connections: z.number(),
+    memory: z.number(),
+  }),
+};
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { fields, fromQuery, queryInt } from './common.js';
+
+export const AUDIT_OUTCOMES = ['success', 'denied', 'error'] as const;
+
+// an iso date or milliseconds since epoch
+const time = z.string().transform((value, ctx) => {
+  const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be an ISO date or milliseconds since epoch' });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+export const queryAudit = {
+  query: fields({
+    route: z.string().optional(),
+    database: z.string().optional(),
+    collection: z.string().optional(),
+    outcome: z.enum(AUDIT_OUTCOMES).optional(),
+    // only honoured for AUDIT_READ_TOKEN callers
+    session: z.string().optional(),
+    from: time.optional(),
+    to: time.optional(),
+    limit: fromQuery(queryInt(1, 1000).default(100)),
+  }),
+};
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { acknowledged, bsonObject, ejsonQuery, fields, fromQuery, namespace, queryInt } from './common.js';
+
+export const COUNT_MODES = ['exact', 'estimated', 'none'] as const;
+
+const documentId = z.object({ id: z.string().min(1) });
+const document = z.record(z.string(), z.unknown());
+
+export const listDocuments = {
+  query: fields({
+    ...namespace,
+    filter: ejsonQuery.optional(),
+    sort: ejsonQuery.optional(),
+    projection: ejsonQuery.optional(),
+    limit: fromQuery(queryInt(1, 1000).default(20)),
+    // ignored when a cursor is given
+    skip: fromQuery(queryInt(0).default(0)),
+    cursor: z.string().optional(),
+    countMode: z.enum(COUNT_MODES).default('exact'),
+  }),
+  response: z.object({
+    documents: z.array(document),
+    // null with countMode=none
+    totalCount: z.number().int().nullable(),
+    countMode: z.enum(COUNT_MODES),
+    hasMore: z.boolean(),
+    nextCursor: z.string().nullable(),
+    prevCursor: z.string().nullable(),
+    limit: z.number().int(),
+    skip: z.number().int(),
+  }),
+};
+
+export const documentTemplate = {
+  query: fields(namespace),
+};
+
+export const insertDocument = {
+  body: fields({
+    ...namespace,
+    document: bsonObject('Document'),
+  }),
+  response: z.object({
+    insertedId: z.unknown(),
+    acknowledged,
+  }),
+};
+
+export const updateDocument = {
+  params: documentId,
+  body: fields({
+    ...namespace,
+    update: bsonObject('Update'),
+  }),
+  response: z.object({
+    modifiedCount: z.number().int(),
+    upsertedCount: z.number().int(),
+    acknowledged,
+  }),
+};
+
+export const deleteDocument = {
+  params: documentId,
+  query: fields(namespace),
+  response: z.object({
+    deletedCount: z.number().int(),
+    acknowledged,
+  }),
+};
+
+export const bulkDocuments = {
+  body: fields({
+    ...namespace,
+    documents: z.array(bsonObject('Document'), { required_error: 'Documents are required' }).min(1, 'Documents must be a non-empty array'),
+    // delete matches on each document's _id
+    operation: z.enum(['insert', 'delete']).default('insert'),
+  }),
+  response: z.object({
+    insertedCount: z.number().int().optional(),
+    deletedCount: z.number().int().optional(),
+    acknowledged,
+  }),
+};
+
+const filterWrite = {
+  ...namespace,
+  // an empty filter is allowed, a missing one is not
+  filter: bsonObject('Filter (use {} to match every document)'),
+  // from the dry run, see lib/bulkConfirm.ts
+  confirmToken: z.string().optional(),
+  // with confirmToken: write in a background job
+  async: z.boolean().optional(),
+};
+
+export const updateMany = {
+  body: fields({
+    ...filterWrite,
+    update: bsonObject('Update'),
+  }),
+};
+
+export const deleteMany = {
+  body: fields(filterWrite),
+};
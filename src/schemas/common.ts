@@ -0,0 +1,79 @@
+import { z, ZodTypeAny } from 'zod';
+import { parseEjson } from '../utils/ejson.js';
+
+/**
+ * what a route accepts. middleware/validate.ts checks requests against it,
+ * and the same objects describe the api for docs and clients.
+ */
+export interface RouteSchema {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  // `data` of a successful response. documents the route, never checked.
+  response?: ZodTypeAny;
+}
+
+type Part = Exclude<keyof RouteSchema, 'response'>;
+
+/**
+ * the parsed type of one part of a route schema
+ */
+export type Input<S extends RouteSchema, P extends Part> = S[P] extends ZodTypeAny ? z.output<S[P]> : never;
+
+/**
+ * an object whose unlisted keys pass through untouched. shared middleware
+ * reads some of them (?format=ejson, ?async=true).
+ */
+export function fields<T extends z.ZodRawShape>(shape: T) {
+  return z.object(shape).passthrough();
+}
+
+export function requiredName(label: string) {
+  return z.string({
+    required_error: `${label} is required`,
+    invalid_type_error: `${label} must be a string`,
+  }).min(1, `${label} is required`);
+}
+
+// middleware/sessionDatabase.ts fills it in before validation, so callers may leave it out
+export const SESSION_DATABASE = 'Defaults to the session database';
+
+export const databaseName = requiredName('Database name').describe(SESSION_DATABASE);
+export const collectionName = requiredName('Collection name');
+
+export const namespace = {
+  database: databaseName,
+  collection: collectionName,
+};
+
+/**
+ * query strings are text, and an empty value means it wasn't given
+ */
+export function fromQuery<T extends ZodTypeAny>(schema: T) {
+  return z.preprocess(value => (value === '' ? undefined : value), schema);
+}
+
+export function queryInt(min: number, max = Number.MAX_SAFE_INTEGER) {
+  return z.coerce.number({ invalid_type_error: 'Must be a number' }).int('Must be a whole number').min(min).max(max);
+}
+
+// ?gzip=true, ?async=1
+export const queryFlag = fromQuery(
+  z.enum(['true', 'false', '1', '0']).optional().transform(value => value === 'true' || value === '1')
+);
+
+// filter / sort / projection in a query string: extended json text of an object
+export const ejsonQuery = z.string().refine((value) => {
+  const parsed = parseEjson(value);
+  return value === '' || (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed));
+}, 'Must be a JSON object');
+
+export const acknowledged = z.boolean();
+
+// a document, filter or update in a body, already decoded from extended json
+export function bsonObject(label: string) {
+  return z.record(z.string(), z.unknown(), {
+    required_error: `${label} is required`,
+    invalid_type_error: `${label} must be an object`,
+  });
+}
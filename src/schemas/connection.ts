@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { fields, requiredName } from './common.js';
+
+const maxAffectedError = `maxAffected must be a whole number between 1 and ${config.MAX_AFFECTED_LIMIT}`;
+
+export const connect = {
+  body: fields({
+    // a saved profile brings its own uri, scope and mode
+    profileId: z.string().min(1).optional(),
+    uri: z.string().min(1, 'URI is required').optional(),
+    // namespace patterns, checked by parseScope
+    scope: z.union([z.string(), z.array(z.string())]).nullish(),
+    readOnly: z.boolean({ invalid_type_error: 'readOnly must be a boolean' }).default(false),
+    maxAffected: z.number({ invalid_type_error: maxAffectedError })
+      .int(maxAffectedError)
+      .min(1, maxAffectedError)
+      .max(config.MAX_AFFECTED_LIMIT, maxAffectedError)
+      .default(config.MAX_AFFECTED_DEFAULT),
+  }).refine(body => body.profileId !== undefined || body.uri !== undefined, {
+    message: 'URI is required',
+    path: ['uri'],
+  }),
+  response: z.object({
+    databaseName: z.string(),
+    maskedUri: z.string(),
+    allowedScope: z.array(z.string()),
+    readOnly: z.boolean(),
+    maxAffected: z.number().int(),
+    // goes in X-CSRF-Token on mutating requests
+    csrfToken: z.string(),
+    message: z.string(),
+  }),
+};
+
+export const sessionStatus = {
+  response: z.object({
+    databaseName: z.string(),
+    readOnly: z.boolean(),
+    allowedScope: z.array(z.string()),
+    maxAffected: z.number().int(),
+    expiresAt: z.string().datetime(),
+    // null for api tokens
+    csrfToken: z.string().nullable(),
+  }),
+};
+
+export const switchDatabase = {
+  body: fields({
+    databaseName: requiredName('Database name'),
+    // can only turn read-only on
+    readOnly: z.boolean({ invalid_type_error: 'readOnly must be a boolean' }).optional(),
+  }),
+};
+
+const userRole = z.object({ role: z.string(), db: z.string() });
+
+export const whoami = {
+  response: z.object({
+    // false when the deployment runs without access control
+    authenticated: z.boolean(),
+    users: z.array(z.object({ user: z.string(), db: z.string() })),
+    roles: z.array(userRole),
+    privileges: z.array(z.object({
+      resource: z.record(z.string(), z.unknown()),
+      actions: z.array(z.string()),
+    })),
+    database: z.string(),
+    databaseRoles: z.array(userRole),
+  }),
+};
+
+export const connectionStatus = {
+  response: z.object({
+    latencyMs: z.number(),
+    topology: z.enum(['Single', 'ReplicaSet', 'Sharded', 'LoadBalanced']),
+    serverVersion: z.string().nullable(),
+    isWritablePrimary: z.boolean().nullable(),
+    me: z.string().nullable(),
+    // null outside a replica set
+    replicaSet: z.object({
+      name: z.string(),
+      // replSetGetStatus, or hello for users without clusterMonitor
+      source: z.enum(['replSetGetStatus', 'hello']),
+      members: z.array(z.object({
+        name: z.string(),
+        state: z.string(),
+        health: z.number().nullable(),
+        pingMs: z.number().nullable(),
+      })),
+    }).nullable(),
+  }),
+};
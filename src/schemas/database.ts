@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { databaseName, fields, namespace } from './common.js';
+
+// what the connected user may do there, see lib/privileges.ts
+const permissions = {
+  canRead: z.boolean(),
+  canWrite: z.boolean(),
+  canIndex: z.boolean(),
+};
+
+export const listDatabases = {
+  response: z.object({
+    databases: z.array(z.object({
+      name: z.string(),
+      sizeOnDisk: z.number().optional(),
+      ...permissions,
+    })),
+  }),
+};
+
+export const listCollections = {
+  query: fields({ database: databaseName }),
+  response: z.object({
+    collections: z.array(z.object({
+      name: z.string(),
+      documentCount: z.number().int(),
+      size: z.number(),
+      ...permissions,
+    })),
+    database: z.string(),
+  }),
+};
+
+export const collectionStats = {
+  query: fields(namespace),
+};
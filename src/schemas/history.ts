@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { fields, fromQuery, queryInt } from './common.js';
+
+const entryId = z.object({ entryId: z.string().min(1) });
+
+const entrySummary = z.object({
+  id: z.string(),
+  at: z.string().datetime(),
+  operation: z.string(),
+  database: z.string(),
+  collection: z.string(),
+  documentCount: z.number().int(),
+  // the first few, for listings
+  documentIds: z.array(z.unknown()),
+  // more documents changed than were kept, so it can't be reverted
+  truncated: z.boolean(),
+  revertible: z.boolean(),
+  revertedAt: z.string().datetime().nullable(),
+});
+
+export const listHistory = {
+  query: fields({
+    database: z.string().optional(),
+    collection: z.string().optional(),
+    limit: fromQuery(queryInt(1, 200).default(50)),
+  }),
+  response: z.array(entrySummary),
+};
+
+export const getHistoryEntry = {
+  params: entryId,
+  response: entrySummary.extend({
+    changes: z.array(z.object({
+      // the document _id, any bson type
+      id: z.unknown(),
+      // null: the document didn't exist before (insert) / after (delete)
+      before: z.record(z.string(), z.unknown()).nullable(),
+      after: z.record(z.string(), z.unknown()).nullable(),
+    })),
+  }),
+};
+
+export const revertHistory = {
+  params: entryId,
+  body: fields({
+    // revert even if the documents changed since
+    force: z.boolean({ invalid_type_error: 'force must be a boolean' }).default(false),
+  }),
+};
@@ -0,0 +1,77 @@
+import { RouteSchema } from './common.js';
+import * as analytics from './analytics.js';
+import * as audit from './audit.js';
+import * as collection from './collection.js';
+import * as connection from './connection.js';
+import * as database from './database.js';
+import * as history from './history.js';
+import * as jobs from './jobs.js';
+import * as profiles from './profiles.js';
+import * as tokens from './tokens.js';
+
+export type { Input, RouteSchema } from './common.js';
+
+/**
+ * route schemas by method and path under /api, for docs and clients.
+ * routes without input only list their response.
+ */
+export const routeSchemas: Record<string, RouteSchema> = {
+  'POST /connect': connection.connect,
+  'GET /status': connection.sessionStatus,
+  'GET /whoami': connection.whoami,
+  'GET /status/connection': connection.connectionStatus,
+  'POST /switch-database': connection.switchDatabase,
+
+  'GET /connections': profiles.listConnections,
+  'GET /connections/:id': profiles.getConnection,
+  'POST /connections': profiles.createConnection,
+  'PUT /connections/:id': profiles.updateConnection,
+  'DELETE /connections/:id': profiles.deleteConnection,
+
+  'GET /databases': database.listDatabases,
+  'GET /collections': database.listCollections,
+  'GET /collection-stats': database.collectionStats,
+
+  'GET /documents': collection.listDocuments,
+  'GET /documents/template': collection.documentTemplate,
+  'POST /documents': collection.insertDocument,
+  'PUT /documents/:id': collection.updateDocument,
+  'DELETE /documents/:id': collection.deleteDocument,
+  'POST /documents/bulk': collection.bulkDocuments,
+  'POST /documents/update-many': collection.updateMany,
+  'POST /documents/delete-many': collection.deleteMany,
+
+  'GET /server-stats': analytics.serverStats,
+  'GET /schema': analytics.schemaAnalysis,
+  'GET /export': analytics.exportDocuments,
+  'GET /indexes': analytics.listIndexes,
+  'POST /indexes': analytics.createIndex,
+  'DELETE /indexes/:indexName': analytics.dropIndex,
+  'POST /aggregate': analytics.aggregate,
+  'POST /import': analytics.importDocuments,
+  'POST /import/jobs': analytics.startImportJob,
+  'GET /import/jobs/:jobId': analytics.importJobProgress,
+  'POST /import/jobs/:jobId/upload': analytics.uploadImportFile,
+  'GET /validation': analytics.getValidation,
+  'PUT /validation': analytics.setValidation,
+  'GET /slow-queries': analytics.slowQueries,
+  'POST /profiling': analytics.setProfiling,
+  'GET /opcounters': analytics.liveOpcounters,
+
+  'GET /jobs': jobs.listBackgroundJobs,
+  'GET /jobs/:id': jobs.getBackgroundJob,
+  'POST /jobs/:id/cancel': jobs.cancelBackgroundJob,
+  'GET /jobs/:id/artifact': jobs.downloadArtifact,
+
+  'GET /history': history.listHistory,
+  'GET /history/:entryId': history.getHistoryEntry,
+  'POST /history/:entryId/revert': history.revertHistory,
+
+  'GET /audit': audit.queryAudit,
+
+  'GET /tokens': tokens.listTokens,
+  'POST /tokens': tokens.createToken,
+  'DELETE /tokens/:id': tokens.deleteToken,
+};
+
+export { analytics, audit, collection, connection, database, history, jobs, profiles, tokens };
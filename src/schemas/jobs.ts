@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { JOB_STATUSES } from '../lib/jobs.js';
+
+const jobId = z.object({ id: z.string().min(1) });
+
+const jobSummary = z.object({
+  id: z.string(),
+  type: z.string(),
+  description: z.string(),
+  status: z.enum(JOB_STATUSES),
+  progress: z.object({
+    processed: z.number().int(),
+    // null when the size of the work isn't known up front
+    total: z.number().int().nullable(),
+  }),
+  // depends on the job type
+  result: z.unknown(),
+  artifact: z.object({
+    fileName: z.string(),
+    contentType: z.string(),
+    size: z.number().int(),
+  }).nullable(),
+  error: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  startedAt: z.string().datetime().nullable(),
+  finishedAt: z.string().datetime().nullable(),
+});
+
+export const listBackgroundJobs = {
+  response: z.array(jobSummary),
+};
+
+export const getBackgroundJob = {
+  params: jobId,
+  response: jobSummary,
+};
+
+export const cancelBackgroundJob = {
+  params: jobId,
+  response: jobSummary,
+};
+
+export const downloadArtifact = {
+  params: jobId,
+};
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { fields } from './common.js';
+
+const MAX_NAME_LENGTH = 100;
+const nameError = `Name is required (max ${MAX_NAME_LENGTH} characters)`;
+
+const profileSummary = z.object({
+  id: z.string(),
+  name: z.string(),
+  maskedUri: z.string(),
+  defaultDatabase: z.string().nullable(),
+  readOnly: z.boolean(),
+  scope: z.array(z.string()),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+const profileId = z.object({ id: z.string().min(1) });
+
+// uri format and ssrf, and the scope patterns, are checked by the route
+const profileFields = {
+  name: z.string({ required_error: nameError, invalid_type_error: nameError })
+    .trim()
+    .min(1, nameError)
+    .max(MAX_NAME_LENGTH, nameError),
+  uri: z.string({ required_error: 'URI is required', invalid_type_error: 'Invalid MongoDB URI format' }),
+  defaultDatabase: z.string({ invalid_type_error: 'defaultDatabase must be a string' }).nullish()
+    .transform(value => value || null),
+  readOnly: z.boolean({ invalid_type_error: 'readOnly must be a boolean' }).default(false),
+  scope: z.union([z.string(), z.array(z.string())]).nullish(),
+};
+
+export const listConnections = {
+  response: z.object({ connections: z.array(profileSummary) }),
+};
+
+export const getConnection = {
+  params: profileId,
+  response: profileSummary,
+};
+
+export const createConnection = {
+  body: fields(profileFields),
+  response: profileSummary,
+};
+
+// missing fields are left as they are
+export const updateConnection = {
+  params: profileId,
+  body: fields({
+    name: profileFields.name.optional(),
+    uri: profileFields.uri.optional(),
+    defaultDatabase: z.string({ invalid_type_error: 'defaultDatabase must be a string' }).nullish()
+      .transform(value => (value === undefined ? undefined : value || null)),
+    readOnly: z.boolean({ invalid_type_error: 'readOnly must be a boolean' }).optional(),
+    scope: profileFields.scope,
+  }),
+  response: profileSummary,
+};
+
+export const deleteConnection = {
+  params: profileId,
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { MAX_TOKEN_DAYS } from '../lib/apiTokens.js';
+import { fields, requiredName } from './common.js';
+
+const tokenSummary = z.object({
+  id: z.string(),
+  name: z.string(),
+  databaseName: z.string(),
+  scope: z.array(z.string()),
+  readOnly: z.boolean(),
+  createdAt: z.string().datetime(),
+  expiresAt: z.string().datetime(),
+});
+
+const expiresError = `expiresInDays must be a whole number between 1 and ${MAX_TOKEN_DAYS}`;
+
+export const createToken = {
+  body: fields({
+    name: requiredName('Name').max(100, 'Name can be at most 100 characters'),
+    expiresInDays: z.number({ invalid_type_error: expiresError })
+      .int(expiresError)
+      .min(1, expiresError)
+      .max(MAX_TOKEN_DAYS, expiresError)
+      .default(30),
+    // narrows the session's scope, checked by narrowScope. unset: the session's scope.
+    scope: z.union([z.string(), z.array(z.string())]).nullish(),
+    // read-only sessions only mint read-only tokens
+    readOnly: z.boolean({ invalid_type_error: 'readOnly must be a boolean' }).default(false),
+  }),
+  // the token itself is only ever in this response
+  response: tokenSummary.extend({ token: z.string() }),
+};
+
+export const listTokens = {
+  response: z.object({ tokens: z.array(tokenSummary) }),
+};
+
+export const deleteToken = {
+  params: z.object({ id: z.string().min(1) }),
+};
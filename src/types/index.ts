@@ -5,6 +5,10 @@ export interface EncryptedSessionPayload {
   databaseName: string;
   allowedScope: string[];
   readOnly: boolean;
+  maxAffected?: number;
+  // the session's id, kept when the token is reissued. jti is this token's.
+  sid: string;
+  jti: string;
   iat: number;
   exp: number;
 }
@@ -20,48 +24,44 @@ export interface CollectionInfo {
   name: string;
   documentCount: number;
   size: number;
+  // from the user's privileges, write and index are off for read-only sessions
+  canRead: boolean;
+  canWrite: boolean;
+  canIndex: boolean;
 }
 
-export interface DocumentResult {
-  documents: unknown[];
-  totalCount?: number;
-  hasMore: boolean;
-}
-
-export interface QueryOptions {
-  database: string;
-  collection: string;
-  filter?: Record<string, unknown>;
-  sort?: Record<string, 1 | -1>;
-  limit?: number;
-  skip?: number;
-  projection?: Record<string, 1 | 0>;
-}
+// request / response shapes for api callers live in client/src/types.ts
 
-export interface InsertOptions {
-  database: string;
-  collection: string;
-  document: Record<string, unknown>;
-}
+// stable error codes, see lib/errors.ts
+export const ERROR_CODES = [
+  'UNAUTHORIZED',
+  'AUTH_FAILED',
+  'RESTRICTED_TIER',
+  'DUPLICATE_KEY',
+  'VALIDATION_FAILED',
+  'TIMEOUT',
+  'NOT_PRIMARY',
+  'NOT_FOUND',
+  'WRITE_CONFLICT',
+  'INVALID_REQUEST',
+  'CONNECTION_FAILED',
+  'SERVER_BUSY',
+  'CSRF_FAILED',
+  'INTERNAL',
+] as const;
 
-export interface UpdateOptions {
-  database: string;
-  collection: string;
-  id: string;
-  update: Record<string, unknown>;
-}
-
-export interface DeleteOptions {
-  database: string;
-  collection: string;
-  id: string;
-}
+export type ErrorCode = typeof ERROR_CODES[number];
 
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: ErrorCode;
+  // e.g. the duplicate key value or the failing validator rule
+  details?: Record<string, unknown>;
   message?: string;
+  // set on errors, matches the X-Request-Id header
+  requestId?: string;
 }
 
 export function isValidObjectId(id: string): boolean {
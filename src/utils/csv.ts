@@ -0,0 +1,129 @@
+import { ObjectId } from 'mongodb';
+import { fromEjson } from './ejson.js';
+
+/**
+ * csv reading for imports. the inverse of the csv export writer:
+ * rfc 4180 quoting, dotted headers, hex ObjectIds, iso dates and
+ * relaxed ejson for arrays and nested values.
+ */
+
+/**
+ * split a text stream into csv records. quoted fields may hold commas,
+ * quotes ("") and line breaks. accepts \n and \r\n line endings.
+ * a record longer than maxRecordLength characters throws.
+ */
+export async function* parseCsvRecords(source: AsyncIterable<string>, maxRecordLength = Infinity): AsyncGenerator<string[]> {
+  let record: string[] = [];
+  let recordLength = 0;
+  let field = '';
+  let inQuotes = false;
+  // a quote inside a quoted field, not yet known to be "" or the closing quote
+  let pendingQuote = false;
+  // skip the \n of a \r\n pair
+  let afterCr = false;
+
+  for await (const chunk of source) {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (++recordLength > maxRecordLength) {
+        throw new Error(`CSV record is longer than ${maxRecordLength} characters`);
+      }
+
+      if (afterCr) {
+        afterCr = false;
+        if (char === '\n') continue;
+      }
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        afterCr = char === '\r';
+        record.push(field);
+        field = '';
+        // blank lines are not records
+        if (record.length > 1 || record[0] !== '') {
+          yield record;
+        }
+        record = [];
+        recordLength = 0;
+      } else {
+        field += char;
+      }
+    }
+  }
+
+  if (inQuotes && !pendingQuote) {
+    throw new Error('Unterminated quoted field at end of input');
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    yield record;
+  }
+}
+
+const INTEGER = /^-?(0|[1-9]\d*)$/;
+const DECIMAL = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * best guess at the type of a csv cell. empty cells come back undefined
+ * so the field is left out of the document.
+ */
+export function inferCsvValue(raw: string): unknown {
+  if (raw === '') return undefined;
+  if (raw === 'null') return null;
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+
+  if (INTEGER.test(raw)) {
+    const value = Number(raw);
+    // too big for a double: keep every digit as a string
+    return Number.isSafeInteger(value) ? value : raw;
+  }
+  if (DECIMAL.test(raw)) {
+    return Number(raw);
+  }
+
+  if (/^[a-f0-9]{24}$/i.test(raw)) {
+    return new ObjectId(raw);
+  }
+
+  if (ISO_DATE.test(raw)) {
+    const date = new Date(raw);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+
+  // arrays and other structured values are exported as relaxed ejson
+  if (raw[0] === '[' || raw[0] === '{') {
+    try {
+      return fromEjson(JSON.parse(raw));
+    } catch {
+      return raw;
+    }
+  }
+
+  return raw;
+}
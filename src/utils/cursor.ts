@@ -0,0 +1,275 @@
+import { BSON } from 'mongodb';
+import { isBsonValue } from './ejson.js';
+
+/**
+ * keyset pagination. a cursor is an opaque token holding the sort spec
+ * and the sort values (plus _id) of the last document seen, so the next
+ * page is a range query instead of a skip.
+ */
+
+export type SortEntry = [field: string, direction: 1 | -1];
+
+export interface PageCursor {
+    sort: SortEntry[];
+    values: unknown[];
+    // which way from the cursor document the page goes
+    direction: 'next' | 'prev';
+}
+
+/**
+ * normalize a sort object into entries, always ending in _id as a tiebreaker
+ */
+export function toSortEntries(sort: Record<string, 1 | -1> | undefined): SortEntry[] {
+    const entries = Object.entries(sort || {}).filter(([field]) => field !== '_id') as SortEntry[];
+    const idDirection = sort?._id ?? (entries.length > 0 ? entries[entries.length - 1][1] : 1);
+    return [...entries, ['_id', idDirection]];
+}
+
+export function sortEntriesToSpec(entries: SortEntry[], invert = false): Record<string, 1 | -1> {
+    const spec: Record<string, 1 | -1> = {};
+    for (const [field, direction] of entries) {
+        spec[field] = invert ? (-direction as 1 | -1) : direction;
+    }
+    return spec;
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+    const payload = BSON.EJSON.stringify({ s: cursor.sort, v: cursor.values, d: cursor.direction }, { relaxed: false });
+    return Buffer.from(payload, 'utf8').toString('base64url');
+}
+
+// cursors come from the client, and their fields and values end up in a filter as they are
+function hasOperatorKey(value: unknown): boolean {
+    if (value === null || typeof value !== 'object' || isBsonValue(value)) {
+        return false;
+    }
+    if (Array.isArray(value)) {
+        return value.some(hasOperatorKey);
+    }
+    return Object.entries(value).some(([key, inner]) => key.startsWith('$') || hasOperatorKey(inner));
+}
+
+/**
+ * null unless the token is a well formed cursor whose fields are paths and
+ * whose values are plain values, not operator objects
+ */
+export function decodeCursor(token: string): PageCursor | null {
+    try {
+        const parsed = BSON.EJSON.parse(Buffer.from(token, 'base64url').toString('utf8'), { relaxed: false }) as {
+            s?: unknown;
+            v?: unknown;
+            d?: unknown;
+        };
+
+        if (!Array.isArray(parsed.s) || !Array.isArray(parsed.v) || (parsed.d !== 'next' && parsed.d !== 'prev') || parsed.v.some(hasOperatorKey)) {
+            return null;
+        }
+
+        // canonical ejson gives the directions back as Int32
+        const sort = parsed.s.map(entry => (Array.isArray(entry) ? [entry[0], Number(entry[1])] : null));
+        const validSort = sort.every(entry =>
+            entry !== null && typeof entry[0] === 'string' && !entry[0].startsWith('$') && (entry[1] === 1 || entry[1] === -1)
+        );
+        if (!validSort || parsed.v.length !== sort.length) {
+            return null;
+        }
+
+        return { sort: sort as SortEntry[], values: parsed.v, direction: parsed.d };
+    } catch {
+        return null;
+    }
+}
+
+export function sameSort(a: SortEntry[], b: SortEntry[]): boolean {
+    return a.length === b.length && a.every(([field, direction], i) => b[i][0] === field && b[i][1] === direction);
+}
+
+function getPath(doc: Record<string, unknown>, path: string): unknown {
+    let current: unknown = doc;
+    for (const part of path.split('.')) {
+        if (current === null || typeof current !== 'object') {
+            return null;
+        }
+        current = (current as Record<string, unknown>)[part];
+    }
+    // missing fields sort like null
+    return current === undefined ? null : current;
+}
+
+/**
+ * the sort values of a document, in sort order
+ */
+export function cursorValues(doc: Record<string, unknown>, entries: SortEntry[]): unknown[] {
+    return entries.map(([field]) => getPath(doc, field));
+}
+
+// bson sort order, lowest first, as $type aliases. missing fields sort with null.
+const TYPE_ORDER: string[][] = [
+    ['minKey'],
+    ['null'],
+    ['number'],
+    ['string', 'symbol'],
+    ['object'],
+    ['array'],
+    ['binData'],
+    ['objectId'],
+    ['bool'],
+    ['date'],
+    ['timestamp'],
+    ['regex'],
+    ['maxKey'],
+];
+
+const NULL_RANK = 1;
+
+const RANK_BY_BSONTYPE: Record<string, number> = {
+    MinKey: 0,
+    Int32: 2,
+    Double: 2,
+    Long: 2,
+    Decimal128: 2,
+    BSONSymbol: 3,
+    Binary: 6,
+    ObjectId: 7,
+    Timestamp: 10,
+    BSONRegExp: 11,
+    MaxKey: 12,
+};
+
+// where a value sits in TYPE_ORDER, null for types it doesn't list (code, dbref...)
+function typeRank(value: unknown): number | null {
+    if (value === null || value === undefined) return NULL_RANK;
+    if (typeof value === 'number' || typeof value === 'bigint') return 2;
+    if (typeof value === 'string') return 3;
+    if (typeof value === 'boolean') return 8;
+    if (Array.isArray(value)) return 5;
+    if (value instanceof Date) return 9;
+    if (value instanceof RegExp) return 11;
+
+    const bsonType = (value as { _bsontype?: string })._bsontype;
+    if (bsonType === undefined) return 4;
+    return RANK_BY_BSONTYPE[bsonType] ?? null;
+}
+
+/**
+ * everything that sorts strictly after (or before) value on one field.
+ * $gt / $lt only compare within a type, so the brackets on the far side of
+ * the value's type are added by $type, and null covers missing fields too.
+ */
+export function beyond(field: string, value: unknown, forward: boolean): Record<string, unknown> {
+    const rank = typeRank(value);
+    const branches: Record<string, unknown>[] = [];
+
+    // nothing compares greater or less than null within its bracket
+    if (rank !== NULL_RANK) {
+        branches.push({ [field]: { [forward ? '$gt' : '$lt']: value } });
+    }
+
+    if (rank !== null) {
+        const ranks = TYPE_ORDER.map((_, i) => i).filter(i => (forward ? i > rank : i < rank));
+        const types = ranks.filter(i => i !== NULL_RANK).flatMap(i => TYPE_ORDER[i]);
+
+        if (types.length > 0) {
+            branches.push({ [field]: { $type: types } });
+        }
+        // $type: 'null' misses documents without the field, equality to null matches both
+        if (ranks.includes(NULL_RANK)) {
+            branches.push({ [field]: null });
+        }
+    }
+
+    return branches.length === 1 ? branches[0] : { $or: branches };
+}
+
+/**
+ * range filter for everything strictly after (or before) the cursor document:
+ *   { $or: [ beyond(a, va), { a: va, ...beyond(b, vb) }, ... ] }
+ * equality to null also matches missing fields, which sort the same way.
+ * sorting on array fields compares their smallest or largest element, which this doesn't follow.
+ */
+export function keysetFilter(cursor: PageCursor): Record<string, unknown> {
+    const clauses = cursor.sort.map(([field, direction], i) => {
+        const forward = cursor.direction === 'next' ? direction === 1 : direction === -1;
+        const clause: Record<string, unknown> = {};
+
+        for (let j = 0; j < i; j++) {
+            clause[cursor.sort[j][0]] = cursor.values[j];
+        }
+
+        return { ...clause, ...beyond(field, cursor.values[i], forward) };
+    });
+
+    return { $or: clauses };
+}
+
+export interface CursorProjection {
+    projection: Record<string, unknown> | undefined;
+    // fields the cursor needs that the client didn't ask for, stripped from the page by stripFields
+    added: string[];
+}
+
+function coversPath(parent: string, path: string): boolean {
+    return path === parent || path.startsWith(`${parent}.`);
+}
+
+/**
+ * make sure a projection keeps the fields a cursor needs, and say which ones
+ * it had to add so they can be taken out again
+ */
+export function projectionWithSortFields(
+    projection: Record<string, unknown> | undefined,
+    entries: SortEntry[]
+): CursorProjection {
+    if (!projection || Object.keys(projection).length === 0) {
+        return { projection, added: [] };
+    }
+
+    const result = { ...projection };
+    const added: string[] = [];
+    const isExcluded = (value: unknown) => value === 0 || value === false;
+    const isInclusion = Object.entries(result).some(([field, value]) => field !== '_id' && (value === 1 || value === true));
+
+    for (const [field] of entries) {
+        // an excluded field, or a parent of it, has to come back whole
+        for (const key of Object.keys(result)) {
+            if (isExcluded(result[key]) && coversPath(key, field)) {
+                delete result[key];
+                added.push(key);
+            }
+        }
+
+        if (!isInclusion || field === '_id' || Object.keys(result).some(key => !isExcluded(result[key]) && coversPath(key, field))) {
+            continue;
+        }
+
+        // asking for part of the field while sorting on all of it returns all of it
+        for (const key of Object.keys(result)) {
+            if (key.startsWith(`${field}.`)) {
+                delete result[key];
+            }
+        }
+        if (!Object.keys(projection).some(key => key.startsWith(`${field}.`))) {
+            added.push(field);
+        }
+        result[field] = 1;
+    }
+
+    return { projection: result, added };
+}
+
+/**
+ * remove fields (dotted paths) from a document in place
+ */
+export function stripFields(doc: Record<string, unknown>, fields: string[]): void {
+    for (const field of fields) {
+        const parts = field.split('.');
+        let current: unknown = doc;
+
+        for (const part of parts.slice(0, -1)) {
+            current = current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[part] : undefined;
+        }
+        if (current !== null && typeof current === 'object') {
+            delete (current as Record<string, unknown>)[parts[parts.length - 1]];
+        }
+    }
+}
@@ -0,0 +1,132 @@
+import { BSON, ObjectId } from 'mongodb';
+
+/**
+ * extended json in, extended json out.
+ *
+ * requests: type wrappers like { "$oid": ... } or { "$numberLong": ... } anywhere
+ * in a filter, document, update or pipeline become real bson values. plain json
+ * numbers stay js numbers, so handlers can still do normal checks on them.
+ *
+ * responses: plain json by default (ObjectId -> hex string, Date -> iso string).
+ * ?format=ejson or Accept: application/ejson gives relaxed ejson,
+ * ?format=ejson-canonical gives canonical ejson (keeps Int32/Int64/Double apart).
+ */
+
+// legacy forms ($regex/$options, $binary/$type) are left alone on purpose,
+// $regex is also a query operator
+const TYPE_WRAPPERS = new Set([
+    '$oid',
+    '$date',
+    '$numberInt',
+    '$numberLong',
+    '$numberDouble',
+    '$numberDecimal',
+    '$binary',
+    '$uuid',
+    '$regularExpression',
+    '$timestamp',
+    '$minKey',
+    '$maxKey',
+    '$symbol',
+    '$code',
+    '$dbPointer',
+]);
+
+export type EjsonMode = 'relaxed' | 'canonical';
+
+function isTypeWrapper(value: Record<string, unknown>): boolean {
+    const keys = Object.keys(value);
+    return keys.length > 0 && TYPE_WRAPPERS.has(keys[0]);
+}
+
+/**
+ * turn ejson type wrappers into bson values. throws on malformed wrappers.
+ */
+export function fromEjson<T = unknown>(value: T): T {
+    if (Array.isArray(value)) {
+        return value.map(item => fromEjson(item)) as T;
+    }
+
+    if (value === null || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+        return value;
+    }
+
+    const record = value as Record<string, unknown>;
+
+    if (isTypeWrapper(record)) {
+        // canonical so $numberLong stays a Long instead of collapsing to a number
+        return BSON.EJSON.deserialize(record, { relaxed: false }) as T;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(record)) {
+        result[key] = fromEjson(item);
+    }
+    return result as T;
+}
+
+/**
+ * parse an ejson string from a query parameter. undefined when missing or malformed.
+ */
+export function parseEjson(text: string | undefined): Record<string, unknown> | undefined {
+    if (!text) return undefined;
+    try {
+        return fromEjson(JSON.parse(text));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * which ejson flavour (if any) the client asked for
+ */
+export function requestedEjsonMode(format: unknown, accept: string | undefined): EjsonMode | null {
+    if (format === 'ejson-canonical') return 'canonical';
+    if (format === 'ejson') return 'relaxed';
+    if (accept?.includes('application/ejson')) {
+        return accept.includes('canonical') ? 'canonical' : 'relaxed';
+    }
+    return null;
+}
+
+export function toEjson(value: unknown, mode: EjsonMode): unknown {
+    return BSON.EJSON.serialize(value, { relaxed: mode === 'relaxed' });
+}
+
+export function isBsonValue(value: unknown): boolean {
+    return value instanceof Date
+        || value instanceof Uint8Array
+        || (typeof value === 'object' && value !== null && '_bsontype' in value);
+}
+
+/**
+ * _id from a url segment: 24 hex chars is an ObjectId, json/ejson is decoded
+ * ("abc", 42, {"$uuid": ...}), anything else is a plain string id.
+ * returns undefined when it looks like json but doesn't parse.
+ */
+export function parseDocumentId(raw: string): unknown {
+    if (/^[a-f0-9]{24}$/i.test(raw)) {
+        return new ObjectId(raw);
+    }
+
+    if (/^[{"\-\d]/.test(raw)) {
+        try {
+            const value = fromEjson(JSON.parse(raw));
+            if (value === null || (typeof value === 'object' && !isBsonValue(value))) {
+                return undefined;
+            }
+            return value;
+        } catch {
+            return undefined;
+        }
+    }
+
+    return raw;
+}
+
+/**
+ * _id from a json body: hex strings are taken as ObjectIds, bson values pass through
+ */
+export function normalizeDocumentId(value: unknown): unknown {
+    return typeof value === 'string' && /^[a-f0-9]{24}$/i.test(value) ? new ObjectId(value) : value;
+}
@@ -1,52 +1,232 @@
 import * as jose from 'jose';
 import { config } from '../config/index.js';
 import type { EncryptedSessionPayload } from '../types/index.js';
-import { pbkdf2Sync, randomBytes } from 'crypto';
+import { createCipheriv, createDecipheriv, createHash, createHmac, hkdfSync, pbkdf2Sync, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
 
 const PBKDF2_ITERATIONS = 100000;
 const SALT_LENGTH = 16;
+const KEY_CACHE_LIMIT = 500;
+const IV_LENGTH = 12;
+
+// pbkdf2 is slow on purpose, so remember storage keys we've already derived
+const keyCache = new Map<string, Buffer>();
+
+// session tokens: one pbkdf2 key per configured secret, by key id
+const SESSION_KEY_SALT = 'byselfdb session tokens';
+const SESSION_KEY_INFO = 'byselfdb session token';
+const sessionMasterKeys = new Map<string, Buffer>();
+
+/**
+ * short, non-reversible id for a secret. goes in the jwe header.
+ */
+function keyIdFor(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 16);
+}
+
+/**
+ * newest first. the first one encrypts, all of them decrypt.
+ */
+function sessionSecrets(): string[] {
+  return [config.SESSION_SECRET, ...config.SESSION_SECRET_PREVIOUS];
+}
 
 /**
  * Derive encryption key from secret and salt using PBKDF2.
  */
-function deriveKey(salt: Buffer): Buffer {
-  return pbkdf2Sync(config.SESSION_SECRET, salt, PBKDF2_ITERATIONS, 32, 'sha256');
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  const cacheKey = `${keyIdFor(secret)}:${salt.toString('base64')}`;
+  const cached = keyCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const key = pbkdf2Sync(secret, salt, PBKDF2_ITERATIONS, 32, 'sha256');
+
+  if (keyCache.size >= KEY_CACHE_LIMIT) {
+    // drop the oldest entry
+    const oldest = keyCache.keys().next().value;
+    if (oldest !== undefined) keyCache.delete(oldest);
+  }
+  keyCache.set(cacheKey, key);
+
+  return key;
+}
+
+/**
+ * Key for one session token. the salt comes from the cookie, so it can be
+ * anything: hkdf from the per-secret key keeps a forged cookie cheap to reject.
+ */
+function sessionKey(secret: string, salt: Buffer): Buffer {
+  const kid = keyIdFor(secret);
+  let masterKey = sessionMasterKeys.get(kid);
+  if (!masterKey) {
+    masterKey = pbkdf2Sync(secret, SESSION_KEY_SALT, PBKDF2_ITERATIONS, 32, 'sha256');
+    sessionMasterKeys.set(kid, masterKey);
+  }
+
+  return Buffer.from(hkdfSync('sha256', masterKey, salt, SESSION_KEY_INFO, 32));
 }
 
-export async function encryptSession(payload: EncryptedSessionPayload): Promise<string> {
+// derive the per-secret keys up front, not on the first request
+if (config.SESSION_MODE === 'stateless') {
+  for (const secret of sessionSecrets()) {
+    sessionKey(secret, Buffer.alloc(SALT_LENGTH));
+  }
+}
+
+export async function encryptSession(
+  payload: Omit<EncryptedSessionPayload, 'jti' | 'iat' | 'exp'>
+): Promise<{ token: string; jti: string; exp: number }> {
   const now = Math.floor(Date.now() / 1000);
-  const expiresIn = 60 * 60 * 24;
+  const exp = now + Math.round(config.STATELESS_SESSION_HOURS * 60 * 60);
+  const jti = randomUUID();
+  const secret = config.SESSION_SECRET;
 
   // Generate random salt for this session
   const salt = randomBytes(SALT_LENGTH);
-  const encryptionKey = deriveKey(salt);
+  const encryptionKey = sessionKey(secret, salt);
 
   const jwe = await new jose.EncryptJWT({ ...payload })
-    .setProtectedHeader({ alg: 'dir', enc: 'A256GCM' })
+    .setProtectedHeader({ alg: 'dir', enc: 'A256GCM', kid: keyIdFor(secret) })
+    .setJti(jti)
     .setIssuedAt(now)
-    .setExpirationTime(now + expiresIn)
+    .setExpirationTime(exp)
     .encrypt(encryptionKey);
 
-  // Prepend salt to encrypted token (salt:jwe)
-  return `${salt.toString('base64')}.${jwe}`;
+  // Prepend salt to encrypted token (salt.jwe)
+  return { token: `${salt.toString('base64url')}.${jwe}`, jti, exp };
 }
 
 export async function decryptSession(token: string): Promise<EncryptedSessionPayload | null> {
   try {
-    const [saltB64, jwe] = token.split('.');
-    if (!saltB64 || !jwe) {
+    // the jwe itself is dot-separated, so only split off the salt
+    const separator = token.indexOf('.');
+    if (separator <= 0) {
+      return null;
+    }
+
+    const salt = Buffer.from(token.slice(0, separator), 'base64url');
+    const jwe = token.slice(separator + 1);
+    if (salt.length !== SALT_LENGTH || !jwe) {
       return null;
     }
 
-    const salt = Buffer.from(saltB64, 'base64');
-    if (salt.length !== SALT_LENGTH) {
+    const { kid } = jose.decodeProtectedHeader(jwe);
+    const secret = sessionSecrets().find(candidate => keyIdFor(candidate) === kid);
+    if (!secret) {
       return null;
     }
 
-    const encryptionKey = deriveKey(salt);
+    const encryptionKey = sessionKey(secret, salt);
     const { payload } = await jose.jwtDecrypt(jwe, encryptionKey);
+
+    if (typeof payload.jti !== 'string' || typeof payload.exp !== 'number') {
+      return null;
+    }
+
     return payload as unknown as EncryptedSessionPayload;
   } catch {
     return null;
   }
 }
+
+/**
+ * key for encrypting data at rest. the salt and key id are stored
+ * next to the data so it can be opened again after a restart.
+ */
+export interface StorageKey {
+  kid: string;
+  salt: string;
+  key: Buffer;
+}
+
+/**
+ * Create a fresh storage key from the current secret.
+ */
+export function createStorageKey(): StorageKey {
+  const salt = randomBytes(SALT_LENGTH);
+  return {
+    kid: keyIdFor(config.SESSION_SECRET),
+    salt: salt.toString('base64url'),
+    key: deriveKey(config.SESSION_SECRET, salt),
+  };
+}
+
+/**
+ * Re-derive a stored key. Returns null if its secret is no longer configured.
+ */
+export function loadStorageKey(kid: string, salt: string): StorageKey | null {
+  const secret = sessionSecrets().find(candidate => keyIdFor(candidate) === kid);
+  if (!secret) {
+    return null;
+  }
+
+  return { kid, salt, key: deriveKey(secret, Buffer.from(salt, 'base64url')) };
+}
+
+/**
+ * Encrypt a string with AES-256-GCM (iv.tag.ciphertext).
+ */
+export function sealString(value: string, storageKey: StorageKey): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', storageKey.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypt a sealed string. Returns null if it was tampered with or the key is wrong.
+ */
+export function openString(sealed: string, storageKey: StorageKey): string | null {
+  try {
+    const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64url'));
+    if (!iv || !tag || !ciphertext || iv.length !== IV_LENGTH) {
+      return null;
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', storageKey.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+function hmac(secret: string, data: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Sign a small json payload (payload.signature). Not encrypted, only tamper-proof.
+ * The purpose is part of the signature, so a token made for one use fails every other.
+ */
+export function signPayload(purpose: string, payload: object): string {
+  const data = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${data}.${hmac(config.SESSION_SECRET, `${purpose}.${data}`).toString('base64url')}`;
+}
+
+/**
+ * Verify a payload signed for this purpose against the current and previous secrets. Returns null if forged.
+ */
+export function verifyPayload<T>(purpose: string, token: string): T | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) {
+    return null;
+  }
+
+  const given = Buffer.from(signature, 'base64url');
+  const valid = sessionSecrets().some(secret => {
+    const expected = hmac(secret, `${purpose}.${data}`);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  });
+  if (!valid) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
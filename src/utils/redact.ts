@@ -0,0 +1,47 @@
+import { isBsonValue } from './ejson.js';
+
+/**
+ * the shape of a query without its values: keys and operators stay,
+ * literals become their type. { age: { $gt: 30 } } -> { age: { $gt: "<number>" } }
+ */
+
+// long arrays ($in lists, big pipelines) are cut here
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 10;
+
+function bsonTypeName(value: object): string {
+  if (value instanceof Date) return 'Date';
+  return (value as { _bsontype?: string })._bsontype ?? 'Binary';
+}
+
+export function redactShape(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return '<...>';
+  }
+
+  if (isBsonValue(value)) {
+    return `<${bsonTypeName(value as object)}>`;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => redactShape(item, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) {
+      items.push(`<+${value.length - MAX_ARRAY_ITEMS} more>`);
+    }
+    return items;
+  }
+
+  if (typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = redactShape(item, depth + 1);
+    }
+    return result;
+  }
+
+  return `<${typeof value}>`;
+}
@@ -1,3 +1,5 @@
+import { isBsonValue } from './ejson.js';
+
 /**
  * blocks dangerous operators
  */
@@ -22,6 +24,11 @@ function findBlockedOperator(obj: unknown, path = ''): string | null {
         return null;
     }
 
+    // ObjectId, Date, Binary etc. are values, not operators
+    if (isBsonValue(obj)) {
+        return null;
+    }
+
     if (Array.isArray(obj)) {
         for (let i = 0; i < obj.length; i++) {
             const result = findBlockedOperator(obj[i], `${path}[${i}]`);
@@ -96,3 +103,85 @@ export function sanitizeUpdate(update: unknown): { valid: true; update: Record<s
 
     return { valid: true, update: update as Record<string, unknown> };
 }
+
+// projection operators that only pick from the document, no expressions
+const PROJECTION_OPERATORS = new Set(['$slice', '$elemMatch', '$meta']);
+
+/**
+ * sanitize a find projection: field paths to 0/1/true/false or one of the
+ * PROJECTION_OPERATORS. aggregation expressions ($function...) are refused.
+ * @param projection the projection to sanitize
+ * @returns object with sanitized projection or error
+ */
+export function sanitizeProjection(projection: unknown): { valid: true; projection: Record<string, unknown> } | { valid: false; error: string } {
+    if (projection === null || projection === undefined) {
+        return { valid: true, projection: {} };
+    }
+
+    if (typeof projection !== 'object' || Array.isArray(projection)) {
+        return { valid: false, error: 'Projection must be an object' };
+    }
+
+    const blockedOperator = findBlockedOperator(projection);
+    if (blockedOperator) {
+        return { valid: false, error: blockedOperator };
+    }
+
+    for (const [field, value] of Object.entries(projection)) {
+        if (field.startsWith('$')) {
+            return { valid: false, error: `Invalid projection field "${field}"` };
+        }
+        if (value && typeof value === 'object' && !isBsonValue(value)) {
+            const operator = Object.keys(value).find(key => !PROJECTION_OPERATORS.has(key));
+            if (operator !== undefined) {
+                return { valid: false, error: `Unsupported projection "${operator}" for "${field}"` };
+            }
+        }
+    }
+
+    return { valid: true, projection: projection as Record<string, unknown> };
+}
+
+/**
+ * sanitize a sort: field paths to 1 or -1
+ * @param sort the sort to sanitize
+ * @returns object with sanitized sort or error
+ */
+export function sanitizeSort(sort: unknown): { valid: true; sort: Record<string, 1 | -1> } | { valid: false; error: string } {
+    if (sort === null || sort === undefined) {
+        return { valid: true, sort: {} };
+    }
+
+    if (typeof sort !== 'object' || Array.isArray(sort)) {
+        return { valid: false, error: 'Sort must be an object' };
+    }
+
+    for (const [field, direction] of Object.entries(sort)) {
+        if (field.startsWith('$')) {
+            return { valid: false, error: `Invalid sort field "${field}"` };
+        }
+        if (direction !== 1 && direction !== -1) {
+            return { valid: false, error: `Sort direction for "${field}" must be 1 or -1` };
+        }
+    }
+
+    return { valid: true, sort: sort as Record<string, 1 | -1> };
+}
+
+const WRITE_STAGES = ['$out', '$merge'];
+
+/**
+ * find a pipeline stage that writes data
+ * @param pipeline the aggregation pipeline
+ * @returns the stage operator, or null if the pipeline only reads
+ */
+export function findWriteStage(pipeline: unknown[]): string | null {
+    for (const stage of pipeline) {
+        if (!stage || typeof stage !== 'object') continue;
+
+        const writer = Object.keys(stage).find(key => WRITE_STAGES.includes(key));
+        if (writer) return writer;
+    }
+
+    return null;
+}
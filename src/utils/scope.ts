@@ -0,0 +1,207 @@
+/**
+ * namespace scope patterns
+ *
+ *   *              everything
+ *   shop  shop.*   every collection in shop
+ *   shop.orders    one collection
+ *   shop.tmp_*     glob on the collection name
+ *   !admin.*       deny. denies always win over allows.
+ */
+
+// what a session gets when it doesn't ask for anything
+export const DEFAULT_SCOPE = ['*', '!admin.*', '!config.*', '!local.*'];
+
+const MAX_SCOPE_PATTERNS = 50;
+const SCOPE_PATTERN = /^!?[^\s.$/\\"]+(\.[^\s$]+)?$/;
+
+interface ScopeRule {
+    deny: boolean;
+    database: RegExp;
+    collection: RegExp;
+    // true when the rule covers every collection of the database
+    wholeDatabase: boolean;
+}
+
+function globToRegExp(glob: string): RegExp {
+    const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`);
+}
+
+function parseRule(pattern: string): ScopeRule {
+    const deny = pattern.startsWith('!');
+    const body = deny ? pattern.slice(1) : pattern;
+
+    // db names can't contain dots, collection names can
+    const dot = body.indexOf('.');
+    const databasePart = dot === -1 ? body : body.slice(0, dot);
+    const collectionPart = dot === -1 ? '*' : body.slice(dot + 1);
+
+    return {
+        deny,
+        database: globToRegExp(databasePart),
+        collection: globToRegExp(collectionPart),
+        wholeDatabase: collectionPart === '*',
+    };
+}
+
+function compile(scope: string[]): ScopeRule[] {
+    const rules = scope.map(parseRule);
+
+    // only denies means "everything except"
+    if (!rules.some(rule => !rule.deny)) {
+        rules.unshift(parseRule('*'));
+    }
+
+    return rules;
+}
+
+/**
+ * validate scope patterns supplied by the client
+ */
+export function parseScope(input: unknown): { valid: true; scope: string[] } | { valid: false; error: string } {
+    if (input === undefined || input === null) {
+        return { valid: true, scope: DEFAULT_SCOPE };
+    }
+
+    const patterns = typeof input === 'string' ? [input] : input;
+
+    if (!Array.isArray(patterns) || patterns.length === 0) {
+        return { valid: false, error: 'Scope must be a non-empty array of patterns' };
+    }
+
+    if (patterns.length > MAX_SCOPE_PATTERNS) {
+        return { valid: false, error: `Scope can have at most ${MAX_SCOPE_PATTERNS} patterns` };
+    }
+
+    for (const pattern of patterns) {
+        if (typeof pattern !== 'string' || !SCOPE_PATTERN.test(pattern)) {
+            return { valid: false, error: `Invalid scope pattern: ${String(pattern)}` };
+        }
+    }
+
+    return { valid: true, scope: patterns as string[] };
+}
+
+/**
+ * can the session see this database at all?
+ */
+export function isDatabaseInScope(scope: string[], database: string): boolean {
+    const rules = compile(scope);
+
+    if (rules.some(rule => rule.deny && rule.wholeDatabase && rule.database.test(database))) {
+        return false;
+    }
+
+    return rules.some(rule => !rule.deny && rule.database.test(database));
+}
+
+/**
+ * can the session touch this collection?
+ */
+export function isNamespaceInScope(scope: string[], database: string, collection: string): boolean {
+    const rules = compile(scope);
+    const matches = (rule: ScopeRule) => rule.database.test(database) && rule.collection.test(collection);
+
+    if (rules.some(rule => rule.deny && matches(rule))) {
+        return false;
+    }
+
+    return rules.some(rule => !rule.deny && matches(rule));
+}
+
+/**
+ * narrow a scope to the patterns asked for. every allow asked for has to fit
+ * inside one of the scope's allows, and the scope's denies carry over.
+ * returns null when something asked for reaches outside the scope.
+ */
+export function narrowScope(scope: string[], requested: string[]): string[] | null {
+    const allows = compile(scope).filter(rule => !rule.deny);
+    const denies = scope.filter(pattern => pattern.startsWith('!'));
+    const requestedAllows = requested.filter(pattern => !pattern.startsWith('!'));
+
+    // only denies: whatever the scope allows, minus those
+    if (requestedAllows.length === 0) {
+        return [...new Set([...scope, ...requested])];
+    }
+
+    for (const pattern of requestedAllows) {
+        const dot = pattern.indexOf('.');
+        const database = dot === -1 ? pattern : pattern.slice(0, dot);
+        const collection = dot === -1 ? '*' : pattern.slice(dot + 1);
+
+        // a glob in the pattern only matches a glob in the rule, so testing its text is enough
+        if (!allows.some(rule => rule.database.test(database) && rule.collection.test(collection))) {
+            return null;
+        }
+    }
+
+    return [...new Set([...requested, ...denies])];
+}
+
+/**
+ * collect every namespace an aggregation pipeline reads from or writes to
+ */
+export function pipelineNamespaces(pipeline: unknown[]): { database?: string; collection: string }[] {
+    const found: { database?: string; collection: string }[] = [];
+
+    const visit = (stages: unknown[]) => {
+        for (const stage of stages) {
+            if (!stage || typeof stage !== 'object') continue;
+
+            for (const [operator, spec] of Object.entries(stage as Record<string, unknown>)) {
+                const options = (spec && typeof spec === 'object' ? spec : {}) as Record<string, unknown>;
+
+                switch (operator) {
+                    case '$lookup':
+                    case '$graphLookup':
+                        if (typeof options.from === 'string') {
+                            found.push({ collection: options.from });
+                        } else if (options.from && typeof options.from === 'object') {
+                            // cross-db lookups on atlas: { db, coll }
+                            const from = options.from as Record<string, unknown>;
+                            if (typeof from.coll === 'string') {
+                                found.push({ database: typeof from.db === 'string' ? from.db : undefined, collection: from.coll });
+                            }
+                        }
+                        if (Array.isArray(options.pipeline)) visit(options.pipeline);
+                        break;
+                    case '$unionWith':
+                        if (typeof spec === 'string') {
+                            found.push({ collection: spec });
+                        } else if (typeof options.coll === 'string') {
+                            found.push({ collection: options.coll });
+                        }
+                        if (Array.isArray(options.pipeline)) visit(options.pipeline);
+                        break;
+                    case '$out':
+                        if (typeof spec === 'string') {
+                            found.push({ collection: spec });
+                        } else if (typeof options.coll === 'string') {
+                            found.push({ database: typeof options.db === 'string' ? options.db : undefined, collection: options.coll });
+                        }
+                        break;
+                    case '$merge': {
+                        const into = typeof spec === 'string' ? spec : options.into;
+                        if (typeof into === 'string') {
+                            found.push({ collection: into });
+                        } else if (into && typeof into === 'object') {
+                            const target = into as Record<string, unknown>;
+                            if (typeof target.coll === 'string') {
+                                found.push({ database: typeof target.db === 'string' ? target.db : undefined, collection: target.coll });
+                            }
+                        }
+                        break;
+                    }
+                    case '$facet':
+                        for (const sub of Object.values(options)) {
+                            if (Array.isArray(sub)) visit(sub);
+                        }
+                        break;
+                }
+            }
+        }
+    };
+
+    visit(pipeline);
+    return found;
+}
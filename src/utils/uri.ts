@@ -0,0 +1,49 @@
+/**
+ * mongodb uri helpers
+ */
+
+export function parseMongoUri(uri: string): { connectionString: string; databaseName: string } | null {
+  try {
+    const url = new URL(uri);
+    const pathParts = url.pathname.split('/').filter(Boolean);
+    const databaseName = pathParts[0] || 'test';
+    return { connectionString: uri, databaseName };
+  } catch {
+    return null;
+  }
+}
+
+export function maskUri(uri: string): string {
+  try {
+    const url = new URL(uri);
+    if (url.password) {
+      url.password = '****';
+    }
+    return url.toString();
+  } catch {
+    return '[invalid uri]';
+  }
+}
+
+/**
+ * pull the password out of a uri so it can be stored separately
+ */
+export function splitUriPassword(uri: string): { uri: string; password: string | null } {
+  const url = new URL(uri);
+  const password = url.password ? decodeURIComponent(url.password) : null;
+  url.password = '';
+  return { uri: url.toString(), password };
+}
+
+/**
+ * put a password back into a uri
+ */
+export function joinUriPassword(uri: string, password: string | null): string {
+  if (password === null) {
+    return uri;
+  }
+
+  const url = new URL(uri);
+  url.password = encodeURIComponent(password);
+  return url.toString();
+}
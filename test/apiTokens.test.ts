@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { listen, sessionHeaders } from './helpers.js';
+
+let server: Awaited<ReturnType<typeof listen>>;
+let headers: Record<string, string>;
+
+beforeAll(async () => {
+  server = await listen();
+  headers = await sessionHeaders();
+});
+
+afterAll(() => server.close());
+
+async function createToken(body: Record<string, unknown>): Promise<Record<string, string>> {
+  const res = await fetch(`${server.baseUrl}/api/tokens`, {
+    method: 'POST',
+    headers: { ...headers, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  expect(res.status).toBe(201);
+  return { authorization: `Bearer ${(await res.json()).data.token}` };
+}
+
+describe('api tokens', () => {
+  it('stay inside their narrowed scope', async () => {
+    const token = await createToken({ name: 'orders only', scope: ['shop.orders'] });
+    const documents = (query: string) => fetch(`${server.baseUrl}/api/documents?${query}`, { headers: token });
+
+    expect((await documents('database=shop&collection=customers')).status).toBe(403);
+    expect((await documents('database=archive&collection=orders')).status).toBe(403);
+    // the session's denies carry over
+    expect((await documents('database=admin&collection=orders')).status).toBe(403);
+
+    // past the scope guard, stopped by validation before reaching mongodb
+    expect((await documents('database=shop&collection=orders&limit=abc')).status).toBe(400);
+  });
+
+  it('have their writes limited per token', async () => {
+    const [limited, other] = [await createToken({ name: 'busy' }), await createToken({ name: 'quiet' })];
+    // an invalid body, refused before reaching mongodb but still counted
+    const write = (token: Record<string, string>) => fetch(`${server.baseUrl}/api/documents`, {
+      method: 'POST',
+      headers: { ...token, 'content-type': 'application/json' },
+      body: '{}',
+    });
+
+    for (let i = 0; i < 30; i++) {
+      expect((await write(limited)).status).toBe(400);
+    }
+    expect((await write(limited)).status).toBe(429);
+    expect((await write(other)).status).toBe(400);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { issueConfirmToken, redeemConfirmToken, BulkTarget } from '../src/lib/bulkConfirm.js';
+import { signPayload } from '../src/utils/encryption.js';
+import { listen, sessionHeaders } from './helpers.js';
+
+// two matching documents in whichever collection is asked for
+vi.mock('../src/lib/mongodb.js', async importOriginal => {
+  const docs = [{ _id: 1, status: 'old' }, { _id: 2, status: 'old' }];
+  const client = {
+    db: (dbName: string) => ({
+      collection: (collectionName: string) => ({
+        dbName,
+        collectionName,
+        countDocuments: async () => docs.length,
+        find: () => ({ limit: () => ({ toArray: async () => docs }) }),
+        deleteMany: async () => ({ deletedCount: docs.length, acknowledged: true }),
+      }),
+    }),
+  };
+
+  return {
+    ...await importOriginal<typeof import('../src/lib/mongodb.js')>(),
+    getConnectionFromSession: async () => client,
+  };
+});
+
+let server: Awaited<ReturnType<typeof listen>>;
+let headers: Record<string, string>;
+
+beforeAll(async () => {
+  server = await listen();
+  headers = await sessionHeaders();
+});
+
+afterAll(() => server.close());
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function post(path: string, body: Record<string, unknown>, as = headers): Promise<{ status: number; body: any }> {
+  const res = await fetch(`${server.baseUrl}/api/documents/${path}`, {
+    method: 'POST',
+    headers: { ...as, 'content-type': 'application/json' },
+    body: JSON.stringify({ database: 'shop', collection: 'orders', ...body }),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+async function dryRun(filter: Record<string, unknown> = { status: 'old' }): Promise<string> {
+  const { status, body } = await post('delete-many', { filter });
+  expect(status).toBe(200);
+  expect(body.data).toMatchObject({ dryRun: true, matchedCount: 2 });
+  return body.data.confirmToken;
+}
+
+describe('bulk write confirm tokens', () => {
+  it('does the write with the token from the dry run, once', async () => {
+    const confirmToken = await dryRun();
+
+    const first = await post('delete-many', { filter: { status: 'old' }, confirmToken });
+    expect(first.status).toBe(200);
+    expect(first.body.data).toMatchObject({ dryRun: false, deletedCount: 2 });
+
+    const second = await post('delete-many', { filter: { status: 'old' }, confirmToken });
+    expect(second.status).toBe(400);
+    expect(second.body.error).toBe('Confirm token expired or already used, run the dry run again');
+  });
+
+  it.each([
+    ['another filter', 'delete-many', { filter: { status: 'new' } }],
+    ['another collection', 'delete-many', { filter: { status: 'old' }, collection: 'customers' }],
+    ['another database', 'delete-many', { filter: { status: 'old' }, database: 'archive' }],
+    ['another operation', 'update-many', { filter: { status: 'old' }, update: { $set: { status: 'new' } } }],
+  ])('refuses the token for %s', async (_, path, body) => {
+    const confirmToken = await dryRun();
+
+    const { status, body: json } = await post(path, { ...body, confirmToken });
+    expect(status).toBe(400);
+    expect(json.error).toBe('Confirm token does not match this operation');
+  });
+
+  it('refuses the token in another session', async () => {
+    const confirmToken = await dryRun();
+
+    const { status, body } = await post('delete-many', { filter: { status: 'old' }, confirmToken }, await sessionHeaders());
+    expect(status).toBe(400);
+    expect(body.error).toBe('Confirm token does not match this operation');
+  });
+
+  it('refuses a token signed for another purpose', async () => {
+    // the right shape, signed as a csrf token
+    const confirmToken = signPayload('csrf', { id: 'x', exp: Date.now() + 60_000, n: 2 });
+
+    const { status, body } = await post('delete-many', { filter: { status: 'old' }, confirmToken });
+    expect(status).toBe(400);
+    expect(body.error).toBe('Invalid confirm token');
+  });
+
+  it('refuses a token after it expires', () => {
+    const target: BulkTarget = { sessionId: 's', operation: 'deleteMany', namespace: 'shop.orders', filter: { status: 'old' } };
+    const { token, expiresAt } = issueConfirmToken(target, 2);
+
+    vi.spyOn(Date, 'now').mockReturnValue(expiresAt);
+    expect(redeemConfirmToken(token, target)).toEqual({
+      valid: false,
+      error: 'Confirm token expired or already used, run the dry run again',
+    });
+
+    vi.spyOn(Date, 'now').mockReturnValue(expiresAt - 1);
+    expect(redeemConfirmToken(token, target)).toEqual({ valid: true, count: 2 });
+  });
+});
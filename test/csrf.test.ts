@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// config is read when the app is imported, so this has to run first.
+// stateless cookies are reissued by /switch-database, and the csrf token with them.
+vi.hoisted(() => {
+  process.env.SESSION_MODE = 'stateless';
+});
+
+// a deployment without access control that has every database asked for
+vi.mock('../src/lib/mongodb.js', async importOriginal => {
+  const client = {
+    db: () => ({
+      admin: () => ({ listDatabases: async ({ filter }: { filter: { name: string } }) => ({ databases: [filter] }) }),
+      command: async () => ({ authInfo: {} }),
+    }),
+  };
+
+  return {
+    ...await importOriginal<typeof import('../src/lib/mongodb.js')>(),
+    getConnectionFromSession: async () => client,
+  };
+});
+
+import { signPayload } from '../src/utils/encryption.js';
+import { issueCsrfToken } from '../src/lib/csrf.js';
+import { listen, sessionHeaders } from './helpers.js';
+
+const COOKIE_NAME = 'byselfdb_session_dev';
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+beforeAll(async () => {
+  server = await listen();
+});
+
+afterAll(() => server.close());
+
+function post(path: string, headers: Record<string, string>, body: unknown = {}) {
+  return fetch(`${server.baseUrl}${path}`, {
+    method: 'POST',
+    headers: { ...headers, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// an invalid insert: 403 from the csrf guard, 400 from validation once past it
+async function insertStatus(headers: Record<string, string>): Promise<number> {
+  return (await post('/api/documents', headers)).status;
+}
+
+function sessionCookie(headers: Record<string, string>): string {
+  return decodeURIComponent(headers.cookie.slice(COOKIE_NAME.length + 1));
+}
+
+describe('csrf guard', () => {
+  it('lets a session through with its own token', async () => {
+    expect(await insertStatus(await sessionHeaders())).toBe(400);
+  });
+
+  it('refuses a missing token, or the token of another session', async () => {
+    const headers = await sessionHeaders();
+    const other = await sessionHeaders();
+
+    expect(await insertStatus({ cookie: headers.cookie })).toBe(403);
+
+    const res = await post('/api/documents', { ...headers, 'x-csrf-token': other['x-csrf-token'] });
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ code: 'CSRF_FAILED' });
+  });
+
+  it('refuses a token signed for another purpose', async () => {
+    const headers = await sessionHeaders();
+    // what a csrf token signs, signed as a confirm token
+    const csrf = createHash('sha256').update(sessionCookie(headers)).digest('hex');
+
+    expect(await insertStatus({ ...headers, 'x-csrf-token': signPayload('bulk-confirm', { csrf }) })).toBe(403);
+  });
+
+  it('hands out a new token with the new cookie after /switch-database', async () => {
+    const headers = await sessionHeaders();
+
+    const res = await post('/api/switch-database', headers, { databaseName: 'archive' });
+    expect(res.status).toBe(200);
+    const { csrfToken } = (await res.json()).data;
+
+    const setCookie = res.headers.getSetCookie().find(cookie => cookie.startsWith(`${COOKIE_NAME}=`))!;
+    const cookie = setCookie.split(';')[0];
+    expect(csrfToken).toBe(issueCsrfToken(decodeURIComponent(cookie.slice(COOKIE_NAME.length + 1))));
+    expect(csrfToken).not.toBe(headers['x-csrf-token']);
+
+    expect(await insertStatus({ cookie, 'x-csrf-token': csrfToken })).toBe(400);
+    expect(await insertStatus({ cookie, 'x-csrf-token': headers['x-csrf-token'] })).toBe(403);
+    // the old cookie is revoked along with its token
+    expect(await insertStatus(headers)).toBe(401);
+  });
+});
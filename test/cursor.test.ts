@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { beyond, cursorValues, decodeCursor, encodeCursor, keysetFilter, PageCursor, toSortEntries } from '../src/utils/cursor.js';
+
+// every bracket after numbers in bson sort order
+const AFTER_NUMBERS = ['string', 'symbol', 'object', 'array', 'binData', 'objectId', 'bool', 'date', 'timestamp', 'regex', 'maxKey'];
+
+describe('beyond', () => {
+  it('adds the later type brackets going forward', () => {
+    expect(beyond('price', 5, true)).toEqual({
+      $or: [{ price: { $gt: 5 } }, { price: { $type: AFTER_NUMBERS } }],
+    });
+  });
+
+  it('adds the earlier brackets and null (missing fields too) going backward', () => {
+    expect(beyond('price', 5, false)).toEqual({
+      $or: [{ price: { $lt: 5 } }, { price: { $type: ['minKey'] } }, { price: null }],
+    });
+  });
+
+  it('has no range within the null bracket', () => {
+    expect(beyond('price', null, true)).toEqual({ price: { $type: ['number', ...AFTER_NUMBERS] } });
+    expect(beyond('price', null, false)).toEqual({ price: { $type: ['minKey'] } });
+  });
+
+  it('ranks other bson types by their bracket', () => {
+    const id = new ObjectId('507f1f77bcf86cd799439011');
+
+    expect(beyond('ref', id, true)).toEqual({
+      $or: [{ ref: { $gt: id } }, { ref: { $type: ['bool', 'date', 'timestamp', 'regex', 'maxKey'] } }],
+    });
+    expect(beyond('at', new Date(0), false)).toEqual({
+      $or: [
+        { at: { $lt: new Date(0) } },
+        { at: { $type: ['minKey', 'number', 'string', 'symbol', 'object', 'array', 'binData', 'objectId', 'bool'] } },
+        { at: null },
+      ],
+    });
+  });
+
+  it('falls back to the range alone for types outside the order', () => {
+    const code = { _bsontype: 'Code', code: 'x' };
+
+    expect(beyond('f', code, true)).toEqual({ f: { $gt: code } });
+  });
+});
+
+describe('keysetFilter', () => {
+  const cursor = (sort: Record<string, 1 | -1>, values: unknown[], direction: PageCursor['direction'] = 'next'): PageCursor =>
+    ({ sort: toSortEntries(sort), values, direction });
+
+  it('breaks ties on _id', () => {
+    expect(keysetFilter(cursor({ name: 1 }, ['b', 7]))).toEqual({
+      $or: [
+        { $or: [{ name: { $gt: 'b' } }, { name: { $type: AFTER_NUMBERS.slice(2) } }] },
+        { name: 'b', $or: [{ _id: { $gt: 7 } }, { _id: { $type: AFTER_NUMBERS } }] },
+      ],
+    });
+  });
+
+  it('walks a descending sort downwards, and upwards for the previous page', () => {
+    const next = keysetFilter(cursor({ price: -1 }, [5, 7]));
+    const prev = keysetFilter(cursor({ price: -1 }, [5, 7], 'prev'));
+
+    expect(next.$or).toContainEqual(beyond('price', 5, false));
+    expect(prev.$or).toContainEqual(beyond('price', 5, true));
+    expect(next.$or).toContainEqual({ price: 5, ...beyond('_id', 7, false) });
+  });
+
+  it('matches missing fields with the null values after a null cursor value', () => {
+    // { price: null } is equality, so documents without price tie with the cursor and go by _id
+    expect(keysetFilter(cursor({ price: 1 }, [null, 7]))).toEqual({
+      $or: [
+        { price: { $type: ['number', ...AFTER_NUMBERS] } },
+        { price: null, $or: [{ _id: { $gt: 7 } }, { _id: { $type: AFTER_NUMBERS } }] },
+      ],
+    });
+  });
+
+  it('reads missing fields of the last document as null', () => {
+    const entries = toSortEntries({ 'address.city': 1 });
+
+    expect(cursorValues({ _id: 7 }, entries)).toEqual([null, 7]);
+    expect(cursorValues({ _id: 7, address: 'none' }, entries)).toEqual([null, 7]);
+  });
+});
+
+describe('decodeCursor', () => {
+  const token = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  it('round trips bson values', () => {
+    const cursor: PageCursor = { sort: toSortEntries({ at: -1 }), values: [new Date(0), new ObjectId()], direction: 'prev' };
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('refuses operator objects as values', () => {
+    expect(decodeCursor(token({ s: [['name', 1], ['_id', 1]], v: [{ $where: 'sleep(1000)' }, 1], d: 'next' }))).toBeNull();
+    expect(decodeCursor(token({ s: [['name', 1], ['_id', 1]], v: [[{ $ne: null }], 1], d: 'next' }))).toBeNull();
+  });
+
+  it('refuses operators as sort fields', () => {
+    expect(decodeCursor(token({ s: [['$where', 1], ['_id', 1]], v: ['sleep(1000)', 1], d: 'next' }))).toBeNull();
+  });
+});
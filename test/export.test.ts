@@ -0,0 +1,107 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Document } from 'mongodb';
+import { createExportWriter, csvColumns } from '../src/lib/export.js';
+import { listen, sessionHeaders } from './helpers.js';
+
+let server: Awaited<ReturnType<typeof listen>>;
+let headers: Record<string, string>;
+
+beforeAll(async () => {
+  server = await listen();
+  headers = await sessionHeaders();
+});
+
+afterAll(() => server.close());
+
+function exportWith(params: Record<string, unknown>) {
+  const query = new URLSearchParams({ database: 'shop', collection: 'orders' });
+  for (const [key, value] of Object.entries(params)) {
+    query.set(key, JSON.stringify(value));
+  }
+  return fetch(`${server.baseUrl}/api/export?${query}`, { headers });
+}
+
+// all refused before anything reaches mongodb
+describe('GET /api/export', () => {
+  it('refuses a $function projection', async () => {
+    const res = await exportWith({
+      projection: { total: { $function: { body: 'function () { return 1 }', args: [], lang: 'js' } } },
+    });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/^Invalid projection: Blocked operator "\$function"/);
+  });
+
+  it('refuses an expression projection', async () => {
+    const res = await exportWith({ projection: { total: { $add: ['$a', '$b'] } } });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Invalid projection: Unsupported projection "$add" for "total"');
+  });
+
+  it.each([
+    [{ total: 2 }, 'Invalid sort: Sort direction for "total" must be 1 or -1'],
+    [{ total: { $meta: 'textScore' } }, 'Invalid sort: Sort direction for "total" must be 1 or -1'],
+    [{ $natural: 1 }, 'Invalid sort: Invalid sort field "$natural"'],
+  ])('refuses sort %j', async (sort, error) => {
+    const res = await exportWith({ sort });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe(error);
+  });
+});
+
+async function csv(docs: Document[], options: { fields?: string[]; inferred?: boolean }): Promise<string> {
+  let text = '';
+  await pipeline(Readable.from(docs), createExportWriter('csv', options), async (source: AsyncIterable<Buffer | string>) => {
+    for await (const chunk of source) text += chunk;
+  });
+  return text;
+}
+
+describe('csv export', () => {
+  const docs = [
+    { _id: 1, name: 'a' },
+    { _id: 2, address: { city: 'x' } },
+    { _id: 3, name: 'c', tags: ['t'], late: true },
+  ];
+
+  it('takes the union of every document\'s fields as the header, in the order first seen', async () => {
+    const columns = await csvColumns(Readable.from(docs));
+    expect(columns).toEqual(['_id', 'name', 'address.city', 'tags', 'late']);
+
+    expect(await csv(docs, { fields: columns, inferred: true })).toBe(
+      '_id,name,address.city,tags,late\r\n' +
+      '1,a,,,\r\n' +
+      '2,,x,,\r\n' +
+      '3,c,,"[""t""]",true\r\n'
+    );
+  });
+
+  it('fails on a field missing from an inferred header, and drops it from a requested one', async () => {
+    await expect(csv(docs, { fields: ['_id', 'name'], inferred: true })).rejects.toThrow('Field address.city is not in the CSV header');
+    expect(await csv(docs, { fields: ['_id', 'name'] })).toBe('_id,name\r\n1,a\r\n2,\r\n3,c\r\n');
+  });
+
+  it.each(['=SUM(A1:A9)', '+1', '-1', '@cmd', '\tx', '\rx'])('neutralises a string starting like a formula: %j', async value => {
+    const text = await csv([{ v: value }], { fields: ['v'] });
+    const cell = text.split('\r\n')[1];
+
+    // a cr inside the cell also needs quotes
+    expect(cell).toBe(value.startsWith('\r') ? `"'${value}"` : `'${value}`);
+  });
+
+  it('leaves numbers and formula characters later in a string alone', async () => {
+    expect(await csv([{ n: -1, s: 'a=b' }], { fields: ['n', 's'] })).toBe('n,s\r\n-1,a=b\r\n');
+  });
+
+  it('neutralises header cells too', async () => {
+    expect(await csv([{ '=cmd': 1 }], { fields: ['=cmd'] })).toBe("'=cmd\r\n1\r\n");
+  });
+
+  it('quotes commas, quotes and line breaks', async () => {
+    expect(await csv([{ v: 'a,"b"\nc' }], { fields: ['v'] })).toBe('v\r\n"a,""b""\nc"\r\n');
+  });
+});
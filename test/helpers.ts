@@ -0,0 +1,81 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import app from '../src/app.js';
+import { startSession, NewSessionData } from '../src/lib/sessionManager.js';
+import { issueCsrfToken } from '../src/lib/csrf.js';
+import { DEFAULT_SCOPE } from '../src/utils/scope.js';
+
+const COOKIE_NAME = 'byselfdb_session_dev';
+
+export interface RouteEntry {
+  method: string;
+  path: string;
+}
+
+interface Layer {
+  route?: { path: string; methods: Record<string, boolean> };
+  handle: { stack?: Layer[] };
+  slash?: boolean;
+  match(path: string): boolean;
+}
+
+/**
+ * every route the app serves, read from the router table. routers are
+ * mounted either at the root or at /api.
+ */
+export function routeTable(): RouteEntry[] {
+  const routes: RouteEntry[] = [];
+
+  const visit = (stack: Layer[], prefix: string) => {
+    for (const layer of stack) {
+      if (layer.route) {
+        for (const method of Object.keys(layer.route.methods)) {
+          routes.push({ method: method.toUpperCase(), path: `${prefix}${layer.route.path}` });
+        }
+      } else if (layer.handle.stack) {
+        visit(layer.handle.stack, layer.slash ? prefix : `${prefix}/api`);
+      }
+    }
+  };
+
+  visit((app.router as unknown as { stack: Layer[] }).stack, '');
+  return routes;
+}
+
+/**
+ * fill in route params with values their handlers accept
+ */
+export function concretePath(path: string): string {
+  return path.replace(/:(\w+)/g, (_, name: string) => (name === 'id' ? '507f1f77bcf86cd799439011' : `test-${name}`));
+}
+
+export async function listen(): Promise<{ baseUrl: string; close: () => Promise<void> }> {
+  const server: Server = await new Promise(resolve => {
+    const started = app.listen(0, () => resolve(started));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * a cookie session on a server nobody listens on, and the headers a browser
+ * would send with it. nothing here reaches mongodb.
+ */
+export async function sessionHeaders(overrides: Partial<NewSessionData> = {}): Promise<Record<string, string>> {
+  const cookie = await startSession({
+    uri: 'mongodb://127.0.0.1:1/shop',
+    databaseName: 'shop',
+    allowedScope: DEFAULT_SCOPE,
+    readOnly: false,
+    ...overrides,
+  });
+
+  return {
+    cookie: `${COOKIE_NAME}=${encodeURIComponent(cookie)}`,
+    'x-csrf-token': issueCsrfToken(cookie),
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { cancelJob, createPendingJob, enqueueJob, getJob, Job, JobRunner, runPendingJob } from '../src/lib/jobs.js';
+
+const SESSION = 'jobs-test-session';
+
+// a runner that waits until released
+function held(): { runner: JobRunner; release: () => void } {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  return { runner: async () => { await done; return {}; }, release };
+}
+
+async function settled(id: string): Promise<Job> {
+  for (let i = 0; i < 100; i++) {
+    const job = getJob(SESSION, id)!;
+    if (job.status !== 'queued' && job.status !== 'running') return job;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`job ${id} did not finish`);
+}
+
+describe('job queue', () => {
+  it('runs queued jobs while pending jobs run in their requests', async () => {
+    const imports = [held(), held()];
+    const running = imports.map(({ runner }) => runPendingJob(createPendingJob(SESSION, 'import', 'import', null).id, runner)!);
+
+    // JOB_CONCURRENCY is 2, both slots are still free
+    const queued = enqueueJob(SESSION, 'test', 'queued', async () => ({ result: 'done' }));
+    expect(await settled(queued.id)).toMatchObject({ status: 'completed', result: 'done' });
+
+    imports.forEach(({ release }) => release());
+    await Promise.all(running);
+  });
+
+  it('cancels a queued job without touching the rest of the queue', async () => {
+    const blockers = [held(), held()];
+    const busy = blockers.map(({ runner }) => enqueueJob(SESSION, 'test', 'blocker', runner));
+
+    const cancelled = enqueueJob(SESSION, 'test', 'cancelled', async () => ({ result: 'ran' }));
+    const kept = enqueueJob(SESSION, 'test', 'kept', async () => ({ result: 'ran' }));
+    expect(cancelJob(SESSION, cancelled.id)).toBe(true);
+    expect(cancelJob(SESSION, cancelled.id)).toBe(false);
+
+    blockers.forEach(({ release }) => release());
+    await Promise.all(busy.map(job => settled(job.id)));
+
+    expect(getJob(SESSION, cancelled.id)).toMatchObject({ status: 'cancelled' });
+    expect(await settled(kept.id)).toMatchObject({ status: 'completed', result: 'ran' });
+  });
+});
@@ -0,0 +1,78 @@
+import { EventEmitter } from 'events';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+// config is read when the pool is imported, so this has to run first
+vi.hoisted(() => {
+  process.env.MONGO_MAX_CLIENTS = '1';
+});
+
+// connects to nothing, every command succeeds
+vi.mock('mongodb', () => ({
+  MongoClient: class extends EventEmitter {
+    options = {};
+    async connect() {}
+    async close() {}
+    db() {
+      return { command: async () => ({ ok: 1 }) };
+    }
+  },
+}));
+
+import { closeAllConnections, getActiveConnectionCount, getClient, holdClient } from '../src/lib/mongodb.js';
+import { PoolFullError } from '../src/lib/errors.js';
+
+class Holder extends EventEmitter {
+  closed = false;
+
+  close() {
+    this.closed = true;
+    this.emit('close');
+  }
+}
+
+afterAll(() => closeAllConnections());
+
+describe('client holders', () => {
+  it('keeps a held client from being evicted for another uri', async () => {
+    const request = new Holder();
+    await getClient('mongodb://a.example/shop', request);
+
+    await expect(getClient('mongodb://b.example/shop', new Holder())).rejects.toBeInstanceOf(PoolFullError);
+
+    request.close();
+    const next = new Holder();
+    await getClient('mongodb://b.example/shop', next);
+    expect(getActiveConnectionCount()).toBe(1);
+    next.close();
+  });
+
+  it('keeps the client of a job after its request has closed', async () => {
+    const request = new Holder();
+    const client = await getClient('mongodb://c.example/shop', request);
+    const release = holdClient(client);
+    request.close();
+
+    await expect(getClient('mongodb://d.example/shop', new Holder())).rejects.toBeInstanceOf(PoolFullError);
+
+    // releasing twice doesn't free someone else's hold
+    const other = holdClient(client);
+    release();
+    release();
+    await expect(getClient('mongodb://d.example/shop', new Holder())).rejects.toBeInstanceOf(PoolFullError);
+
+    other();
+    const next = new Holder();
+    await getClient('mongodb://d.example/shop', next);
+    next.close();
+  });
+
+  it('takes no hold for a caller that has already gone', async () => {
+    const gone = new Holder();
+    gone.closed = true;
+
+    await getClient('mongodb://e.example/shop', gone);
+    const next = new Holder();
+    await getClient('mongodb://f.example/shop', next);
+    next.close();
+  });
+});
@@ -0,0 +1,207 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { buildOpenApiSpec } from '../src/lib/openapi.js';
+import { routeSchemas } from '../src/schemas/index.js';
+import { listen, routeTable, sessionHeaders } from './helpers.js';
+
+type JsonSchema = Record<string, any>;
+
+// served next to the spec, not part of it
+const UNDOCUMENTED = new Set(['GET /api/openapi.json', 'GET /api/docs']);
+// no input and nothing in `data`
+const UNSCHEMED = new Set(['POST /disconnect', 'GET /health', 'GET /health/live', 'GET /health/ready']);
+
+const spec = buildOpenApiSpec() as JsonSchema;
+const ajv = new Ajv2020({ strict: false, allErrors: true });
+
+let server: Awaited<ReturnType<typeof listen>>;
+let headers: Record<string, string>;
+
+beforeAll(async () => {
+  server = await listen();
+  headers = await sessionHeaders();
+});
+
+afterAll(() => server.close());
+
+function specPath(path: string): string {
+  return path.replace(/^\/api/, '').replace(/:(\w+)/g, '{$1}');
+}
+
+function resolve(node: JsonSchema): JsonSchema {
+  if (typeof node.$ref !== 'string') return node;
+  return node.$ref.slice(2).split('/').reduce((current: JsonSchema, key: string) => current[key], spec);
+}
+
+/**
+ * the json schema the spec gives for this response, with the components it refers to
+ */
+function responseSchema(method: string, path: string, status: number): JsonSchema | null {
+  const operation = spec.paths[specPath(path)]?.[method.toLowerCase()];
+  if (!operation) {
+    throw new Error(`${method} ${path} is not in the spec`);
+  }
+
+  const response = operation.responses[status] ?? operation.responses.default;
+  if (!response) {
+    throw new Error(`${method} ${path} documents no ${status} response`);
+  }
+
+  const schema = resolve(response).content?.['application/json']?.schema;
+  return schema ? { ...schema, components: spec.components } : null;
+}
+
+/**
+ * send a request and check the answer against the spec. `route` is the pattern, `url` the path actually sent.
+ */
+async function call(
+  method: string,
+  route: string,
+  { url = route, body, session = true }: { url?: string; body?: unknown; session?: boolean } = {}
+): Promise<{ status: number; body: any }> {
+  const res = await fetch(`${server.baseUrl}${url}`, {
+    method,
+    headers: {
+      ...(session ? headers : {}),
+      ...(body === undefined ? {} : { 'content-type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const json = await res.json();
+
+  const schema = responseSchema(method, route, res.status);
+  expect(schema, `${method} ${route} ${res.status} has no json schema`).not.toBeNull();
+
+  const validate = ajv.compile(schema!);
+  expect(validate(json), `${method} ${route} ${res.status}: ${ajv.errorsText(validate.errors)}`).toBe(true);
+
+  return { status: res.status, body: json };
+}
+
+describe('openapi spec', () => {
+  it('lists every /api route and nothing else', () => {
+    const served = routeTable()
+      .filter(route => route.path.startsWith('/api/'))
+      .map(route => `${route.method} ${route.path}`)
+      .filter(route => !UNDOCUMENTED.has(route));
+
+    const documented = Object.entries(spec.paths as Record<string, JsonSchema>).flatMap(([path, operations]) =>
+      Object.keys(operations).map(method => `${method.toUpperCase()} /api${path.replace(/\{(\w+)\}/g, ':$1')}`)
+    );
+
+    expect(documented.sort()).toEqual(served.sort());
+  });
+
+  it('has a route schema for every other route', () => {
+    const missing = routeTable()
+      .filter(route => route.path.startsWith('/api/') && !UNDOCUMENTED.has(`${route.method} ${route.path}`))
+      .map(route => `${route.method} ${route.path.replace(/^\/api/, '')}`)
+      .filter(route => !UNSCHEMED.has(route) && !routeSchemas[route]);
+
+    expect(missing).toEqual([]);
+  });
+
+  it('is valid json schema throughout', () => {
+    for (const [path, operations] of Object.entries(spec.paths as Record<string, JsonSchema>)) {
+      for (const [method, operation] of Object.entries(operations as Record<string, JsonSchema>)) {
+        for (const response of Object.values(operation.responses as Record<string, JsonSchema>)) {
+          const schema = resolve(response).content?.['application/json']?.schema;
+          if (schema) {
+            expect(() => ajv.compile({ ...schema, components: spec.components }), `${method} ${path}`).not.toThrow();
+          }
+        }
+      }
+    }
+  });
+});
+
+describe('responses match the spec', () => {
+  it.each(['/api/health', '/api/health/live', '/api/health/ready'])('GET %s', async path => {
+    await call('GET', path, { session: false });
+  });
+
+  it('GET /api/status', async () => {
+    const { status } = await call('GET', '/api/status');
+    expect(status).toBe(200);
+  });
+
+  it('GET /api/connections', async () => {
+    const { status } = await call('GET', '/api/connections');
+    expect(status).toBe(200);
+  });
+
+  it('GET /api/jobs', async () => {
+    const { status } = await call('GET', '/api/jobs');
+    expect(status).toBe(200);
+  });
+
+  it('GET /api/jobs/:id for an unknown job', async () => {
+    const { status } = await call('GET', '/api/jobs/:id', { url: '/api/jobs/missing' });
+    expect(status).toBe(404);
+  });
+
+  it('creates an import job and reads its progress', async () => {
+    const created = await call('POST', '/api/import/jobs', {
+      body: { database: 'shop', collection: 'orders', format: 'csv', mode: 'upsert', key: 'sku, region' },
+    });
+    expect(created.status).toBe(201);
+    expect(created.body.data.keys).toEqual(['sku', 'region']);
+
+    const { status } = await call('GET', '/api/import/jobs/:jobId', { url: `/api/import/jobs/${created.body.data.id}` });
+    expect(status).toBe(200);
+  });
+
+  it('POST /api/import/jobs with invalid options', async () => {
+    const { status, body } = await call('POST', '/api/import/jobs', {
+      body: { database: 'shop', collection: 'orders', key: '$where', batchSize: 10_000 },
+    });
+    expect(status).toBe(400);
+    expect(body.details.issues.map((issue: { path: string }) => issue.path).sort()).toEqual(['batchSize', 'key']);
+  });
+
+  it('GET /api/history', async () => {
+    const { status } = await call('GET', '/api/history');
+    expect(status).toBe(200);
+  });
+
+  it('GET /api/history/:entryId for an unknown entry', async () => {
+    const { status } = await call('GET', '/api/history/:entryId', { url: '/api/history/missing' });
+    expect(status).toBe(404);
+  });
+
+  it('GET /api/audit', async () => {
+    await call('GET', '/api/audit');
+  });
+
+  it('creates, lists and revokes a token', async () => {
+    const created = await call('POST', '/api/tokens', { body: { name: 'contract' } });
+    expect(created.status).toBe(201);
+
+    const listed = await call('GET', '/api/tokens');
+    expect(listed.body.data.tokens.map((token: { id: string }) => token.id)).toContain(created.body.data.id);
+
+    const revoked = await call('DELETE', '/api/tokens/:id', { url: `/api/tokens/${created.body.data.id}` });
+    expect(revoked.status).toBe(200);
+  });
+
+  it('POST /api/tokens with an invalid body', async () => {
+    const { status, body } = await call('POST', '/api/tokens', { body: { name: 'contract', expiresInDays: 0 } });
+    expect(status).toBe(400);
+    expect(body.code).toBe('INVALID_REQUEST');
+  });
+
+  it('GET /api/documents without a session', async () => {
+    const { status } = await call('GET', '/api/documents', { url: '/api/documents?collection=orders', session: false });
+    expect(status).toBe(401);
+  });
+
+  it('GET /api/documents with an invalid query', async () => {
+    const { status } = await call('GET', '/api/documents', { url: '/api/documents?collection=orders&limit=abc' });
+    expect(status).toBe(400);
+  });
+
+  it('POST /api/disconnect', async () => {
+    const { status } = await call('POST', '/api/disconnect');
+    expect(status).toBe(200);
+  });
+});
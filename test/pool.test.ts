@@ -0,0 +1,35 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// config is read when the app is imported, so this has to run first
+vi.hoisted(() => {
+  process.env.MONGO_MAX_CLIENTS = '1';
+});
+
+import { listen, sessionHeaders } from './helpers.js';
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+beforeAll(async () => {
+  server = await listen();
+});
+
+afterAll(() => server.close());
+
+describe('full connection pool', () => {
+  it('answers 503 with Retry-After instead of logging the session out', async () => {
+    const first = await sessionHeaders({ uri: 'mongodb://127.0.0.1:1/a' });
+    const second = await sessionHeaders({ uri: 'mongodb://127.0.0.1:2/b' });
+
+    // takes the only slot while it tries to connect
+    const pending = new AbortController();
+    void fetch(`${server.baseUrl}/api/collections?database=shop`, { headers: first, signal: pending.signal }).catch(() => {});
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    const res = await fetch(`${server.baseUrl}/api/collections?database=shop`, { headers: second });
+    expect(res.status).toBe(503);
+    expect(res.headers.get('retry-after')).toBe('5');
+    expect(await res.json()).toMatchObject({ success: false, code: 'SERVER_BUSY' });
+
+    pending.abort();
+  });
+});
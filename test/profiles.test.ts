@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { listen } from './helpers.js';
+import { MAX_PROFILES_PER_OWNER } from '../src/lib/profileStore.js';
+
+let server: Awaited<ReturnType<typeof listen>>;
+
+beforeAll(async () => {
+  server = await listen();
+});
+
+afterAll(() => server.close());
+
+const profile = { name: 'shop', uri: 'mongodb://db.example.com:27017/shop' };
+
+function save(body: unknown, cookie?: string) {
+  return fetch(`${server.baseUrl}/api/connections`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...(cookie && { cookie }) },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/connections', () => {
+  it('checks the body against its schema', async () => {
+    const res = await save({ ...profile, name: '  ', readOnly: 'yes' });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.code).toBe('INVALID_REQUEST');
+    expect(body.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['name', 'readOnly']);
+  });
+
+  it(`caps an owner at ${MAX_PROFILES_PER_OWNER} profiles`, async () => {
+    const first = await save(profile);
+    expect(first.status).toBe(201);
+    const cookie = first.headers.get('set-cookie')!.split(';')[0];
+
+    for (let i = 1; i < MAX_PROFILES_PER_OWNER; i++) {
+      expect((await save({ ...profile, name: `shop ${i}` }, cookie)).status).toBe(201);
+    }
+
+    const res = await save({ ...profile, name: 'one too many' }, cookie);
+    expect(res.status).toBe(409);
+
+    // someone else still can
+    expect((await save(profile)).status).toBe(201);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { concretePath, listen, routeTable, sessionHeaders } from './helpers.js';
+import { AuthenticatedRequest } from '../src/middleware/auth.js';
+import { isMutatingRequest } from '../src/middleware/readOnly.js';
+
+// non-GET routes that never write to the user's database. everything else is
+// expected to refuse read-only sessions, so a new route fails here until it does.
+const NON_MUTATING = new Set([
+  'POST /api/connect',
+  'POST /api/disconnect',
+  'POST /api/switch-database',
+  'POST /api/connections',
+  'PUT /api/connections/:id',
+  'DELETE /api/connections/:id',
+  'POST /api/jobs/:id/cancel',
+  'POST /api/tokens',
+  'DELETE /api/tokens/:id',
+  // only with $out / $merge, covered below
+  'POST /api/aggregate',
+]);
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+const READ_ONLY_ERROR = 'Read-only mode: this operation is not allowed';
+
+const namespace = { database: 'shop', collection: 'orders' };
+
+let server: Awaited<ReturnType<typeof listen>>;
+let headers: Record<string, string>;
+
+beforeAll(async () => {
+  server = await listen();
+  headers = await sessionHeaders({ readOnly: true });
+});
+
+afterAll(() => server.close());
+
+function send(method: string, path: string, body?: unknown) {
+  const url = new URL(`${server.baseUrl}${concretePath(path)}`);
+
+  if (SAFE_METHODS.has(method) || method === 'DELETE') {
+    url.search = new URLSearchParams(namespace).toString();
+    return fetch(url, { method, headers });
+  }
+
+  return fetch(url, {
+    method,
+    headers: { ...headers, 'content-type': 'application/json' },
+    body: JSON.stringify(body ?? namespace),
+  });
+}
+
+const mutating = routeTable().filter(route =>
+  !SAFE_METHODS.has(route.method) && !NON_MUTATING.has(`${route.method} ${route.path}`)
+);
+
+describe('read-only sessions', () => {
+  it('finds the mutating routes', () => {
+    expect(mutating).toContainEqual({ method: 'POST', path: '/api/documents' });
+    expect(mutating).toContainEqual({ method: 'DELETE', path: '/api/documents/:id' });
+  });
+
+  it.each(mutating)('$method $path is refused', async ({ method, path }) => {
+    const res = await send(method, path);
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toBe(READ_ONLY_ERROR);
+  });
+
+  it.each(['$out', '$merge'])('POST /api/aggregate with %s is refused', async stage => {
+    const res = await send('POST', '/api/aggregate', { ...namespace, pipeline: [{ [stage]: 'orders_copy' }] });
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toBe(READ_ONLY_ERROR);
+  });
+
+  // sending it would wait on mongodb, so ask the guard directly
+  it('lets a plain aggregation through', () => {
+    const req = { method: 'POST', path: '/aggregate', body: { ...namespace, pipeline: [{ $match: {} }] } };
+
+    expect(isMutatingRequest(req as AuthenticatedRequest)).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { listen, sessionHeaders } from './helpers.js';
+
+let server: Awaited<ReturnType<typeof listen>>;
+let headers: Record<string, string>;
+
+beforeAll(async () => {
+  server = await listen();
+  // DEFAULT_SCOPE: everything but admin, config and local
+  headers = await sessionHeaders();
+});
+
+afterAll(() => server.close());
+
+function post(path: string, body: unknown, query = '') {
+  return fetch(`${server.baseUrl}${path}${query}`, {
+    method: 'POST',
+    headers: { ...headers, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('scope guard', () => {
+  it('refuses a database outside the scope', async () => {
+    const res = await post('/api/switch-database', { databaseName: 'admin' });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('refuses database and databaseName naming different databases', async () => {
+    const res = await post('/api/switch-database', { database: 'shop', databaseName: 'admin' });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ code: 'INVALID_REQUEST', error: 'Invalid request: database and databaseName differ' });
+  });
+
+  it('refuses a namespace that differs between the query string and the body', async () => {
+    const res = await post('/api/documents', { database: 'shop', collection: 'orders', document: {} }, '?database=admin');
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Invalid request: database differs between the query string and the body');
+  });
+});
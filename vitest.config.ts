@@ -0,0 +1,18 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // config is read once at import, so the environment is set here rather than per test
+    env: {
+      NODE_ENV: 'test',
+      SESSION_SECRET: 'test-secret-test-secret-test-secret-test',
+      DATA_DIR: mkdtempSync(join(tmpdir(), 'byselfdb-test-')),
+      AUDIT_LOG: 'off',
+      LOG_LEVEL: 'error',
+    },
+  },
+});